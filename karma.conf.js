@@ -23,10 +23,14 @@ function cfg(config) {
             './src/document/document.js',
             './src/expressions/regex/*.js',
             './src/web/location/*.js',
+            './src/web/memoryhistory/*.js',
             './src/web/browser/*.js',
             './src/web/urlutils/*.js',
             './src/async/promise.js',
+            './src/async/cancellationtoken.js',
             './src/async/ajax.js',
+            './src/async/httpscheduler.js',
+            './src/async/resource.js',
             './src/storage/cache/cache.js',
             './src/storage/cache/templatecache.js',
             './src/storage/basestorage.js',
@@ -76,7 +80,9 @@ function cfg(config) {
             './src/ui/controls/html/html.js',
             './src/ui/controls/select/select.js',
             './src/ui/controls/if/if.js',
+            './src/ui/controls/link/link.js',
             './src/app/app.js',
+            './test/mocks/*.js',
             './test/unit/**/*.js'
         ],
         exclude: [
@@ -26,9 +26,29 @@ namespace plat.async {
             _window: __Window,
             _document: __Document,
             _config: __HttpConfig,
+            _interceptors: __HttpInterceptors,
+            _transports: __HttpTransports,
             _log: __Log,
+            _Promise: __Promise,
+            _CacheFactory: __CacheFactory,
+            _scheduler: __HttpScheduler,
+            _ErrorEvent: __ErrorEventStatic,
         };
 
+        /**
+         * @name __inFlight
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         * @static
+         *
+         * @type {plat.IObject<plat.async.IHttpInFlightRequest>}
+         *
+         * @description
+         * The in-flight deduped GET requests, keyed by url and request headers.
+         */
+        private static __inFlight: IObject<IHttpInFlightRequest> = {};
+
         /**
          * @name clearTimeout
          * @memberof plat.async.HttpRequest
@@ -68,6 +88,20 @@ namespace plat.async {
          */
         public jsonpCallback: string;
 
+        /**
+         * @name abort
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * A method that aborts the in-flight request. Set by the
+         * {@link plat.async.IHttpTransport|transport} sending the request.
+         */
+        public abort: IRemoveListener;
+
         /**
          * @name _log
          * @memberof plat.async.HttpRequest
@@ -132,6 +166,84 @@ namespace plat.async {
          */
         protected _config: IHttpConfig;
 
+        /**
+         * @name _interceptors
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {Array<plat.async.IHttpInterceptor>}
+         *
+         * @description
+         * The registered {@link plat.async.IHttpInterceptor|interceptors}, ordered by priority.
+         */
+        protected _interceptors: IHttpInterceptor[];
+
+        /**
+         * @name _transports
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IObject<plat.async.IHttpTransport>}
+         *
+         * @description
+         * The registered {@link plat.async.IHttpTransport|transports}, keyed by name.
+         */
+        protected _transports: IObject<IHttpTransport>;
+
+        /**
+         * @name _CacheFactory
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.storage.ICacheFactory}
+         *
+         * @description
+         * Reference to the {@link plat.storage.ICacheFactory|ICacheFactory} injectable.
+         */
+        protected _CacheFactory: storage.ICacheFactory;
+
+        /**
+         * @name _scheduler
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.HttpScheduler}
+         *
+         * @description
+         * Reference to the {@link plat.async.HttpScheduler|HttpScheduler} injectable.
+         */
+        protected _scheduler: HttpScheduler;
+
+        /**
+         * @name _ErrorEvent
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.events.IErrorEventStatic}
+         *
+         * @description
+         * Reference to the {@link plat.events.IErrorEventStatic|IErrorEventStatic} injectable.
+         */
+        protected _ErrorEvent: events.IErrorEventStatic;
+
+        /**
+         * @name _Promise
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.IPromise}
+         *
+         * @description
+         * The injectable instance of type {@link plat.async.IPromise|IPromise}
+         */
+        protected _Promise: IPromise;
+
         /**
          * @name __fileSupported
          * @memberof plat.async.HttpRequest
@@ -145,6 +257,19 @@ namespace plat.async {
          */
         private __fileSupported: boolean;
 
+        /**
+         * @name __fetchSupported
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the browser supports the Fetch API.
+         */
+        private __fetchSupported: boolean;
+
         /**
          * @name __options
          * @memberof plat.async.HttpRequest
@@ -158,6 +283,85 @@ namespace plat.async {
          */
         private __options: IHttpConfig;
 
+        /**
+         * @name __cancelled
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not this request has been cancelled.
+         */
+        private __cancelled: boolean = false;
+
+        /**
+         * @name __clearRetry
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * Clears the timeout for a pending retry attempt.
+         */
+        private __clearRetry: IRemoveListener = noop;
+
+        /**
+         * @name __progressListeners
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {Array<(event: plat.async.IHttpProgressEvent) => void>}
+         *
+         * @description
+         * The listeners registered for upload and download progress.
+         */
+        private __progressListeners: ((event: IHttpProgressEvent) => void)[] = [];
+
+        /**
+         * @name __unschedule
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * Removes the request from the {@link plat.async.HttpScheduler|HttpScheduler} queue, or frees its slot
+         * if it has been sent.
+         */
+        private __unschedule: IRemoveListener = noop;
+
+        /**
+         * @name __inFlightRequest
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {plat.async.IHttpInFlightRequest}
+         *
+         * @description
+         * The shared in-flight request this request follows, if it was deduped.
+         */
+        private __inFlightRequest: IHttpInFlightRequest;
+
+        /**
+         * @name __leave
+         * @memberof plat.async.HttpRequest
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * Stops following the shared in-flight request, aborting it if no other request follows it.
+         */
+        private __leave: IRemoveListener = noop;
+
         /**
          * @name constructor
          * @memberof plat.async.HttpRequest
@@ -172,6 +376,7 @@ namespace plat.async {
         constructor() {
             const compat: Compat = acquire(__Compat);
             this.__fileSupported = compat.fileSupported;
+            this.__fetchSupported = compat.fetchSupported;
         }
 
         /**
@@ -205,6 +410,163 @@ namespace plat.async {
          * @returns {plat.async.AjaxPromise} A promise that fulfills when the XMLHttpRequest is done.
          */
         public execute<R>(): AjaxPromise<IAjaxResponse<R>> {
+            return this._bindToken<R>(
+                (): AjaxPromise<IAjaxResponse<R>> =>
+                    this._dispatchErrors<R>(
+                        this._intercept<R>(
+                            (): AjaxPromise<IAjaxResponse<R>> =>
+                                this._cache<R>(
+                                    (request: HttpRequest): AjaxPromise<IAjaxResponse<R>> =>
+                                        request._retry<R>(
+                                            (): AjaxPromise<IAjaxResponse<R>> =>
+                                                request._schedule<R>(
+                                                    (): AjaxPromise<IAjaxResponse<R>> =>
+                                                        request._execute<R>()
+                                                )
+                                        )
+                                )
+                        )
+                    )
+            );
+        }
+
+        /**
+         * @name executeJsonp
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Executes an JSONP request and resolves an {@link plat.async.AjaxPromise|IAjaxPromise} upon completion.
+         *
+         * @typeparam {any} R The response type for the JSONP callback parameter.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the JSONP request is done.
+         */
+        public executeJsonp<R>(): AjaxPromise<IAjaxResponse<R>> {
+            return this._bindToken<R>(
+                (): AjaxPromise<IAjaxResponse<R>> =>
+                    this._dispatchErrors<R>(
+                        this._intercept<R>(
+                            (): AjaxPromise<IAjaxResponse<R>> =>
+                                this._retry<R>(
+                                    (): AjaxPromise<IAjaxResponse<R>> =>
+                                        this._schedule<R>(
+                                            (): AjaxPromise<IAjaxResponse<R>> =>
+                                                this._executeJsonp<R>()
+                                        )
+                                )
+                        )
+                    )
+            );
+        }
+
+        /**
+         * @name cancel
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Cancels the request. If the request has not yet been sent (e.g. it is waiting on an
+         * {@link plat.async.IHttpInterceptor|interceptor} or a retry attempt) it will never be sent.
+         *
+         * @returns {void}
+         */
+        public cancel(): void {
+            const xhr = this.xhr;
+            const jsonpCallback = this.jsonpCallback;
+
+            this.__cancelled = true;
+            this.__leave();
+            this.__clearRetry();
+            this.__unschedule();
+
+            if (isFunction(this.clearTimeout)) {
+                this.clearTimeout();
+            }
+
+            if (isFunction(this.abort)) {
+                this.abort();
+                this.abort = null;
+            }
+
+            if (!isNull(xhr)) {
+                xhr.onreadystatechange = null;
+                xhr.abort();
+                this.xhr = null;
+            } else if (!isNull(jsonpCallback)) {
+                (<any>this._window)[jsonpCallback] = noop;
+            }
+        }
+
+        /**
+         * @name queuePosition
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Gets the position of the request in the {@link plat.async.HttpScheduler|HttpScheduler} queue.
+         *
+         * @returns {number} The zero-based position of the request in the queue, or -1 if it is not queued.
+         */
+        public queuePosition(): number {
+            return this._scheduler.position(this);
+        }
+
+        /**
+         * @name onProgress
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers a listener for upload and download progress. Download progress is reported by the
+         * 'xhr' and 'fetch' transports, upload progress is only reported by the 'xhr' transport and only
+         * if a listener is registered before the request is sent.
+         *
+         * @param {(event: plat.async.IHttpProgressEvent) => void} listener The progress listener.
+         *
+         * @returns {plat.IRemoveListener} A method for removing the listener.
+         */
+        public onProgress(
+            listener: (event: IHttpProgressEvent) => void
+        ): IRemoveListener {
+            if (!isFunction(listener)) {
+                return noop;
+            }
+
+            const listeners = this.__progressListeners;
+
+            listeners.push(listener);
+
+            return (): void => {
+                const index = listeners.indexOf(listener);
+                if (index === -1) {
+                    return;
+                }
+
+                listeners.splice(index, 1);
+            };
+        }
+
+        /**
+         * @name _execute
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Sends the request with the configured {@link plat.async.IHttpTransport|transport} after all the
+         * request {@link plat.async.IHttpInterceptor|interceptors} have run. Falls back to JSONP if the request
+         * is cross-domain and CORS is not supported.
+         *
+         * @typeparam {any} R The response type for the XMLHttpRequest object.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request is done.
+         */
+        protected _execute<R>(): AjaxPromise<IAjaxResponse<R>> {
             const options = this.__options;
             const url = options.url;
 
@@ -215,11 +577,19 @@ namespace plat.async {
             options.url = this._browser.urlUtils(url).toString();
 
             const isCrossDomain = options.isCrossDomain || false;
+            const transport = this._getTransport();
             let xDomain = false;
 
             // check if forced cross domain call or cors is not supported (IE9)
             if (isCrossDomain) {
                 xDomain = true;
+            } else if (isObject(transport)) {
+                return this._sendTransportRequest<R>(
+                    (<IHttpTransport>transport).send,
+                    <IHttpTransport>transport
+                );
+            } else if (transport === 'fetch') {
+                return this._sendFetchRequest();
             } else {
                 this.xhr = new XMLHttpRequest();
                 if (isUndefined(this.xhr.withCredentials)) {
@@ -235,26 +605,26 @@ namespace plat.async {
                     this.jsonpCallback = uniqueId(__JSONP_CALLBACK);
                 }
 
-                return this.executeJsonp();
+                return this._executeJsonp<R>();
             }
 
             return this._sendXhrRequest();
         }
 
         /**
-         * @name executeJsonp
+         * @name _executeJsonp
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access public
+         * @access protected
          *
          * @description
-         * Executes an JSONP request and resolves an {@link plat.async.AjaxPromise|IAjaxPromise} upon completion.
+         * Sends the JSONP request after all the request {@link plat.async.IHttpInterceptor|interceptors} have run.
          *
          * @typeparam {any} R The response type for the JSONP callback parameter.
          *
          * @returns {plat.async.AjaxPromise} A promise that fulfills when the JSONP request is done.
          */
-        public executeJsonp<R>(): AjaxPromise<IAjaxResponse<R>> {
+        protected _executeJsonp<R>(): AjaxPromise<IAjaxResponse<R>> {
             const options = this.__options;
             const url = options.url;
 
@@ -263,6 +633,16 @@ namespace plat.async {
             }
 
             options.url = this._browser.urlUtils(url).toString();
+
+            const transport = <IHttpTransport>this._getTransport();
+
+            if (isObject(transport) && isFunction(transport.jsonp)) {
+                return this._sendTransportRequest<R>(
+                    transport.jsonp,
+                    transport
+                );
+            }
+
             if (isNull(this.jsonpCallback)) {
                 this.jsonpCallback = options.jsonpCallback;
 
@@ -317,7 +697,7 @@ namespace plat.async {
                     this.clearTimeout = postpone((): void => {
                         this.clearTimeout = defer((): void => {
                             reject(
-                                new AjaxError({
+                                new TimeoutError({
                                     response: `Request timed out in ${timeout}ms for ${url}`,
                                     // request timeout
                                     status: 408,
@@ -335,265 +715,147 @@ namespace plat.async {
         }
 
         /**
-         * @name _xhrOnReadyStateChange
+         * @name _bindToken
          * @memberof plat.async.HttpRequest
          * @kind function
          * @access protected
          *
          * @description
-         * A wrapper for the XMLHttpRequest's onReadyStateChanged callback.
+         * Binds the request to its {@link plat.async.CancellationToken|CancellationToken}, if one is specified.
+         * The request is not sent if the token is already cancelled.
          *
-         * @returns {boolean} Waits for the readyState to be complete and then
-         * return true in the case of a success and false in the case of
-         * an error.
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {() => plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} send A method that sends the request.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request is done, or rejects with a
+         * {@link plat.async.CancellationError|CancellationError} when the token is cancelled.
          */
-        protected _xhrOnReadyStateChange(): boolean {
-            const xhr = this.xhr;
-            if (xhr.readyState === 4) {
-                const status = xhr.status;
+        protected _bindToken<R>(
+            send: () => AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const token = this.__options.token;
 
-                if (status === 0) {
-                    let response = xhr.response;
-                    if (isNull(response)) {
-                        try {
-                            response = xhr.responseText;
-                        } catch (e) {}
-                    }
+            if (!isObject(token)) {
+                return send();
+            }
 
-                    // file protocol issue **Needs to be tested more thoroughly**
-                    // ok if response is not empty, Not Found otherwise
-                    if (!isEmpty(response)) {
-                        return true;
-                    }
+            if (token.isCancelled) {
+                const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                    reject(token.reason);
+                });
 
-                    return false;
-                }
+                promise.initialize(this);
 
-                // 304 is not modified
-                if ((status >= 200 && status < 300) || status === 304) {
-                    return true;
-                } else {
-                    return false;
-                }
+                return promise;
             }
-            // else {} TODO: add progress for xhr if we choose to add progress to AjaxPromise
+
+            return <AjaxPromise<IAjaxResponse<R>>>Promise.withToken(send(), token);
         }
 
         /**
-         * @name _sendXhrRequest
+         * @name _dispatchErrors
          * @memberof plat.async.HttpRequest
          * @kind function
          * @access protected
          *
          * @description
-         * The function that initializes and sends the XMLHttpRequest.
+         * Dispatches an {@link plat.events.ErrorEvent|ErrorEvent} when the request fails, so the error
+         * reaches the {@link plat.App|App's} error handler. Cancelled requests are not reported, and the
+         * failure of a deduped request is only reported once.
          *
-         * @returns {plat.async.AjaxPromise} A promise that fulfills with the
-         * formatted {@link plat.async.IAjaxResponse|IAjaxResponse} and rejects if there is a problem with an
-         * {@link plat.async.AjaxError|IAjaxError}.
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} promise The promise for the request.
+         *
+         * @returns {plat.async.AjaxPromise} The same promise.
          */
-        protected _sendXhrRequest(): AjaxPromise<IAjaxResponse<any>> {
-            const xhr = this.xhr;
-            let options = this.__options;
-            let method = options.method;
-            const url = options.url;
-            const promise = new AjaxPromise<IAjaxResponse<any>>((resolve, reject): void => {
-                xhr.onreadystatechange = (): void => {
-                    const success = this._xhrOnReadyStateChange();
-
-                    if (isNull(success)) {
+        protected _dispatchErrors<R>(
+            promise: AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            promise.then(null, (error: any): void => {
+                const inFlight = this.__inFlightRequest;
+
+                if (this.__cancelled || !isObject(error)) {
+                    return;
+                } else if (isObject(inFlight) && inFlight.error === error) {
+                    if (inFlight.dispatched) {
                         return;
                     }
 
-                    const response = this._formatResponse(
-                        options.responseType,
-                        success
-                    );
-
-                    if (success) {
-                        resolve(response);
-                    } else {
-                        reject(new AjaxError(response));
-                    }
-
-                    this.xhr = options = null;
-                };
-
-                if (!isString(method)) {
-                    this._log.info(
-                        'AjaxOptions method was not of type string. Defaulting to "GET".'
-                    );
-                    method = 'GET';
-                }
-
-                xhr.open(
-                    method.toUpperCase(),
-                    url,
-                    // synchronous XHR not supported
-                    true,
-                    options.user,
-                    options.password
-                );
-
-                let responseType = options.responseType;
-                if (
-                    !(
-                        this.__fileSupported ||
-                        responseType === '' ||
-                        responseType === 'text'
-                    )
-                ) {
-                    responseType = '';
-                }
-
-                // Android < 4.4 will throw a DOM Exception 12 if responseType is set to json.
-                // The only way to do feature detection is with try/catch.
-                if (responseType === 'json') {
-                    try {
-                        xhr.responseType = responseType;
-                    } catch (e) {
-                        xhr.responseType = '';
-                    }
+                    inFlight.dispatched = true;
                 }
 
-                xhr.withCredentials = options.withCredentials;
-
-                const mimeType = options.overrideMimeType;
-                let data = options.data;
-
-                if (isString(mimeType) && !isEmpty(mimeType)) {
-                    xhr.overrideMimeType(mimeType);
-                }
+                this._ErrorEvent.dispatch(__error, this, error, this._log.WARN);
+            });
 
-                if (isNull(data) || data === '') {
-                    // no data exists so set headers and send request
-                    this.__setHeaders();
-                    xhr.send();
-                } else {
-                    let transforms = options.transforms;
+            return promise;
+        }
 
-                    if (!isArrayLike(transforms)) {
-                        transforms = [];
-                    }
+        /**
+         * @name _intercept
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Runs the registered {@link plat.async.IHttpInterceptor|interceptors} around a request. The request
+         * hooks are called in order of priority before the request is sent, and the response hooks are called
+         * in the reverse order after it completes.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {() => plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} send A method that sends the request.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request and all the interceptors are done.
+         */
+        protected _intercept<R>(
+            send: () => AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const interceptors = this._interceptors;
 
-                    const length = transforms.length;
-                    const contentType = options.contentType;
-                    const contentTypeExists =
-                        isString(contentType) && !isEmpty(contentType);
+            if (isEmpty(interceptors)) {
+                return send();
+            }
 
-                    if (length > 0) {
-                        // if data transforms defined, assume they're going to take care of
-                        // any and all transformations.
-                        for (let i = 0; i < length; i += 1) {
-                            data = transforms[i](data, xhr);
-                        }
+            const _Promise = this._Promise;
+            const chain = interceptors.slice(0);
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                let next: Promise<any> = _Promise.resolve(this.__options);
+
+                forEach((interceptor: IHttpInterceptor): void => {
+                    next = this.__pipe(
+                        next,
+                        interceptor,
+                        interceptor.request,
+                        interceptor.requestError
+                    );
+                }, chain);
 
-                        // if contentType exists, assume they did not set it in
-                        // their headers as well
-                        if (contentTypeExists) {
-                            xhr.setRequestHeader('Content-Type', contentType);
+                next = next.then(
+                    (options: IHttpConfig): Promise<IAjaxResponse<R>> => {
+                        if (this.__cancelled) {
+                            return new _Promise<IAjaxResponse<R>>(noop);
                         }
 
-                        this.__setHeaders();
-                        xhr.send(data);
-                    } else if (isObject(data)) {
-                        // if isObject and contentType exists we want to transform the data
-                        if (contentTypeExists) {
-                            const contentTypeLower = contentType.toLowerCase();
-                            if (
-                                contentTypeLower.indexOf(
-                                    'x-www-form-urlencoded'
-                                ) !== -1
-                            ) {
-                                // perform an encoded form transformation
-                                data = this.__serializeFormData();
-                                // set Content-Type header because we're assuming they didn't set it
-                                // in their headers object
-                                xhr.setRequestHeader(
-                                    'Content-Type',
-                                    contentType
-                                );
-                                this.__setHeaders();
-                                xhr.send(data);
-                            } else if (
-                                contentTypeLower.indexOf(
-                                    'multipart/form-data'
-                                ) !== -1
-                            ) {
-                                // need to check if File is a supported object
-                                if (this.__fileSupported) {
-                                    // use FormData
-                                    data = this.__appendFormData();
-                                    // do not set the Content-Type header due to modern browsers
-                                    // setting special headers for multipart/form-data
-                                    this.__setHeaders();
-                                    xhr.send(data);
-                                } else {
-                                    // use iframe trick for older browsers (do not send a request)
-                                    // this case is the reason for this giant, terrible, nested if-else statement
-                                    this.__submitFramedFormData().then(
-                                        (response): void => {
-                                            resolve(response);
-                                        },
-                                        (): void => {
-                                            this.xhr = null;
-                                        }
-                                    );
-                                }
-                            } else {
-                                // assume stringification is possible
-                                data = JSON.stringify(data);
-                                // set Content-Type header because we're assuming they didn't set it
-                                // in their headers object
-                                xhr.setRequestHeader(
-                                    'Content-Type',
-                                    contentType
-                                );
-                                this.__setHeaders();
-                                xhr.send(data);
-                            }
-                        } else {
-                            // contentType does not exist so simply set defined headers and send raw data
-                            this.__setHeaders();
-                            xhr.send(data);
-                        }
-                    } else {
-                        // if contentType exists set Content-Type header because we're assuming they didn't set it
-                        // in their headers object
-                        if (contentTypeExists) {
-                            xhr.setRequestHeader('Content-Type', contentType);
+                        if (isObject(options)) {
+                            this.__options = options;
                         }
 
-                        this.__setHeaders();
-                        xhr.send(data);
+                        return send();
                     }
-                }
+                );
 
-                const timeout = options.timeout;
-                if (isNumber(timeout) && timeout > 0) {
-                    // we first postpone to avoid always timing out when debugging, though this is not
-                    // a foolproof method.
-                    this.clearTimeout = postpone((): void => {
-                        this.clearTimeout = defer((): void => {
-                            reject(
-                                new AjaxError({
-                                    response: `Request timed out in ${timeout}ms for ${
-                                        options.url
-                                    }`,
-                                    status: 408,
-                                    getAllResponseHeaders: (): string => {
-                                        return xhr.getAllResponseHeaders();
-                                    },
-                                    xhr: xhr,
-                                })
-                            );
+                forEach((interceptor: IHttpInterceptor): void => {
+                    next = this.__pipe(
+                        next,
+                        interceptor,
+                        interceptor.response,
+                        interceptor.responseError
+                    );
+                }, chain.reverse());
 
-                            xhr.onreadystatechange = null;
-                            xhr.abort();
-                            this.xhr = null;
-                        }, timeout - 1);
-                    });
-                }
+                next.then(resolve, reject);
             });
 
             promise.initialize(this);
@@ -602,567 +864,2663 @@ namespace plat.async {
         }
 
         /**
-         * @name _invalidOptions
+         * @name _cache
          * @memberof plat.async.HttpRequest
          * @kind function
          * @access protected
          *
          * @description
-         * Returns a promise that is immediately rejected due to an error.
-         *
-         * @returns {plat.async.AjaxPromise} A promise that immediately rejects
-         * with an {@link plat.async.AjaxError|IAjaxError}
-         */
-        protected _invalidOptions(): AjaxPromise<IAjaxResponse<any>> {
-            return new AjaxPromise<IAjaxResponse<any>>((resolve, reject): void => {
-                this._log.warn('Attempting a request without specifying a url');
-                reject(
-                    new AjaxError({
-                        response:
-                            'Attempting a request without specifying a url',
-                        status: null,
-                        getAllResponseHeaders: null,
-                        xhr: null,
-                    })
-                );
-            });
-        }
-
-        /**
-         * @name _formatResponse
-         * @memberof plat.async.HttpRequest
-         * @kind function
-         * @access protected
+         * Serves GET requests from the {@link plat.async.IHttpConfig|cache} while they are fresh, otherwise
+         * sends a conditional request and serves a 304 response from the cache. Also dedupes concurrent
+         * GET requests with the same url and headers if specified. Each deduped request gets its own promise,
+         * and the shared request is only aborted once every deduped request is cancelled.
          *
-         * @description
-         * The function that formats the response from the XMLHttpRequest.
+         * @typeparam {any} R The response type for the request.
          *
-         * @param {string} responseType The user designated responseType
-         * @param {boolean} success Signifies if the response was a success
+         * @param {(request: plat.async.HttpRequest) => plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} send
+         * Sends the input request.
          *
-         * @returns {IAjaxResponse<any>} The {@link plat.async.IAjaxResponse|IAjaxResponse} to be returned to
-         * the requester.
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request is done.
          */
-        protected _formatResponse(
-            responseType: string,
-            success: boolean
-        ): IAjaxResponse<any> {
-            const xhr = this.xhr;
-            let status = xhr.status;
-            let response = xhr.response;
+        protected _cache<R>(
+            send: (request: HttpRequest) => AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const options = this.__options;
+            const store = this._getCacheStore();
+            const dedupe = options.dedupe === true;
+            const method = isString(options.method)
+                ? options.method.toUpperCase()
+                : 'GET';
+
+            if (
+                method !== 'GET' ||
+                !isString(options.url) ||
+                isEmpty(options.url) ||
+                (isNull(store) && !dedupe)
+            ) {
+                return send(this);
+            }
 
-            // need to try, catch instead of boolean short circuit because chrome doesn't like checking
-            // responseText when the responseType is anything other than empty or 'text'
-            if (isNull(response)) {
-                try {
-                    response = xhr.responseText;
-                } catch (e) {}
+            const inFlight = HttpRequest.__inFlight;
+            const url = this._browser.urlUtils(options.url).toString();
+            const key = this.__dedupeKey(url);
+            let entry: IHttpCacheEntry;
+
+            if (!isNull(store)) {
+                entry = store.read(url);
+
+                if (isObject(entry) && entry.expires > Date.now()) {
+                    return this.__fromCache<R>(entry);
+                }
             }
 
-            if (status === 0) {
-                // file protocol issue **Needs to be tested more thoroughly**
-                // ok if response empty, Not Found otherwise
-                status = success ? 200 : 404;
+            if (dedupe && isObject(inFlight[key])) {
+                return this.__follow<R>(inFlight[key]);
             }
 
-            xhr.onreadystatechange = null;
+            if (isObject(entry)) {
+                const headers = (options.headers = _extend(
+                    false,
+                    false,
+                    {},
+                    options.headers
+                ));
 
-            if (isFunction(this.clearTimeout)) {
-                this.clearTimeout();
+                if (isString(entry.etag)) {
+                    headers['If-None-Match'] = entry.etag;
+                }
+
+                if (isString(entry.lastModified)) {
+                    headers['If-Modified-Since'] = entry.lastModified;
+                }
             }
 
-            if (responseType === 'json' && isString(response)) {
-                try {
-                    response = JSON.parse(response);
-                } catch (e) {}
+            let shared: IHttpInFlightRequest;
+
+            if (dedupe) {
+                const request: HttpRequest = acquire(__HttpRequestInstance);
+
+                request.__options = _extend(false, false, {}, options);
+                // progress is forwarded to every request that follows the shared request
+                deleteProperty(request.__options, 'onUploadProgress');
+                deleteProperty(request.__options, 'onDownloadProgress');
+
+                shared = inFlight[key] = {
+                    key: key,
+                    request: request,
+                    promise: null,
+                    requests: [],
+                    error: null,
+                    dispatched: false,
+                };
+
+                request.onProgress((event: IHttpProgressEvent): void => {
+                    forEach((follower: HttpRequest): void => {
+                        follower._progress(event.type, event.loaded, event.total);
+                    }, shared.requests.slice(0));
+                });
             }
 
-            return {
-                response: response,
-                status: status,
-                getAllResponseHeaders: (): string => {
-                    return xhr.getAllResponseHeaders();
-                },
-                xhr: xhr,
-            };
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                const done = (): void => {
+                    if (!dedupe) {
+                        return;
+                    } else if (inFlight[key] === shared) {
+                        deleteProperty(inFlight, key);
+                    }
+
+                    shared.requests = [];
+                };
+
+                send(dedupe ? shared.request : this).then(
+                    (response): void => {
+                        done();
+
+                        if (!isNull(store)) {
+                            response = this.__cacheResponse(store, url, response, entry);
+                        }
+
+                        resolve(response);
+                    },
+                    (error): void => {
+                        if (dedupe) {
+                            shared.error = error;
+                        }
+
+                        done();
+                        reject(error);
+                    }
+                );
+            });
+
+            if (!dedupe) {
+                promise.initialize(this);
+
+                return promise;
+            }
+
+            promise.initialize(shared.request);
+            shared.promise = promise;
+
+            return this.__follow<R>(shared);
         }
 
         /**
-         * @name __setHeaders
+         * @name _schedule
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access private
+         * @access protected
          *
          * @description
-         * Sets the headers for an XMLHttpRequest
+         * Queues the request with the {@link plat.async.HttpScheduler|HttpScheduler} if a concurrency
+         * limit is configured. Cancelling the request while it is queued removes it from the queue.
          *
-         * @returns {void}
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {() => plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} send Sends the request.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request is done.
          */
-        private __setHeaders(): void {
-            let headers = this.__options.headers;
+        protected _schedule<R>(
+            send: () => AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const scheduler = this._scheduler;
+            const options = this.__options;
 
-            if (!isObject(headers)) {
-                headers = {};
+            if (!scheduler.isLimited() || !isString(options.url)) {
+                return send();
             }
 
-            const keys = Object.keys(headers);
-            const xhr = this.xhr;
-            const length = keys.length;
-            let key: string;
-            let i: number;
+            const host = this._browser.urlUtils(options.url).host;
+            const priority = isNumber(options.priority) ? options.priority : 0;
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                this.__unschedule = scheduler.enqueue(
+                    this,
+                    host,
+                    priority,
+                    (): void => {
+                        if (this.__cancelled) {
+                            this.__unschedule();
+
+                            return;
+                        }
 
-            for (i = 0; i < length; i += 1) {
-                key = keys[i];
-                xhr.setRequestHeader(key, headers[key]);
-            }
+                        send().then(
+                            (response): void => {
+                                this.__unschedule();
+                                resolve(response);
+                            },
+                            (error): void => {
+                                this.__unschedule();
+                                reject(error);
+                            }
+                        );
+                    }
+                );
+            });
+
+            promise.initialize(this);
+
+            return promise;
         }
 
         /**
-         * @name __serializeFormData
+         * @name _getCacheStore
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access private
+         * @access protected
          *
          * @description
-         * Serializes multipart form data in an XMLHttpRequest as a string.
+         * Gets the store used to cache responses. If the cache option is true the shared
+         * {@link plat.storage.Cache|Cache} is used.
          *
-         * @returns {string}
+         * @returns {plat.async.IHttpCacheStore} The store, or null if responses should not be cached.
          */
-        private __serializeFormData(): string {
-            const data = this.__options.data;
-            const keys = Object.keys(data);
-            const formBuffer: string[] = [];
-            let key: string;
-            let val: any;
-
-            while (keys.length > 0) {
-                key = keys.pop();
-                val = data[key];
-                if (isNull(val)) {
-                    val = '';
-                } else if (isObject(val)) {
-                    if (isDate(val)) {
-                        val = val.toISOString();
-                    } else if (isFile(val)) {
-                        // cannot parse file this way
-                        this._log.warn(`Invalid File entry with key "${key}"`);
-                        val = '[object File]';
-                    } else {
-                        // may throw a fatal error but this is an invalid case
-                        this._log.warn(
-                            `Invalid form entry with key "${key}" and value "${val}"`
-                        );
-                        val = JSON.stringify(val);
-                    }
-                }
+        protected _getCacheStore(): IHttpCacheStore {
+            const cache = this.__options.cache;
 
-                formBuffer.push(
-                    `${encodeURIComponent(key)}=${encodeURIComponent(val)}`
-                );
+            if (cache === true) {
+                return this._CacheFactory.create<IHttpCacheEntry>(__HttpCache);
+            } else if (isObject(cache)) {
+                return <IHttpCacheStore>cache;
             }
 
-            return formBuffer.join('&').replace(/%20/g, '+');
+            return null;
         }
 
         /**
-         * @name __appendFormData
+         * @name _retry
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access private
+         * @access protected
          *
          * @description
-         * Creates FormData to add to the XMLHttpRequest.
+         * Sends a request, sending it again after a backoff delay whenever it fails and the
+         * {@link plat.async.IHttpRetryConfig|retry configuration} allows it.
          *
-         * @returns {FormData}
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {() => plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} send A method that sends the request.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when an attempt succeeds, and rejects
+         * when the last attempt fails.
          */
-        private __appendFormData(): FormData {
-            const data = this.__options.data;
-            const formData = new FormData();
-            const keys = Object.keys(data);
-            let key: string;
-            let val: any;
-
-            while (keys.length > 0) {
-                key = keys.pop();
-                val = data[key];
-                if (isNull(val)) {
-                    formData.append(key, '');
-                } else if (isObject(val)) {
-                    if (isDate(val)) {
-                        formData.append(key, val.toISOString());
-                    } else if (isFile(val)) {
-                        let fileName = val.name;
+        protected _retry<R>(
+            send: () => AjaxPromise<IAjaxResponse<R>>
+        ): AjaxPromise<IAjaxResponse<R>> {
+            if (!isObject(this.__options.retry)) {
+                return send();
+            }
 
-                        if (!isString(fileName)) {
-                            fileName = (<any>val).fileName;
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                const attempt = (count: number): void => {
+                    send().then(resolve, (error: AjaxError): void => {
+                        if (
+                            this.__cancelled ||
+                            !this._shouldRetry(error, count)
+                        ) {
+                            reject(error);
+
+                            return;
                         }
 
-                        if (!isString(fileName)) {
-                            fileName = 'blob';
-                        }
+                        this.__clearRetry = defer((): void => {
+                            this.__clearRetry = noop;
+                            attempt(count + 1);
+                        }, this._retryDelay(count));
+                    });
+                };
 
-                        formData.append(key, val, fileName);
-                    } else {
-                        // may throw a fatal error but this is an invalid case
-                        this._log.warn(
-                            `Invalid form entry with key "${key}" and value "${val}"`
-                        );
-                        formData.append(key, JSON.stringify(val));
-                    }
-                } else {
-                    formData.append(key, val);
-                }
-            }
+                attempt(1);
+            });
 
-            return formData;
+            promise.initialize(this);
+
+            return promise;
         }
 
         /**
-         * @name __submitFramedFormData
+         * @name _shouldRetry
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access private
+         * @access protected
          *
          * @description
-         * Handles submitting multipart form data using an iframe.
+         * Determines whether or not a failed request should be sent again.
          *
-         * @returns {plat.async.Promise} A promise that fulfills after the form data is submitted.
+         * @param {plat.async.AjaxError} error The error from the failed attempt.
+         * @param {number} attempt The number of attempts made so far.
+         *
+         * @returns {boolean} Whether or not to retry the request.
          */
-        private __submitFramedFormData(): Promise<IAjaxResponse<any>> {
+        protected _shouldRetry(error: AjaxError, attempt: number): boolean {
             const options = this.__options;
-            const data = options.data;
-            const url = options.url;
-            const _document = this._document;
-            const $body = _document.body;
-            const Promise: IPromise = acquire(__Promise);
-            const form = _document.createElement('form');
-            const iframe = _document.createElement('iframe');
-            const iframeName = uniqueId('iframe_target');
-            const keys = Object.keys(data);
-            let key: string;
+            const retry = options.retry;
+            const attempts = isNumber(retry.attempts) ? retry.attempts : 3;
 
-            iframe.name = form.target = iframeName;
-            iframe.src = 'javascript:false;';
-            form.enctype = form.encoding = 'multipart/form-data';
-            form.action = url;
-            form.method = 'POST';
-            form.style.display = 'none';
+            if (attempt >= attempts || !isObject(error)) {
+                return false;
+            }
 
-            while (keys.length > 0) {
-                key = keys.pop();
-                form.insertBefore(this.__createInput(key, data[key]), null);
+            if (isFunction(retry.shouldRetry)) {
+                return retry.shouldRetry(error, attempt) === true;
             }
 
-            return new Promise<IAjaxResponse<any>>((resolve, reject): void => {
-                this.xhr.abort = (): void => {
-                    iframe.onload = null;
-                    $body.removeChild(form);
-                    $body.removeChild(iframe);
-                    reject();
-                };
+            const xhr = error.xhr;
+            let status = error.status;
+            let method = options.method;
+            let methods = retry.methods;
+            let statuses = retry.statuses;
 
-                iframe.onload = (): void => {
-                    const content = iframe.contentDocument.body.innerHTML;
+            // a network error from the XMLHttpRequest has a status of 0, but is reported as a 404
+            if (status === 404 && isObject(xhr) && xhr.status === 0) {
+                status = 0;
+            }
 
-                    $body.removeChild(form);
-                    $body.removeChild(iframe);
+            // JSONP requests are always GET requests
+            if (!isString(method) || !isNull(this.jsonpCallback)) {
+                method = 'GET';
+            }
 
-                    resolve({
-                        response: content,
-                        status: 200,
-                        getAllResponseHeaders: (): string => '',
-                    });
+            if (!isArray(methods)) {
+                methods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+            }
 
-                    this.xhr = iframe.onload = null;
-                };
+            if (!isArray(statuses)) {
+                statuses = [0, 408, 429, 502, 503, 504];
+            }
 
-                $body.insertBefore(form, null);
-                $body.insertBefore(iframe, null);
-                form.submit();
-            });
+            return (
+                statuses.indexOf(status) > -1 &&
+                some(
+                    (value: string): boolean =>
+                        value.toUpperCase() === method.toUpperCase(),
+                    methods
+                )
+            );
         }
 
         /**
-         * @name __createInput
+         * @name _retryDelay
          * @memberof plat.async.HttpRequest
          * @kind function
-         * @access private
+         * @access protected
          *
          * @description
-         * Creates input for form data submissions.
+         * Calculates the exponential backoff delay before the next attempt.
          *
-         * @returns {HTMLInputElement}
+         * @param {number} attempt The number of attempts made so far.
+         *
+         * @returns {number} The number of milliseconds to wait before the next attempt.
          */
-        private __createInput(key: string, val: any): HTMLInputElement {
-            const _document = this._document;
-            let input = _document.createElement('input');
+        protected _retryDelay(attempt: number): number {
+            const retry = this.__options.retry;
+            const delay = isNumber(retry.delay) ? retry.delay : 1000;
+            const factor = isNumber(retry.factor) ? retry.factor : 2;
+            const jitter = isNumber(retry.jitter) ? retry.jitter : 0;
+            let timeout = delay * Math.pow(factor, attempt - 1);
+
+            if (isNumber(retry.maxDelay)) {
+                timeout = Math.min(timeout, retry.maxDelay);
+            }
 
-            input.type = 'hidden';
-            input.name = key;
+            if (jitter > 0) {
+                // jitter only spreads out retries, it does not need to be cryptographically secure
+                // tslint:disable-next-line:insecure-random
+                timeout += timeout * jitter * (Math.random() * 2 - 1);
+            }
 
-            if (isNull(val)) {
-                input.value = '';
-            } else if (isObject(val)) {
-                // check if val is an pseudo File
-                if (
-                    isFunction(val.slice) &&
-                    !(isUndefined(val.name) || isUndefined(val.path))
-                ) {
-                    const fileList = _document.querySelectorAll(
-                        `input[type="file"][name="${key}"]`
-                    );
-                    let length = fileList.length;
-                    // if no inputs found, stringify the data
-                    if (length === 0) {
-                        this._log.info(
-                            `Could not find input[type="file"] with [name="${key}"]. Stringifying data instead.`
-                        );
-                        input.value = JSON.stringify(val);
-                    } else if (length === 1) {
-                        input = <HTMLInputElement>fileList[0];
-                        // swap nodes
-                        const clone = input.cloneNode(true);
-                        input.parentNode.insertBefore(clone, input);
-                    } else {
-                        // rare case but may have multiple forms with file inputs
-                        // that have the same name
-                        let fileInput: HTMLInputElement;
-                        const path = val.path;
-                        while (length > 0) {
-                            length -= 1;
-                            fileInput = <HTMLInputElement>fileList[length];
-                            if (fileInput.value === path) {
-                                input = fileInput;
-                                // swap nodes
-                                const inputClone = input.cloneNode(true);
-                                input.parentNode.insertBefore(
-                                    inputClone,
-                                    input
-                                );
-                                break;
-                            }
+            return Math.max(Math.round(timeout), 0);
+        }
+
+        /**
+         * @name _progress
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Reports upload or download progress to the onUploadProgress/onDownloadProgress callbacks
+         * and the registered progress listeners.
+         *
+         * @param {string} type The type of progress, either 'upload' or 'download'.
+         * @param {number} loaded The number of bytes transferred.
+         * @param {number} total The total number of bytes, or 0 if it is unknown.
+         *
+         * @returns {void}
+         */
+        protected _progress(type: string, loaded: number, total: number): void {
+            const options = this.__options;
+            const lengthComputable = isNumber(total) && total > 0;
+            const event: IHttpProgressEvent = {
+                type: type,
+                loaded: loaded,
+                total: lengthComputable ? total : 0,
+                percent: lengthComputable ? Math.min(loaded / total * 100, 100) : null,
+                lengthComputable: lengthComputable,
+            };
+            const callback =
+                type === 'upload' ? options.onUploadProgress : options.onDownloadProgress;
+
+            if (isFunction(callback)) {
+                callback(event);
+            }
+
+            forEach((listener): void => {
+                listener(event);
+            }, this.__progressListeners.slice(0));
+        }
+
+        /**
+         * @name _getTransport
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines the {@link plat.async.IHttpTransport|transport} to use for the request. Registered
+         * transports take precedence over the built-in 'xhr' and 'fetch' transports.
+         *
+         * @returns {string | plat.async.IHttpTransport} Either a registered transport, or the name of a
+         * built-in transport ('xhr' or 'fetch').
+         */
+        protected _getTransport(): string | IHttpTransport {
+            let transport = this.__options.transport;
+
+            if (isObject(transport)) {
+                return transport;
+            } else if (!isString(transport) || isEmpty(transport)) {
+                transport = 'xhr';
+            }
+
+            const registered = this._transports[transport];
+
+            if (isObject(registered)) {
+                return registered;
+            } else if (transport === 'fetch') {
+                return this.__fetchSupported ? transport : 'xhr';
+            } else if (transport !== 'xhr') {
+                this._log.warn(
+                    `Http transport "${transport}" is not registered. Defaulting to "xhr".`
+                );
+            }
+
+            return 'xhr';
+        }
+
+        /**
+         * @name _sendTransportRequest
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Sends the request using a registered {@link plat.async.IHttpTransport|transport}. The request is
+         * rejected with a {@link plat.async.TimeoutError|TimeoutError} and aborted if it times out.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {(request: plat.async.HttpRequest, options: plat.async.IHttpConfig) => any} send The transport
+         * method used to send the request.
+         * @param {plat.async.IHttpTransport} transport The transport, used as the context for the send method.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills when the request is done.
+         */
+        protected _sendTransportRequest<R>(
+            send: (
+                request: HttpRequest,
+                options: IHttpConfig
+            ) => PromiseLike<IAjaxResponse<R>>,
+            transport: IHttpTransport
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const options = this.__options;
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                let settled = false;
+                const done = (): boolean => {
+                    if (settled) {
+                        return false;
+                    }
+
+                    settled = true;
+
+                    if (isFunction(this.clearTimeout)) {
+                        this.clearTimeout();
+                    }
+
+                    this.abort = null;
+
+                    return true;
+                };
+
+                this._Promise.resolve(send.call(transport, this, options)).then(
+                    (response: IAjaxResponse<R>): void => {
+                        if (done()) {
+                            resolve(response);
+                        }
+                    },
+                    (error: any): void => {
+                        if (done()) {
+                            reject(error);
                         }
+                    }
+                );
 
-                        // could not find the right file
-                        if (length === -1) {
-                            this._log.info(
-                                `Could not find input[type="file"] with [name="${key}"] and [value="${
-                                    val.path
-                                }"]. Stringifying data instead.`
+                const timeout = options.timeout;
+                if (isNumber(timeout) && timeout > 0) {
+                    // we first postpone to avoid always timing out when debugging, though this is not
+                    // a foolproof method.
+                    this.clearTimeout = postpone((): void => {
+                        this.clearTimeout = defer((): void => {
+                            this.clearTimeout = null;
+
+                            if (isFunction(this.abort)) {
+                                this.abort();
+                            }
+
+                            if (!done()) {
+                                return;
+                            }
+
+                            reject(
+                                new TimeoutError({
+                                    response: `Request timed out in ${timeout}ms for ${options.url}`,
+                                    status: 408,
+                                    getAllResponseHeaders: (): string => '',
+                                })
                             );
-                            input.value = JSON.stringify(val);
-                        }
+                        }, timeout - 1);
+                    });
+                }
+            });
+
+            promise.initialize(this);
+
+            return promise;
+        }
+
+        /**
+         * @name _sendFetchRequest
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * The function that initializes and sends a request using the Fetch API. The request is
+         * aborted with an AbortController (when supported) if it is cancelled or times out.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills with the
+         * formatted {@link plat.async.IAjaxResponse|IAjaxResponse} and rejects if there is a problem with an
+         * {@link plat.async.AjaxError|IAjaxError}.
+         */
+        protected _sendFetchRequest(): AjaxPromise<IAjaxResponse<any>> {
+            const _window = <any>this._window;
+            const options = this.__options;
+            const url = options.url;
+            const headers: IObject<string> = {};
+            const controller = isFunction(_window.AbortController)
+                ? new _window.AbortController()
+                : null;
+            let method = options.method;
+            let credentials = options.credentials;
+
+            if (!isString(method)) {
+                this._log.info(
+                    'AjaxOptions method was not of type string. Defaulting to "GET".'
+                );
+                method = 'GET';
+            }
+
+            if (!isString(credentials)) {
+                credentials = options.withCredentials === true ? 'include' : 'same-origin';
+            }
+
+            const body = this.__createFetchBody(headers);
+            const init: any = {
+                method: method.toUpperCase(),
+                headers: _extend(false, false, headers, options.headers),
+                body: body,
+                credentials: credentials,
+            };
+
+            if (isString(options.mode)) {
+                init.mode = options.mode;
+            }
+
+            if (isString(options.cacheMode)) {
+                init.cache = options.cacheMode;
+            }
+
+            if (isString(options.redirect)) {
+                init.redirect = options.redirect;
+            }
+
+            if (isString(options.user) && isUndefined(init.headers.Authorization)) {
+                const password = isString(options.password) ? options.password : '';
+
+                init.headers.Authorization = `Basic ${_window.btoa(
+                    `${options.user}:${password}`
+                )}`;
+            }
+
+            if (!isNull(controller)) {
+                init.signal = controller.signal;
+            }
+
+            // streaming request bodies require half duplex
+            if (isFunction(_window.ReadableStream) && body instanceof _window.ReadableStream) {
+                init.duplex = 'half';
+            }
+
+            const promise = new AjaxPromise<IAjaxResponse<any>>((resolve, reject): void => {
+                let aborted = false;
+                const done = (): boolean => {
+                    if (isFunction(this.clearTimeout)) {
+                        this.clearTimeout();
                     }
-                } else {
-                    // may throw a fatal error but this is an invalid case
-                    this._log.info(
-                        `Invalid form entry with key "${key}" and value "${val}"`
+
+                    this.abort = null;
+
+                    return !aborted;
+                };
+
+                this.abort = (): void => {
+                    aborted = true;
+
+                    if (!isNull(controller)) {
+                        controller.abort();
+                    }
+                };
+
+                _window
+                    .fetch(url, init)
+                    .then((response: any): Promise<IAjaxResponse<any>> =>
+                        this._formatFetchResponse(response, options.responseType)
+                    )
+                    .then(
+                        (response: IAjaxResponse<any>): void => {
+                            if (!done()) {
+                                return;
+                            }
+
+                            const status = response.status;
+                            // 304 is not modified
+                            const error = this._createError(
+                                response,
+                                (status >= 200 && status < 300) || status === 304
+                            );
+
+                            if (isNull(error)) {
+                                resolve(response);
+                            } else {
+                                reject(error);
+                            }
+                        },
+                        (error: any): void => {
+                            if (!done()) {
+                                return;
+                            }
+
+                            // a network error or an abort, so there is no status
+                            const response: IAjaxResponse<any> = {
+                                response: isObject(error) ? error.message : error,
+                                status: 0,
+                                getAllResponseHeaders: (): string => '',
+                            };
+
+                            reject(
+                                isObject(error) && error.name === 'AbortError'
+                                    ? new AbortError(response)
+                                    : new NetworkError(response)
+                            );
+                        }
                     );
-                    input.value = JSON.stringify(val);
+
+                const timeout = options.timeout;
+                if (isNumber(timeout) && timeout > 0) {
+                    // we first postpone to avoid always timing out when debugging, though this is not
+                    // a foolproof method.
+                    this.clearTimeout = postpone((): void => {
+                        this.clearTimeout = defer((): void => {
+                            this.clearTimeout = null;
+
+                            if (isFunction(this.abort)) {
+                                this.abort();
+                                this.abort = null;
+                            }
+
+                            reject(
+                                new TimeoutError({
+                                    response: `Request timed out in ${timeout}ms for ${url}`,
+                                    status: 408,
+                                    getAllResponseHeaders: (): string => '',
+                                })
+                            );
+                        }, timeout - 1);
+                    });
                 }
-            } else {
-                input.value = val;
+            });
+
+            promise.initialize(this);
+
+            return promise;
+        }
+
+        /**
+         * @name _formatFetchResponse
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * The function that formats the Response from the Fetch API, reading the body according to the
+         * responseType. A responseType of 'stream' resolves with the unread ReadableStream body.
+         *
+         * @param {Response} response The Response object.
+         * @param {string} responseType The user designated responseType
+         *
+         * @returns {plat.async.Promise<IAjaxResponse<any>>} A promise that fulfills with the
+         * {@link plat.async.IAjaxResponse|IAjaxResponse} to be returned to the requester.
+         */
+        protected _formatFetchResponse(
+            response: any,
+            responseType: string
+        ): Promise<IAjaxResponse<any>> {
+            const _window = <any>this._window;
+            const headers = response.headers;
+            const status = response.status;
+            let body: any;
+
+            // re-wrap the body so download progress can be reported as it is read,
+            // null body statuses cannot be re-wrapped.
+            if (
+                responseType !== 'stream' &&
+                !isNull(response.body) &&
+                isFunction(_window.ReadableStream) &&
+                isFunction(_window.Response) &&
+                status >= 200 &&
+                status < 300 &&
+                status !== 204 &&
+                status !== 205
+            ) {
+                const reader = response.body.getReader();
+                const total = parseInt(headers.get('Content-Length'), 10);
+                let loaded = 0;
+
+                response = new _window.Response(
+                    new _window.ReadableStream({
+                        pull: (controller: any): Promise<void> =>
+                            reader.read().then((result: any): void => {
+                                if (result.done) {
+                                    controller.close();
+
+                                    return;
+                                }
+
+                                loaded += result.value.byteLength;
+                                this._progress('download', loaded, total);
+                                controller.enqueue(result.value);
+                            }),
+                    }),
+                    {
+                        status: status,
+                        statusText: response.statusText,
+                        headers: headers,
+                    }
+                );
+            }
+
+            switch (responseType) {
+                case 'stream':
+                    body = response.body;
+                    break;
+                case 'arraybuffer':
+                    body = response.arrayBuffer();
+                    break;
+                case 'blob':
+                    body = response.blob();
+                    break;
+                default:
+                    body = response.text();
             }
 
-            return input;
-        }
+            return this._Promise.resolve(body).then((value: any): IAjaxResponse<any> => {
+                if (responseType === 'document' && isString(value)) {
+                    value = new DOMParser().parseFromString(value, 'text/html');
+                }
+
+                return {
+                    response: value,
+                    status: status,
+                    getAllResponseHeaders: (): string => {
+                        const lines: string[] = [];
+
+                        headers.forEach((headerValue: string, key: string): void => {
+                            lines.push(`${key}: ${headerValue}`);
+                        });
+
+                        return lines.join('\r\n');
+                    },
+                };
+            });
+        }
+
+        /**
+         * @name _xhrOnReadyStateChange
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * A wrapper for the XMLHttpRequest's onReadyStateChanged callback.
+         *
+         * @returns {boolean} Waits for the readyState to be complete and then
+         * return true in the case of a success and false in the case of
+         * an error.
+         */
+        protected _xhrOnReadyStateChange(): boolean {
+            const xhr = this.xhr;
+            if (xhr.readyState === 4) {
+                const status = xhr.status;
+
+                if (status === 0) {
+                    let response = xhr.response;
+                    if (isNull(response)) {
+                        try {
+                            response = xhr.responseText;
+                        } catch (e) {}
+                    }
+
+                    // file protocol issue **Needs to be tested more thoroughly**
+                    // ok if response is not empty, Not Found otherwise
+                    if (!isEmpty(response)) {
+                        return true;
+                    }
+
+                    return false;
+                }
+
+                // 304 is not modified
+                if ((status >= 200 && status < 300) || status === 304) {
+                    return true;
+                } else {
+                    return false;
+                }
+            }
+        }
+
+        /**
+         * @name _sendXhrRequest
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * The function that initializes and sends the XMLHttpRequest.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills with the
+         * formatted {@link plat.async.IAjaxResponse|IAjaxResponse} and rejects if there is a problem with an
+         * {@link plat.async.AjaxError|IAjaxError}.
+         */
+        protected _sendXhrRequest(): AjaxPromise<IAjaxResponse<any>> {
+            const xhr = this.xhr;
+            let options = this.__options;
+            let method = options.method;
+            const url = options.url;
+            const promise = new AjaxPromise<IAjaxResponse<any>>((resolve, reject): void => {
+                xhr.onreadystatechange = (): void => {
+                    const success = this._xhrOnReadyStateChange();
+
+                    if (isNull(success)) {
+                        return;
+                    }
+
+                    const response = this._formatResponse(
+                        options.responseType,
+                        success
+                    );
+                    const error = this._createError(response, success);
+
+                    if (isNull(error)) {
+                        resolve(response);
+                    } else {
+                        reject(error);
+                    }
+
+                    this.xhr = options = null;
+                };
+
+                if (!isString(method)) {
+                    this._log.info(
+                        'AjaxOptions method was not of type string. Defaulting to "GET".'
+                    );
+                    method = 'GET';
+                }
+
+                xhr.open(
+                    method.toUpperCase(),
+                    url,
+                    // synchronous XHR not supported
+                    true,
+                    options.user,
+                    options.password
+                );
+
+                let responseType = options.responseType;
+                if (
+                    !(
+                        this.__fileSupported ||
+                        responseType === '' ||
+                        responseType === 'text'
+                    )
+                ) {
+                    responseType = '';
+                }
+
+                // Android < 4.4 will throw a DOM Exception 12 if responseType is set to json.
+                // The only way to do feature detection is with try/catch.
+                if (responseType === 'json') {
+                    try {
+                        xhr.responseType = responseType;
+                    } catch (e) {
+                        xhr.responseType = '';
+                    }
+                }
+
+                xhr.withCredentials = options.withCredentials;
+
+                const mimeType = options.overrideMimeType;
+                let data = options.data;
+
+                xhr.onprogress = (ev: ProgressEvent): void => {
+                    this._progress(
+                        'download',
+                        ev.loaded,
+                        ev.lengthComputable ? ev.total : 0
+                    );
+                };
+
+                // listening to upload events forces a CORS preflight, so only listen when there is a body
+                // and something to report the progress to
+                if (
+                    !(isNull(data) || data === '' || isNull(xhr.upload)) &&
+                    (isFunction(options.onUploadProgress) || this.__progressListeners.length > 0)
+                ) {
+                    xhr.upload.onprogress = (ev: ProgressEvent): void => {
+                        this._progress(
+                            'upload',
+                            ev.loaded,
+                            ev.lengthComputable ? ev.total : 0
+                        );
+                    };
+                }
+
+                if (isString(mimeType) && !isEmpty(mimeType)) {
+                    xhr.overrideMimeType(mimeType);
+                }
+
+                if (isNull(data) || data === '') {
+                    // no data exists so set headers and send request
+                    this.__setHeaders();
+                    xhr.send();
+                } else {
+                    let transforms = options.transforms;
+
+                    if (!isArrayLike(transforms)) {
+                        transforms = [];
+                    }
+
+                    const length = transforms.length;
+                    const contentType = options.contentType;
+                    const contentTypeExists =
+                        isString(contentType) && !isEmpty(contentType);
+
+                    if (length > 0) {
+                        // if data transforms defined, assume they're going to take care of
+                        // any and all transformations.
+                        for (let i = 0; i < length; i += 1) {
+                            data = transforms[i](data, xhr);
+                        }
+
+                        // if contentType exists, assume they did not set it in
+                        // their headers as well
+                        if (contentTypeExists) {
+                            xhr.setRequestHeader('Content-Type', contentType);
+                        }
+
+                        this.__setHeaders();
+                        xhr.send(data);
+                    } else if (isObject(data)) {
+                        // if isObject and contentType exists we want to transform the data
+                        if (contentTypeExists) {
+                            const contentTypeLower = contentType.toLowerCase();
+                            if (
+                                contentTypeLower.indexOf(
+                                    'x-www-form-urlencoded'
+                                ) !== -1
+                            ) {
+                                // perform an encoded form transformation
+                                data = this.__serializeFormData();
+                                // set Content-Type header because we're assuming they didn't set it
+                                // in their headers object
+                                xhr.setRequestHeader(
+                                    'Content-Type',
+                                    contentType
+                                );
+                                this.__setHeaders();
+                                xhr.send(data);
+                            } else if (
+                                contentTypeLower.indexOf(
+                                    'multipart/form-data'
+                                ) !== -1
+                            ) {
+                                // need to check if File is a supported object
+                                if (this.__fileSupported) {
+                                    // use FormData
+                                    data = this.__appendFormData();
+                                    // do not set the Content-Type header due to modern browsers
+                                    // setting special headers for multipart/form-data
+                                    this.__setHeaders();
+                                    xhr.send(data);
+                                } else {
+                                    // use iframe trick for older browsers (do not send a request)
+                                    // this case is the reason for this giant, terrible, nested if-else statement
+                                    this.__submitFramedFormData().then(
+                                        (response): void => {
+                                            resolve(response);
+                                        },
+                                        (): void => {
+                                            this.xhr = null;
+                                        }
+                                    );
+                                }
+                            } else {
+                                // assume stringification is possible
+                                data = JSON.stringify(data);
+                                // set Content-Type header because we're assuming they didn't set it
+                                // in their headers object
+                                xhr.setRequestHeader(
+                                    'Content-Type',
+                                    contentType
+                                );
+                                this.__setHeaders();
+                                xhr.send(data);
+                            }
+                        } else {
+                            // contentType does not exist so simply set defined headers and send raw data
+                            this.__setHeaders();
+                            xhr.send(data);
+                        }
+                    } else {
+                        // if contentType exists set Content-Type header because we're assuming they didn't set it
+                        // in their headers object
+                        if (contentTypeExists) {
+                            xhr.setRequestHeader('Content-Type', contentType);
+                        }
+
+                        this.__setHeaders();
+                        xhr.send(data);
+                    }
+                }
+
+                const timeout = options.timeout;
+                if (isNumber(timeout) && timeout > 0) {
+                    // we first postpone to avoid always timing out when debugging, though this is not
+                    // a foolproof method.
+                    this.clearTimeout = postpone((): void => {
+                        this.clearTimeout = defer((): void => {
+                            reject(
+                                new TimeoutError({
+                                    response: `Request timed out in ${timeout}ms for ${
+                                        options.url
+                                    }`,
+                                    status: 408,
+                                    getAllResponseHeaders: (): string => {
+                                        return xhr.getAllResponseHeaders();
+                                    },
+                                    xhr: xhr,
+                                })
+                            );
+
+                            xhr.onreadystatechange = null;
+                            xhr.abort();
+                            this.xhr = null;
+                        }, timeout - 1);
+                    });
+                }
+            });
+
+            promise.initialize(this);
+
+            return promise;
+        }
+
+        /**
+         * @name _invalidOptions
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Returns a promise that is immediately rejected due to an error.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that immediately rejects
+         * with an {@link plat.async.AjaxError|IAjaxError}
+         */
+        protected _invalidOptions(): AjaxPromise<IAjaxResponse<any>> {
+            return new AjaxPromise<IAjaxResponse<any>>((resolve, reject): void => {
+                this._log.warn('Attempting a request without specifying a url');
+                reject(
+                    new AjaxError({
+                        response:
+                            'Attempting a request without specifying a url',
+                        status: null,
+                        getAllResponseHeaders: null,
+                        xhr: null,
+                    })
+                );
+            });
+        }
+
+        /**
+         * @name _formatResponse
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * The function that formats the response from the XMLHttpRequest.
+         *
+         * @param {string} responseType The user designated responseType
+         * @param {boolean} success Signifies if the response was a success
+         *
+         * @returns {IAjaxResponse<any>} The {@link plat.async.IAjaxResponse|IAjaxResponse} to be returned to
+         * the requester.
+         */
+        protected _formatResponse(
+            responseType: string,
+            success: boolean
+        ): IAjaxResponse<any> {
+            const xhr = this.xhr;
+            let status = xhr.status;
+            let response = xhr.response;
+
+            // need to try, catch instead of boolean short circuit because chrome doesn't like checking
+            // responseText when the responseType is anything other than empty or 'text'
+            if (isNull(response)) {
+                try {
+                    response = xhr.responseText;
+                } catch (e) {}
+            }
+
+            if (status === 0) {
+                // file protocol issue **Needs to be tested more thoroughly**
+                // ok if response empty, Not Found otherwise
+                status = success ? 200 : 404;
+            }
+
+            xhr.onreadystatechange = null;
+
+            if (isFunction(this.clearTimeout)) {
+                this.clearTimeout();
+            }
+
+            return {
+                response: response,
+                status: status,
+                getAllResponseHeaders: (): string => {
+                    return xhr.getAllResponseHeaders();
+                },
+                xhr: xhr,
+            };
+        }
+
+        /**
+         * @name _createError
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Parses a completed response and creates the error to reject the request with, if any.
+         *
+         * @param {plat.async.IAjaxResponse<any>} response The formatted response.
+         * @param {boolean} success Signifies if the response has a successful status.
+         *
+         * @returns {plat.async.AjaxError} A {@link plat.async.ParseError|ParseError} if a successful response
+         * could not be parsed, a {@link plat.async.NetworkError|NetworkError} if no response was received, a
+         * {@link plat.async.HttpStatusError|HttpStatusError} for error statuses, or null if the request
+         * succeeded.
+         */
+        protected _createError(response: IAjaxResponse<any>, success: boolean): AjaxError {
+            const parseError = this._parseResponse(response, this.__options.responseType);
+
+            if (success) {
+                return isNull(parseError) ? null : new ParseError(response, parseError);
+            }
+
+            const xhr = response.xhr;
+
+            if (response.status === 0 || (isObject(xhr) && xhr.status === 0)) {
+                return new NetworkError(response);
+            }
+
+            return new HttpStatusError(response);
+        }
+
+        /**
+         * @name _parseResponse
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Parses the body of a response with a responseType of 'json', replacing the response with the
+         * parsed value. Empty bodies are left as-is.
+         *
+         * @param {plat.async.IAjaxResponse<any>} response The formatted response.
+         * @param {string} responseType The user designated responseType
+         *
+         * @returns {Error} The error thrown while parsing, or null if the body was parsed or did not need parsing.
+         */
+        protected _parseResponse(response: IAjaxResponse<any>, responseType: string): Error {
+            const body = response.response;
+
+            if (responseType !== 'json' || !isString(body) || isEmpty(body.trim())) {
+                return null;
+            }
+
+            try {
+                response.response = JSON.parse(body);
+            } catch (e) {
+                return e;
+            }
+
+            return null;
+        }
+
+        /**
+         * @name __createFetchBody
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Creates the body for a Fetch API request, transforming the data the same way an
+         * XMLHttpRequest would. Binary data, FormData and streams are sent as-is. Transform functions
+         * receive an object that only implements setRequestHeader in place of the XMLHttpRequest.
+         *
+         * @param {plat.IObject<string>} headers The request headers, to which the Content-Type header will be added
+         * if necessary.
+         *
+         * @returns {any} The request body.
+         */
+        private __createFetchBody(headers: IObject<string>): any {
+            const _window = <any>this._window;
+            const options = this.__options;
+            const contentType = options.contentType;
+            const contentTypeExists = isString(contentType) && !isEmpty(contentType);
+            let data = options.data;
+            let transforms = options.transforms;
+
+            if (isNull(data) || data === '') {
+                return;
+            }
+
+            if (!isArrayLike(transforms)) {
+                transforms = [];
+            }
+
+            const length = transforms.length;
+
+            if (length > 0) {
+                // transforms commonly set headers on the XMLHttpRequest, so they are given an object
+                // that adds the headers to the fetch request instead
+                const xhr = <XMLHttpRequest>(<any>{
+                    setRequestHeader: (name: string, value: string): void => {
+                        headers[name] = value;
+                    },
+                });
+
+                // if data transforms defined, assume they're going to take care of
+                // any and all transformations.
+                for (let i = 0; i < length; i += 1) {
+                    data = transforms[i](data, xhr);
+                }
+            } else if (
+                some(
+                    (type: string): boolean =>
+                        isFunction(_window[type]) && data instanceof _window[type],
+                    ['Blob', 'ArrayBuffer', 'FormData', 'URLSearchParams', 'ReadableStream']
+                )
+            ) {
+                return data;
+            } else if (isObject(data) && contentTypeExists) {
+                const contentTypeLower = contentType.toLowerCase();
+
+                if (contentTypeLower.indexOf('x-www-form-urlencoded') !== -1) {
+                    data = this.__serializeFormData();
+                } else if (contentTypeLower.indexOf('multipart/form-data') !== -1) {
+                    // do not set the Content-Type header due to the browser
+                    // setting special headers for multipart/form-data
+                    return this.__appendFormData();
+                } else {
+                    data = JSON.stringify(data);
+                }
+            } else if (isObject(data)) {
+                return data;
+            }
+
+            if (contentTypeExists) {
+                headers['Content-Type'] = contentType;
+            }
+
+            return data;
+        }
+
+        /**
+         * @name __dedupeKey
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Creates the key used to dedupe in-flight requests. Requests are only deduped if they have
+         * the same url, headers, response type and credentials.
+         *
+         * @param {string} url The absolute url of the request.
+         *
+         * @returns {string} The key for the request.
+         */
+        private __dedupeKey(url: string): string {
+            const options = this.__options;
+            const headers = options.headers;
+            const values: string[] = [];
+
+            if (isObject(headers)) {
+                forEach((value: any, name: string): void => {
+                    values.push(`${name.toLowerCase()}:${value}`);
+                }, headers);
+            }
+
+            return [url, options.responseType, options.withCredentials === true]
+                .concat(values.sort())
+                .join('\n');
+        }
+
+        /**
+         * @name __follow
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Follows a shared in-flight request with a promise of its own. Cancelling the returned promise
+         * only aborts the shared request if no other request follows it.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.IHttpInFlightRequest} shared The shared in-flight request.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that settles with the shared request.
+         */
+        private __follow<R>(
+            shared: IHttpInFlightRequest
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const inFlight = HttpRequest.__inFlight;
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                shared.promise.then(resolve, reject);
+            });
+
+            shared.requests.push(this);
+            this.__inFlightRequest = shared;
+            this.__leave = (): void => {
+                const requests = shared.requests;
+                const index = requests.indexOf(this);
+
+                if (index === -1) {
+                    return;
+                }
+
+                requests.splice(index, 1);
+
+                if (requests.length > 0) {
+                    return;
+                } else if (inFlight[shared.key] === shared) {
+                    deleteProperty(inFlight, shared.key);
+                }
+
+                shared.request.cancel();
+            };
+
+            promise.initialize(this);
+
+            return promise;
+        }
+
+        /**
+         * @name __fromCache
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Creates a promise that fulfills with a copy of a cached response.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.IHttpCacheEntry} entry The cache entry.
+         *
+         * @returns {plat.async.AjaxPromise} A promise that fulfills with the cached response.
+         */
+        private __fromCache<R>(
+            entry: IHttpCacheEntry
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const promise = new AjaxPromise<IAjaxResponse<R>>((resolve): void => {
+                resolve(_extend(false, false, {}, entry.response));
+            });
+
+            promise.initialize(this);
+
+            return promise;
+        }
+
+        /**
+         * @name __cacheResponse
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Stores a response according to its Cache-Control, ETag and Last-Modified headers. If the
+         * response is a 304 the previously cached response is refreshed and returned instead.
+         *
+         * @param {plat.async.IHttpCacheStore} store The cache store.
+         * @param {string} key The cache key.
+         * @param {plat.async.IAjaxResponse<any>} response The response.
+         * @param {plat.async.IHttpCacheEntry} entry The previously cached entry, if any.
+         *
+         * @returns {plat.async.IAjaxResponse<any>} The response to return to the requester.
+         */
+        private __cacheResponse(
+            store: IHttpCacheStore,
+            key: string,
+            response: IAjaxResponse<any>,
+            entry: IHttpCacheEntry
+        ): IAjaxResponse<any> {
+            const allHeaders = response.getAllResponseHeaders();
+            const headers = this.__parseHeaders(allHeaders);
+            const cacheControl = isString(headers['cache-control'])
+                ? headers['cache-control'].toLowerCase()
+                : '';
+            const maxAge = /max-age=(\d+)/.exec(cacheControl);
+            const expires =
+                isNull(maxAge) || cacheControl.indexOf('no-cache') !== -1
+                    ? 0
+                    : Date.now() + parseInt(maxAge[1], 10) * 1000;
+
+            if (response.status === 304 && isObject(entry)) {
+                entry.expires = expires;
+                store.put(key, entry);
+
+                return _extend(false, false, {}, entry.response);
+            }
+
+            const etag = headers.etag;
+            const lastModified = headers['last-modified'];
+
+            if (
+                response.status !== 200 ||
+                cacheControl.indexOf('no-store') !== -1 ||
+                (expires === 0 && isUndefined(etag) && isUndefined(lastModified))
+            ) {
+                if (isObject(entry)) {
+                    store.remove(key);
+                }
+
+                return response;
+            }
+
+            store.put(key, {
+                response: {
+                    response: response.response,
+                    status: response.status,
+                    getAllResponseHeaders: (): string => allHeaders,
+                },
+                etag: etag,
+                lastModified: lastModified,
+                expires: expires,
+            });
+
+            return response;
+        }
+
+        /**
+         * @name __parseHeaders
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Parses the string returned from getAllResponseHeaders into an object with lowercase keys.
+         *
+         * @param {string} headers The response headers.
+         *
+         * @returns {plat.IObject<string>} The parsed headers.
+         */
+        private __parseHeaders(headers: string): IObject<string> {
+            const parsed: IObject<string> = {};
+
+            if (!isString(headers)) {
+                return parsed;
+            }
+
+            forEach((line: string): void => {
+                const index = line.indexOf(':');
+
+                if (index > 0) {
+                    parsed[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+                }
+            }, headers.split(/\r?\n/));
+
+            return parsed;
+        }
+
+        /**
+         * @name __pipe
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Chains a pair of {@link plat.async.IHttpInterceptor|interceptor} hooks onto a promise. If the
+         * fulfillment hook does not return a value, the original value is passed along.
+         *
+         * @param {plat.async.Promise<any>} promise The promise to chain onto.
+         * @param {plat.async.IHttpInterceptor} interceptor The interceptor, used as the context for its hooks.
+         * @param {(value: any) => any} onFulfilled The hook to call when the promise fulfills.
+         * @param {(reason: any) => any} onRejected The hook to call when the promise rejects.
+         *
+         * @returns {plat.async.Promise<any>} The chained promise.
+         */
+        private __pipe(
+            promise: Promise<any>,
+            interceptor: IHttpInterceptor,
+            onFulfilled: (value: any) => any,
+            onRejected: (reason: any) => any
+        ): Promise<any> {
+            const _Promise = this._Promise;
+
+            return promise.then(
+                isFunction(onFulfilled)
+                    ? (value: any): Promise<any> =>
+                          _Promise
+                              .resolve(onFulfilled.call(interceptor, value))
+                              .then((result: any): any =>
+                                  isUndefined(result) ? value : result
+                              )
+                    : undefined,
+                isFunction(onRejected)
+                    ? (reason: any): any => onRejected.call(interceptor, reason)
+                    : undefined
+            );
+        }
+
+        /**
+         * @name __setHeaders
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Sets the headers for an XMLHttpRequest
+         *
+         * @returns {void}
+         */
+        private __setHeaders(): void {
+            let headers = this.__options.headers;
+
+            if (!isObject(headers)) {
+                headers = {};
+            }
+
+            const keys = Object.keys(headers);
+            const xhr = this.xhr;
+            const length = keys.length;
+            let key: string;
+            let i: number;
+
+            for (i = 0; i < length; i += 1) {
+                key = keys[i];
+                xhr.setRequestHeader(key, headers[key]);
+            }
+        }
+
+        /**
+         * @name __serializeFormData
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Serializes multipart form data in an XMLHttpRequest as a string.
+         *
+         * @returns {string}
+         */
+        private __serializeFormData(): string {
+            const data = this.__options.data;
+            const keys = Object.keys(data);
+            const formBuffer: string[] = [];
+            let key: string;
+            let val: any;
+
+            while (keys.length > 0) {
+                key = keys.pop();
+                val = data[key];
+                if (isNull(val)) {
+                    val = '';
+                } else if (isObject(val)) {
+                    if (isDate(val)) {
+                        val = val.toISOString();
+                    } else if (isFile(val)) {
+                        // cannot parse file this way
+                        this._log.warn(`Invalid File entry with key "${key}"`);
+                        val = '[object File]';
+                    } else {
+                        // may throw a fatal error but this is an invalid case
+                        this._log.warn(
+                            `Invalid form entry with key "${key}" and value "${val}"`
+                        );
+                        val = JSON.stringify(val);
+                    }
+                }
+
+                formBuffer.push(
+                    `${encodeURIComponent(key)}=${encodeURIComponent(val)}`
+                );
+            }
+
+            return formBuffer.join('&').replace(/%20/g, '+');
+        }
+
+        /**
+         * @name __appendFormData
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Creates FormData to add to the XMLHttpRequest.
+         *
+         * @returns {FormData}
+         */
+        private __appendFormData(): FormData {
+            const data = this.__options.data;
+            const formData = new FormData();
+            const keys = Object.keys(data);
+            let key: string;
+            let val: any;
+
+            while (keys.length > 0) {
+                key = keys.pop();
+                val = data[key];
+                if (isNull(val)) {
+                    formData.append(key, '');
+                } else if (isObject(val)) {
+                    if (isDate(val)) {
+                        formData.append(key, val.toISOString());
+                    } else if (isFile(val)) {
+                        let fileName = val.name;
+
+                        if (!isString(fileName)) {
+                            fileName = (<any>val).fileName;
+                        }
+
+                        if (!isString(fileName)) {
+                            fileName = 'blob';
+                        }
+
+                        formData.append(key, val, fileName);
+                    } else {
+                        // may throw a fatal error but this is an invalid case
+                        this._log.warn(
+                            `Invalid form entry with key "${key}" and value "${val}"`
+                        );
+                        formData.append(key, JSON.stringify(val));
+                    }
+                } else {
+                    formData.append(key, val);
+                }
+            }
+
+            return formData;
+        }
+
+        /**
+         * @name __submitFramedFormData
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Handles submitting multipart form data using an iframe.
+         *
+         * @returns {plat.async.Promise} A promise that fulfills after the form data is submitted.
+         */
+        private __submitFramedFormData(): Promise<IAjaxResponse<any>> {
+            const options = this.__options;
+            const data = options.data;
+            const url = options.url;
+            const _document = this._document;
+            const $body = _document.body;
+            const Promise: IPromise = acquire(__Promise);
+            const form = _document.createElement('form');
+            const iframe = _document.createElement('iframe');
+            const iframeName = uniqueId('iframe_target');
+            const keys = Object.keys(data);
+            let key: string;
+
+            iframe.name = form.target = iframeName;
+            iframe.src = 'javascript:false;';
+            form.enctype = form.encoding = 'multipart/form-data';
+            form.action = url;
+            form.method = 'POST';
+            form.style.display = 'none';
+
+            while (keys.length > 0) {
+                key = keys.pop();
+                form.insertBefore(this.__createInput(key, data[key]), null);
+            }
+
+            return new Promise<IAjaxResponse<any>>((resolve, reject): void => {
+                this.xhr.abort = (): void => {
+                    iframe.onload = null;
+                    $body.removeChild(form);
+                    $body.removeChild(iframe);
+                    reject();
+                };
+
+                iframe.onload = (): void => {
+                    const content = iframe.contentDocument.body.innerHTML;
+
+                    $body.removeChild(form);
+                    $body.removeChild(iframe);
+
+                    resolve({
+                        response: content,
+                        status: 200,
+                        getAllResponseHeaders: (): string => '',
+                    });
+
+                    this.xhr = iframe.onload = null;
+                };
+
+                $body.insertBefore(form, null);
+                $body.insertBefore(iframe, null);
+
+                // progress cannot be tracked when submitting through an iframe
+                this._progress('upload', 0, 0);
+                form.submit();
+            });
+        }
+
+        /**
+         * @name __createInput
+         * @memberof plat.async.HttpRequest
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Creates input for form data submissions.
+         *
+         * @returns {HTMLInputElement}
+         */
+        private __createInput(key: string, val: any): HTMLInputElement {
+            const _document = this._document;
+            let input = _document.createElement('input');
+
+            input.type = 'hidden';
+            input.name = key;
+
+            if (isNull(val)) {
+                input.value = '';
+            } else if (isObject(val)) {
+                // check if val is an pseudo File
+                if (
+                    isFunction(val.slice) &&
+                    !(isUndefined(val.name) || isUndefined(val.path))
+                ) {
+                    const fileList = _document.querySelectorAll(
+                        `input[type="file"][name="${key}"]`
+                    );
+                    let length = fileList.length;
+                    // if no inputs found, stringify the data
+                    if (length === 0) {
+                        this._log.info(
+                            `Could not find input[type="file"] with [name="${key}"]. Stringifying data instead.`
+                        );
+                        input.value = JSON.stringify(val);
+                    } else if (length === 1) {
+                        input = <HTMLInputElement>fileList[0];
+                        // swap nodes
+                        const clone = input.cloneNode(true);
+                        input.parentNode.insertBefore(clone, input);
+                    } else {
+                        // rare case but may have multiple forms with file inputs
+                        // that have the same name
+                        let fileInput: HTMLInputElement;
+                        const path = val.path;
+                        while (length > 0) {
+                            length -= 1;
+                            fileInput = <HTMLInputElement>fileList[length];
+                            if (fileInput.value === path) {
+                                input = fileInput;
+                                // swap nodes
+                                const inputClone = input.cloneNode(true);
+                                input.parentNode.insertBefore(
+                                    inputClone,
+                                    input
+                                );
+                                break;
+                            }
+                        }
+
+                        // could not find the right file
+                        if (length === -1) {
+                            this._log.info(
+                                `Could not find input[type="file"] with [name="${key}"] and [value="${
+                                    val.path
+                                }"]. Stringifying data instead.`
+                            );
+                            input.value = JSON.stringify(val);
+                        }
+                    }
+                } else {
+                    // may throw a fatal error but this is an invalid case
+                    this._log.info(
+                        `Invalid form entry with key "${key}" and value "${val}"`
+                    );
+                    input.value = JSON.stringify(val);
+                }
+            } else {
+                input.value = val;
+            }
+
+            return input;
+        }
+    }
+
+    /**
+     * @name IHttpConfig
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @extends {plat.async.IJsonpConfig}
+     *
+     * @description
+     * Describes an object which contains Ajax configuration properties.
+     */
+    export interface IHttpConfig extends IJsonpConfig {
+        /**
+         * @name method
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The HTTP method type of XmlHttpRequest such as 'GET', 'POST', 'PUT',
+         * 'DELETE', etc. Ignored for non-HTTP urls. Defaults to 'GET'.
+         */
+        method?: string;
+
+        /**
+         * @name timeout
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of milliseconds a request can take before
+         * automatically being terminated. A value of 0
+         * means there is no timeout.
+         */
+        timeout?: number;
+
+        /**
+         * @name user
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * An optional user string for the XmlHttpRequest
+         */
+        user?: string;
+
+        /**
+         * @name password
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * An optional password string for the XmlHttpRequest
+         */
+        password?: string;
+
+        /**
+         * @name responseType
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The XMLHttpRequestResponseType. The response should
+         * still be checked when received due to browser
+         * incompatibilities. If a browser does not support a
+         * response type it will return the value as a string.
+         * The response type does not affect JSONP callback
+         * arguments.
+         *
+         * @see config.XMLHttpRequestResponseType
+         */
+        responseType?: string;
+
+        /**
+         * @name contentType
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The Content-Type header for XMLHttpRequest when
+         * data is being sent. The default is
+         * 'application/json;charset=utf-8;'.
+         */
+        contentType?: string;
+
+        /**
+         * @name overrideMimeType
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * A string to override the MIME type returned by the server.
+         */
+        overrideMimeType?: string;
+
+        /**
+         * @name headers
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {IObject<any>}
+         *
+         * @description
+         * A key/value pair object where the key is a DOMString header key
+         * and the value is the DOMString header value.
+         */
+        headers?: IObject<any>;
+
+        /**
+         * @name withCredentials
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Indicates whether or not cross-site Access-Control requests
+         * should be made using credentials such as cookies or
+         * authorization headers. The default is false.
+         */
+        withCredentials?: boolean;
+
+        /**
+         * @name data
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {any}
+         *
+         * @description
+         * The request payload
+         */
+        data?: any;
+
+        /**
+         * @name transforms
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.async.IHttpTransformFunction}
+         *
+         * @description
+         * An array of data transform functions that fire in order and consecutively
+         * pass the returned result from one function to the next.
+         */
+        transforms?: IHttpTransformFunction[];
+
+        /**
+         * @name isCrossDomain
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Forces a JSONP, cross-domain request when set to true.
+         * The default is false.
+         */
+        isCrossDomain?: boolean;
+
+        /**
+         * @name retry
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.async.IHttpRetryConfig}
+         *
+         * @description
+         * Configures automatically sending a failed request again. Requests are not
+         * retried unless this is specified.
+         */
+        retry?: IHttpRetryConfig;
+
+        /**
+         * @name transport
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string|plat.async.IHttpTransport}
+         *
+         * @description
+         * The transport used to send the request. Either the name of a transport registered
+         * with {@link plat.async.Http.registerTransport|registerTransport}, one of the built-in
+         * transports ('xhr' or 'fetch'), or a transport object. The 'fetch' transport falls back
+         * to 'xhr' if the Fetch API is not supported. The default is 'xhr'.
+         */
+        transport?: string | IHttpTransport;
+
+        /**
+         * @name credentials
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The credentials mode for the 'fetch' transport ('omit', 'same-origin', or 'include').
+         * Defaults to 'include' if withCredentials is true, otherwise 'same-origin'.
+         */
+        credentials?: string;
+
+        /**
+         * @name mode
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The request mode for the 'fetch' transport ('cors', 'no-cors', or 'same-origin').
+         */
+        mode?: string;
+
+        /**
+         * @name cacheMode
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The browser cache mode for the 'fetch' transport (e.g. 'default', 'no-store', 'reload').
+         */
+        cacheMode?: string;
+
+        /**
+         * @name redirect
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The redirect mode for the 'fetch' transport ('follow', 'error', or 'manual').
+         */
+        redirect?: string;
+
+        /**
+         * @name priority
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {number}
+         *
+         * @description
+         * The priority of the request when a concurrency limit is configured on the
+         * {@link plat.async.HttpScheduler|HttpScheduler}. Requests with a higher priority are sent first.
+         * See {@link plat.async.Http.priority|Http.priority} for the predefined levels. The default is 0.
+         */
+        priority?: number;
+
+        /**
+         * @name cache
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean|plat.async.IHttpCacheStore}
+         *
+         * @description
+         * Caches GET responses according to their Cache-Control, ETag and Last-Modified headers. Fresh
+         * responses are served without a request, stale responses are revalidated with a conditional
+         * request. If true, the shared {@link plat.storage.Cache|Cache} is used, otherwise a custom store can
+         * be specified. The default is false.
+         */
+        cache?: boolean | IHttpCacheStore;
+
+        /**
+         * @name dedupe
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not concurrent GET requests with the same url and headers should share a single
+         * request. Each requester still gets its own {@link plat.async.AjaxPromise|AjaxPromise}, and the
+         * shared request is only aborted once every requester cancels. The default is false.
+         */
+        dedupe?: boolean;
+
+        /**
+         * @name token
+         * @memberof plat.async.IHttpConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.async.CancellationToken}
+         *
+         * @description
+         * A token that cancels the request when it is cancelled. The returned
+         * {@link plat.async.AjaxPromise|AjaxPromise} then rejects with a
+         * {@link plat.async.CancellationError|CancellationError}.
+         */
+        token?: CancellationToken;
+
+        /**
+         * @name onUploadProgress
+         * @memberof plat.async.IHttpConfig
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called as the request body is uploaded. Only supported by the 'xhr' transport, for
+         * framed multipart/form-data submissions the progress is indeterminate. Listening for upload
+         * progress causes cross-origin requests to be preflighted.
+         *
+         * @param {plat.async.IHttpProgressEvent} event The progress event.
+         *
+         * @returns {void}
+         */
+        onUploadProgress?(event: IHttpProgressEvent): void;
+
+        /**
+         * @name onDownloadProgress
+         * @memberof plat.async.IHttpConfig
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called as the response body is downloaded.
+         *
+         * @param {plat.async.IHttpProgressEvent} event The progress event.
+         *
+         * @returns {void}
+         */
+        onDownloadProgress?(event: IHttpProgressEvent): void;
+    }
+
+    /**
+     * @name IHttpCacheStore
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes a store for cached responses. A {@link plat.storage.Cache|Cache} can be used as a store.
+     */
+    export interface IHttpCacheStore {
+        /**
+         * @name read
+         * @memberof plat.async.IHttpCacheStore
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Reads an entry from the store.
+         *
+         * @param {string} key The url of the request.
+         *
+         * @returns {plat.async.IHttpCacheEntry} The entry, or undefined if it does not exist.
+         */
+        read(key: string): IHttpCacheEntry;
+
+        /**
+         * @name put
+         * @memberof plat.async.IHttpCacheStore
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Puts an entry in the store.
+         *
+         * @param {string} key The url of the request.
+         * @param {plat.async.IHttpCacheEntry} entry The entry.
+         *
+         * @returns {any}
+         */
+        put(key: string, entry: IHttpCacheEntry): any;
+
+        /**
+         * @name remove
+         * @memberof plat.async.IHttpCacheStore
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Removes an entry from the store.
+         *
+         * @param {string} key The url of the request.
+         *
+         * @returns {void}
+         */
+        remove(key: string): void;
+
+        /**
+         * @name keys
+         * @memberof plat.async.IHttpCacheStore
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Retrieves the keys of all the entries in the store.
+         *
+         * @returns {Array<string>} The keys.
+         */
+        keys(): string[];
+    }
+
+    /**
+     * @name IHttpCacheEntry
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes a cached response.
+     */
+    export interface IHttpCacheEntry {
+        /**
+         * @name response
+         * @memberof plat.async.IHttpCacheEntry
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.IAjaxResponse<any>}
+         *
+         * @description
+         * The cached response.
+         */
+        response: IAjaxResponse<any>;
+
+        /**
+         * @name etag
+         * @memberof plat.async.IHttpCacheEntry
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The ETag header of the response, sent as If-None-Match when revalidating.
+         */
+        etag?: string;
+
+        /**
+         * @name lastModified
+         * @memberof plat.async.IHttpCacheEntry
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The Last-Modified header of the response, sent as If-Modified-Since when revalidating.
+         */
+        lastModified?: string;
+
+        /**
+         * @name expires
+         * @memberof plat.async.IHttpCacheEntry
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The time (in milliseconds since the epoch) until which the response is fresh. The response
+         * is revalidated once it is no longer fresh.
+         */
+        expires: number;
     }
 
     /**
-     * @name IHttpConfig
+     * @name IHttpInFlightRequest
      * @memberof plat.async
      * @kind interface
-     *
-     * @extends {plat.async.IJsonpConfig}
+     * @access private
      *
      * @description
-     * Describes an object which contains Ajax configuration properties.
+     * Describes a deduped request that is shared by every request that follows it.
      */
-    export interface IHttpConfig extends IJsonpConfig {
+    interface IHttpInFlightRequest {
         /**
-         * @name method
-         * @memberof plat.async.IHttpConfig
+         * @name key
+         * @memberof plat.async.IHttpInFlightRequest
          * @kind property
          * @access public
-         * @optional
          *
          * @type {string}
          *
          * @description
-         * The HTTP method type of XmlHttpRequest such as 'GET', 'POST', 'PUT',
-         * 'DELETE', etc. Ignored for non-HTTP urls. Defaults to 'GET'.
+         * The key used to dedupe the request.
          */
-        method?: string;
+        key: string;
 
         /**
-         * @name timeout
-         * @memberof plat.async.IHttpConfig
+         * @name request
+         * @memberof plat.async.IHttpInFlightRequest
          * @kind property
          * @access public
-         * @optional
          *
-         * @type {number}
+         * @type {plat.async.HttpRequest}
          *
          * @description
-         * The number of milliseconds a request can take before
-         * automatically being terminated. A value of 0
-         * means there is no timeout.
+         * The request that is sent.
          */
-        timeout?: number;
+        request: HttpRequest;
 
         /**
-         * @name user
-         * @memberof plat.async.IHttpConfig
+         * @name promise
+         * @memberof plat.async.IHttpInFlightRequest
          * @kind property
          * @access public
-         * @optional
          *
-         * @type {string}
+         * @type {plat.async.AjaxPromise<plat.async.IAjaxResponse<any>>}
          *
          * @description
-         * An optional user string for the XmlHttpRequest
+         * The promise for the request that is sent.
          */
-        user?: string;
+        promise: AjaxPromise<IAjaxResponse<any>>;
 
         /**
-         * @name password
-         * @memberof plat.async.IHttpConfig
+         * @name requests
+         * @memberof plat.async.IHttpInFlightRequest
          * @kind property
          * @access public
-         * @optional
          *
-         * @type {string}
+         * @type {Array<plat.async.HttpRequest>}
          *
          * @description
-         * An optional password string for the XmlHttpRequest
+         * The requests that follow the shared request and have not been cancelled.
          */
-        password?: string;
+        requests: HttpRequest[];
 
         /**
-         * @name responseType
-         * @memberof plat.async.IHttpConfig
+         * @name error
+         * @memberof plat.async.IHttpInFlightRequest
          * @kind property
          * @access public
-         * @optional
          *
-         * @type {string}
+         * @type {any}
          *
          * @description
-         * The XMLHttpRequestResponseType. The response should
-         * still be checked when received due to browser
-         * incompatibilities. If a browser does not support a
-         * response type it will return the value as a string.
-         * The response type does not affect JSONP callback
-         * arguments.
+         * The error the request failed with, if any.
+         */
+        error: any;
+
+        /**
+         * @name dispatched
+         * @memberof plat.async.IHttpInFlightRequest
+         * @kind property
+         * @access public
          *
-         * @see config.XMLHttpRequestResponseType
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the error has been dispatched as an {@link plat.events.ErrorEvent|ErrorEvent}.
          */
-        responseType?: string;
+        dispatched: boolean;
+    }
 
+    /**
+     * @name IHttpRetryConfig
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes an object which configures retrying failed requests with exponential backoff.
+     * The delay before each retry is `delay * factor^(attempt - 1)`, capped at `maxDelay`.
+     */
+    export interface IHttpRetryConfig {
         /**
-         * @name contentType
-         * @memberof plat.async.IHttpConfig
+         * @name attempts
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {string}
+         * @type {number}
          *
          * @description
-         * The Content-Type header for XMLHttpRequest when
-         * data is being sent. The default is
-         * 'application/json;charset=utf-8;'.
+         * The maximum number of times to send the request, including the first attempt.
+         * Defaults to 3.
          */
-        contentType?: string;
+        attempts?: number;
 
         /**
-         * @name overrideMimeType
-         * @memberof plat.async.IHttpConfig
+         * @name delay
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {string}
+         * @type {number}
          *
          * @description
-         * A string to override the MIME type returned by the server.
+         * The number of milliseconds to wait before the first retry. Defaults to 1000.
          */
-        overrideMimeType?: string;
+        delay?: number;
 
         /**
-         * @name headers
-         * @memberof plat.async.IHttpConfig
+         * @name factor
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {IObject<any>}
+         * @type {number}
          *
          * @description
-         * A key/value pair object where the key is a DOMString header key
-         * and the value is the DOMString header value.
+         * The factor by which the delay grows after each attempt. Defaults to 2.
          */
-        headers?: IObject<any>;
+        factor?: number;
 
         /**
-         * @name withCredentials
-         * @memberof plat.async.IHttpConfig
+         * @name maxDelay
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {boolean}
+         * @type {number}
          *
          * @description
-         * Indicates whether or not cross-site Access-Control requests
-         * should be made using credentials such as cookies or
-         * authorization headers. The default is false.
+         * The maximum number of milliseconds to wait between attempts.
          */
-        withCredentials?: boolean;
+        maxDelay?: number;
 
         /**
-         * @name data
-         * @memberof plat.async.IHttpConfig
+         * @name jitter
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {any}
+         * @type {number}
          *
          * @description
-         * The request payload
+         * A number between 0 and 1 used to randomize each delay by up to that fraction
+         * (e.g. 0.2 randomizes each delay by up to 20% either way). Defaults to 0.
          */
-        data?: any;
+        jitter?: number;
 
         /**
-         * @name transforms
-         * @memberof plat.async.IHttpConfig
+         * @name statuses
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
-         * @type {plat.async.IHttpTransformFunction}
+         * @type {Array<number>}
          *
          * @description
-         * An array of data transform functions that fire in order and consecutively
-         * pass the returned result from one function to the next.
+         * The response statuses that can be retried. A status of 0 signifies a network error.
+         * Defaults to `[0, 408, 429, 502, 503, 504]`.
          */
-        transforms?: IHttpTransformFunction[];
+        statuses?: number[];
 
         /**
-         * @name isCrossDomain
-         * @memberof plat.async.IHttpConfig
+         * @name methods
+         * @memberof plat.async.IHttpRetryConfig
          * @kind property
          * @access public
          * @optional
          *
+         * @type {Array<string>}
+         *
+         * @description
+         * The HTTP methods that can be retried. Defaults to the idempotent methods
+         * `['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']`.
+         */
+        methods?: string[];
+
+        /**
+         * @name shouldRetry
+         * @memberof plat.async.IHttpRetryConfig
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Determines whether or not a failed attempt should be retried. When specified, it is
+         * used in place of the `statuses` and `methods` checks. The `attempts` limit still applies.
+         *
+         * @param {plat.async.AjaxError} error The error from the failed attempt.
+         * @param {number} attempt The number of attempts made so far.
+         *
+         * @returns {boolean} Whether or not to retry the request.
+         */
+        shouldRetry?(error: AjaxError, attempt: number): boolean;
+    }
+
+    /**
+     * @name IHttpProgressEvent
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes the upload or download progress of a request.
+     */
+    export interface IHttpProgressEvent {
+        /**
+         * @name type
+         * @memberof plat.async.IHttpProgressEvent
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The type of progress, either 'upload' or 'download'.
+         */
+        type: string;
+
+        /**
+         * @name loaded
+         * @memberof plat.async.IHttpProgressEvent
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of bytes transferred so far.
+         */
+        loaded: number;
+
+        /**
+         * @name total
+         * @memberof plat.async.IHttpProgressEvent
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The total number of bytes to transfer, or 0 if it is unknown.
+         */
+        total: number;
+
+        /**
+         * @name percent
+         * @memberof plat.async.IHttpProgressEvent
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The percentage (0-100) of bytes transferred, or null if the total is unknown.
+         */
+        percent: number;
+
+        /**
+         * @name lengthComputable
+         * @memberof plat.async.IHttpProgressEvent
+         * @kind property
+         * @access public
+         *
          * @type {boolean}
          *
          * @description
-         * Forces a JSONP, cross-domain request when set to true.
-         * The default is false.
+         * Whether or not the total is known. When false the progress is indeterminate.
          */
-        isCrossDomain?: boolean;
+        lengthComputable: boolean;
     }
 
     /**
@@ -1171,13 +3529,174 @@ namespace plat.async {
      * @kind interface
      *
      * @description
-     * A function that is used to transform XMLHttpRequest data.
+     * A function that is used to transform XMLHttpRequest data. When the request is sent with the
+     * 'fetch' transport, the xhr argument only implements setRequestHeader, which adds a header to
+     * the fetch request.
      */
     export type IHttpTransformFunction = (
         data: any,
         xhr: XMLHttpRequest
     ) => any;
 
+    /**
+     * @name IHttpTransport
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes an object that sends requests for {@link plat.async.Http|Http}. Transports are registered
+     * by name with {@link plat.async.Http.registerTransport|registerTransport} and selected with the
+     * transport property on the {@link plat.async.IHttpConfig|IHttpConfig}.
+     */
+    export interface IHttpTransport {
+        /**
+         * @name send
+         * @memberof plat.async.IHttpTransport
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends the request. If the transport supports cancellation it should set the abort
+         * method on the request.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.HttpRequest} request The request being sent.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {PromiseLike<plat.async.IAjaxResponse<R>>} A promise that fulfills with the response, or
+         * rejects with an {@link plat.async.AjaxError|AjaxError}.
+         */
+        send<R>(
+            request: HttpRequest,
+            options: IHttpConfig
+        ): PromiseLike<IAjaxResponse<R>>;
+
+        /**
+         * @name jsonp
+         * @memberof plat.async.IHttpTransport
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Sends a JSONP request. If not defined, JSONP requests are made by appending a script tag.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.HttpRequest} request The request being sent.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {PromiseLike<plat.async.IAjaxResponse<R>>} A promise that fulfills with the response, or
+         * rejects with an {@link plat.async.AjaxError|AjaxError}.
+         */
+        jsonp?<R>(
+            request: HttpRequest,
+            options: IHttpConfig
+        ): PromiseLike<IAjaxResponse<R>>;
+    }
+
+    /**
+     * @name IHttpInterceptor
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes an object that can intercept every request made with {@link plat.async.Http|Http}. All
+     * of the hooks are optional, and each hook can return a {@link plat.async.Promise|Promise} in order
+     * to delay the request or response.
+     */
+    export interface IHttpInterceptor {
+        /**
+         * @name priority
+         * @memberof plat.async.IHttpInterceptor
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {number}
+         *
+         * @description
+         * The priority of the interceptor. Interceptors with a higher priority have their request hooks
+         * called first and their response hooks called last. Defaults to 0.
+         */
+        priority?: number;
+
+        /**
+         * @name request
+         * @memberof plat.async.IHttpInterceptor
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called before a request is sent. Can modify the request configuration (e.g. to add headers)
+         * or return a new configuration to use. Throwing or rejecting will prevent the request from being sent.
+         *
+         * @param {plat.async.IHttpConfig} config The configuration for the request.
+         *
+         * @returns {plat.async.IHttpConfig} The configuration to use for the request.
+         */
+        request?(
+            config: IHttpConfig
+        ): IHttpConfig | PromiseLike<IHttpConfig> | void;
+
+        /**
+         * @name requestError
+         * @memberof plat.async.IHttpInterceptor
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called when a previous request hook fails. Return a configuration in order to recover and send the request,
+         * otherwise throw or reject.
+         *
+         * @param {any} error The error thrown by the previous request hook.
+         *
+         * @returns {plat.async.IHttpConfig} The configuration to use for the request.
+         */
+        requestError?(error: any): IHttpConfig | PromiseLike<IHttpConfig>;
+
+        /**
+         * @name response
+         * @memberof plat.async.IHttpInterceptor
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called after a request succeeds. Can modify the response or return a new response.
+         * Throwing or rejecting will cause the request to fail.
+         *
+         * @param {plat.async.IAjaxResponse<any>} response The response for the request.
+         *
+         * @returns {plat.async.IAjaxResponse<any>} The response to use.
+         */
+        response?(
+            response: IAjaxResponse<any>
+        ): IAjaxResponse<any> | PromiseLike<IAjaxResponse<any>> | void;
+
+        /**
+         * @name responseError
+         * @memberof plat.async.IHttpInterceptor
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * Called when a request fails, or when a previous response hook fails. Return a response in order to
+         * recover (e.g. after refreshing a token and sending the request again), otherwise throw or reject.
+         *
+         * @param {plat.async.AjaxError} error The error for the request.
+         *
+         * @returns {plat.async.IAjaxResponse<any>} The response to use.
+         */
+        responseError?(
+            error: AjaxError
+        ): IAjaxResponse<any> | PromiseLike<IAjaxResponse<any>>;
+    }
+
     /**
      * @name IJsonpConfig
      * @memberof plat.async
@@ -1380,70 +3899,407 @@ namespace plat.async {
          *
          * @returns {void}
          */
-        public getAllResponseHeaders: () => string;
+        public getAllResponseHeaders: () => string;
+
+        /**
+         * @name xhr
+         * @memberof plat.async.AjaxError
+         * @kind property
+         * @access public
+         *
+         * @type {XMLHttpRequest}
+         *
+         * @description
+         * The XMLHttpRequest object associated with the AJAX call
+         */
+        public xhr: XMLHttpRequest;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.AjaxError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for an {@link plat.async.AjaxError|AjaxError}.
+         *
+         * @param {plat.async.IAjaxResponse} response The {@link plat.async.IAjaxResponse|IAjaxResponse} object.
+         *
+         * @returns {plat.async.AjaxError}
+         */
+        constructor(response: IAjaxResponse<any>) {
+            Error.apply(this);
+            this.response = this.message = response.response;
+            this.status = response.status;
+            this.getAllResponseHeaders = response.getAllResponseHeaders;
+            this.xhr = response.xhr;
+        }
+
+        /**
+         * @name toString
+         * @memberof plat.async.AjaxError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Outputs a formatted string describing the {@link plat.async.AjaxError|AjaxError}.
+         *
+         * @returns {string}
+         */
+        public toString(): string {
+            const response = this.response;
+            let responseText = response;
+
+            if (isObject(response) && !response.hasOwnProperty('toString')) {
+                responseText = JSON.stringify(response);
+            }
+
+            return `Request failed with status: ${
+                this.status
+            } and response: ${responseText}`;
+        }
+    }
+
+    // have to bypass TS flags in order to properly extend Error, the prototype is not shared with
+    // Error so that instanceof does not match other errors
+    const ajaxErrorToString = AjaxError.prototype.toString;
+    (<any>AjaxError).prototype = Object.create(Error.prototype);
+    (<any>AjaxError).prototype.constructor = AjaxError;
+    (<any>AjaxError).prototype.toString = ajaxErrorToString;
+
+    /**
+     * @name NetworkError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @extends {plat.async.AjaxError}
+     *
+     * @description
+     * The error raised when a request fails before a response is received (e.g. the server could not
+     * be reached or the request was blocked).
+     */
+    export class NetworkError extends AjaxError {
+        /**
+         * @name name
+         * @memberof plat.async.NetworkError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('NetworkError')
+         */
+        public name: string = 'NetworkError';
+    }
+
+    /**
+     * @name TimeoutError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @extends {plat.async.AjaxError}
+     *
+     * @description
+     * The error raised when a request does not complete within its configured timeout. The status is
+     * always 408.
+     */
+    export class TimeoutError extends AjaxError {
+        /**
+         * @name name
+         * @memberof plat.async.TimeoutError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('TimeoutError')
+         */
+        public name: string = 'TimeoutError';
+    }
+
+    /**
+     * @name AbortError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @extends {plat.async.AjaxError}
+     *
+     * @description
+     * The error raised when a request is aborted by its transport.
+     */
+    export class AbortError extends AjaxError {
+        /**
+         * @name name
+         * @memberof plat.async.AbortError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('AbortError')
+         */
+        public name: string = 'AbortError';
+    }
+
+    /**
+     * @name HttpStatusError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @extends {plat.async.AjaxError}
+     *
+     * @description
+     * The error raised when the server responds with an error status. If the response has a Content-Type
+     * of 'application/problem+json' the RFC 7807 problem details are parsed into the problem property.
+     */
+    export class HttpStatusError extends AjaxError {
+        /**
+         * @name name
+         * @memberof plat.async.HttpStatusError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('HttpStatusError')
+         */
+        public name: string = 'HttpStatusError';
+
+        /**
+         * @name problem
+         * @memberof plat.async.HttpStatusError
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.IHttpProblemDetails}
+         *
+         * @description
+         * The RFC 7807 problem details sent with the response, or null if the response is not
+         * 'application/problem+json'.
+         */
+        public problem: IHttpProblemDetails = null;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.HttpStatusError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for an {@link plat.async.HttpStatusError|HttpStatusError}.
+         *
+         * @param {plat.async.IAjaxResponse} response The {@link plat.async.IAjaxResponse|IAjaxResponse} object.
+         *
+         * @returns {plat.async.HttpStatusError}
+         */
+        constructor(response: IAjaxResponse<any>) {
+            super(response);
+
+            const headers = isFunction(response.getAllResponseHeaders)
+                ? response.getAllResponseHeaders()
+                : '';
+
+            if (!/^content-type:\s*application\/problem\+json/im.test(headers)) {
+                return;
+            }
+
+            let problem = response.response;
+
+            if (isString(problem)) {
+                try {
+                    problem = JSON.parse(problem);
+                } catch (e) {
+                    return;
+                }
+            }
+
+            if (!isObject(problem)) {
+                return;
+            }
+
+            this.problem = problem;
+
+            if (isString(problem.detail)) {
+                this.message = problem.detail;
+            } else if (isString(problem.title)) {
+                this.message = problem.title;
+            }
+        }
+
+        /**
+         * @name isClientError
+         * @memberof plat.async.HttpStatusError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether or not the status is a client error (4xx).
+         *
+         * @returns {boolean}
+         */
+        public isClientError(): boolean {
+            return this.status >= 400 && this.status < 500;
+        }
+
+        /**
+         * @name isServerError
+         * @memberof plat.async.HttpStatusError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether or not the status is a server error (5xx).
+         *
+         * @returns {boolean}
+         */
+        public isServerError(): boolean {
+            return this.status >= 500 && this.status < 600;
+        }
+    }
+
+    /**
+     * @name ParseError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @extends {plat.async.AjaxError}
+     *
+     * @description
+     * The error raised when a successful response with a responseType of 'json' cannot be parsed.
+     * The response property contains the unparsed response body.
+     */
+    export class ParseError extends AjaxError {
+        /**
+         * @name name
+         * @memberof plat.async.ParseError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('ParseError')
+         */
+        public name: string = 'ParseError';
+
+        /**
+         * @name error
+         * @memberof plat.async.ParseError
+         * @kind property
+         * @access public
+         *
+         * @type {Error}
+         *
+         * @description
+         * The error thrown while parsing the response.
+         */
+        public error: Error;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.ParseError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for a {@link plat.async.ParseError|ParseError}.
+         *
+         * @param {plat.async.IAjaxResponse} response The {@link plat.async.IAjaxResponse|IAjaxResponse} object.
+         * @param {Error} error The error thrown while parsing the response.
+         *
+         * @returns {plat.async.ParseError}
+         */
+        constructor(response: IAjaxResponse<any>, error: Error) {
+            super(response);
+            this.error = error;
+            this.message = `Unable to parse the response as JSON: ${
+                isObject(error) ? error.message : error
+            }`;
+        }
+    }
+
+    /**
+     * @name IHttpProblemDetails
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @extends {plat.IObject<any>}
+     *
+     * @description
+     * Describes the RFC 7807 problem details of an 'application/problem+json' response. Any
+     * extension members are included as-is.
+     */
+    export interface IHttpProblemDetails extends IObject<any> {
+        /**
+         * @name type
+         * @memberof plat.async.IHttpProblemDetails
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * A URI reference that identifies the problem type.
+         */
+        type?: string;
+
+        /**
+         * @name title
+         * @memberof plat.async.IHttpProblemDetails
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * A short, human-readable summary of the problem type.
+         */
+        title?: string;
 
         /**
-         * @name xhr
-         * @memberof plat.async.AjaxError
+         * @name status
+         * @memberof plat.async.IHttpProblemDetails
          * @kind property
          * @access public
          *
-         * @type {XMLHttpRequest}
+         * @type {number}
          *
          * @description
-         * The XMLHttpRequest object associated with the AJAX call
+         * The HTTP status code generated by the origin server.
          */
-        public xhr: XMLHttpRequest;
+        status?: number;
 
         /**
-         * @name constructor
-         * @memberof plat.async.AjaxError
-         * @kind function
+         * @name detail
+         * @memberof plat.async.IHttpProblemDetails
+         * @kind property
          * @access public
          *
-         * @description
-         * The constructor for an {@link plat.async.AjaxError|AjaxError}.
-         *
-         * @param {plat.async.IAjaxResponse} response The {@link plat.async.IAjaxResponse|IAjaxResponse} object.
+         * @type {string}
          *
-         * @returns {plat.async.AjaxError}
+         * @description
+         * A human-readable explanation specific to this occurrence of the problem.
          */
-        constructor(response: IAjaxResponse<any>) {
-            Error.apply(this);
-            this.response = this.message = response.response;
-            this.status = response.status;
-            this.getAllResponseHeaders = response.getAllResponseHeaders;
-            this.xhr = response.xhr;
-        }
+        detail?: string;
 
         /**
-         * @name toString
-         * @memberof plat.async.AjaxError
-         * @kind function
+         * @name instance
+         * @memberof plat.async.IHttpProblemDetails
+         * @kind property
          * @access public
          *
-         * @description
-         * Outputs a formatted string describing the {@link plat.async.AjaxError|AjaxError}.
+         * @type {string}
          *
-         * @returns {string}
+         * @description
+         * A URI reference that identifies the specific occurrence of the problem.
          */
-        public toString(): string {
-            const response = this.response;
-            let responseText = response;
-
-            if (isObject(response) && !response.hasOwnProperty('toString')) {
-                responseText = JSON.stringify(response);
-            }
-
-            return `Request failed with status: ${
-                this.status
-            } and response: ${responseText}`;
-        }
+        instance?: string;
     }
 
-    // have to bypass TS flags in order to properly extend Error
-    (<any>AjaxError).prototype = Error.prototype;
-
     /**
      * @name AjaxPromise
      * @memberof plat.async
@@ -1544,23 +4400,47 @@ namespace plat.async {
          * @returns {void}
          */
         public cancel(): void {
-            const http = this.__http;
-            const xhr = http.xhr;
-            const jsonpCallback = http.jsonpCallback;
+            this.__http.cancel();
+            (<any>this).__subscribers = [];
+        }
 
-            if (isFunction(http.clearTimeout)) {
-                http.clearTimeout();
-            }
+        /**
+         * @name queuePosition
+         * @memberof plat.async.AjaxPromise
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Gets the position of the AJAX call associated with this {@link plat.async.AjaxPromise|AjaxPromise} in
+         * the {@link plat.async.HttpScheduler|HttpScheduler} queue.
+         *
+         * @returns {number} The zero-based position in the queue, or -1 if the call is not queued.
+         */
+        public queuePosition(): number {
+            return this.__http.queuePosition();
+        }
 
-            if (!isNull(xhr)) {
-                xhr.onreadystatechange = null;
-                xhr.abort();
-                http.xhr = null;
-            } else if (!isNull(jsonpCallback)) {
-                (<any>this._window)[jsonpCallback] = noop;
-            }
+        /**
+         * @name progress
+         * @memberof plat.async.AjaxPromise
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers a listener for the upload and download progress of the AJAX call associated with
+         * this {@link plat.async.AjaxPromise|AjaxPromise}. The request has usually been sent by the time
+         * the listener is registered, so use the onUploadProgress option to track upload progress.
+         *
+         * @param {(event: plat.async.IHttpProgressEvent) => void} listener The progress listener.
+         *
+         * @returns {plat.async.AjaxPromise<T>} This promise, for chaining.
+         */
+        public progress(
+            listener: (event: IHttpProgressEvent) => void
+        ): AjaxPromise<T> {
+            this.__http.onProgress(listener);
 
-            (<any>this).__subscribers = [];
+            return this;
         }
 
         /**
@@ -1605,6 +4485,23 @@ namespace plat.async {
         public catch<TResult = never>(onRejected?: ((reason: AjaxError) => TResult | PromiseLike<TResult>) | undefined | null): AjaxPromise<T | TResult> {
             return <AjaxPromise<T | TResult>>(<any>super.catch<TResult>(<any>onRejected));
         }
+
+        /**
+         * @name finally
+         * @memberof plat.async.AjaxPromise
+         * @kind function
+         * @access public
+         *
+         * @description
+         * A method called when the promise settles, whether it fulfills or rejects.
+         *
+         * @param {() => any} onFinally A method called when the promise settles.
+         *
+         * @returns {plat.async.AjaxPromise<T>} A promise that settles the same way as this promise.
+         */
+        public finally?(onFinally?: (() => any) | undefined | null): AjaxPromise<T> {
+            return <AjaxPromise<T>>super.finally(onFinally);
+        }
     }
 
     /**
@@ -1699,6 +4596,73 @@ namespace plat.async {
          * The text type ('text')
          */
         TEXT: string;
+
+        /**
+         * @name STREAM
+         * @memberof plat.async.IHttpResponseType
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {string}
+         *
+         * @description
+         * The stream type ('stream'). Only supported by the 'fetch' transport, the
+         * response will be the ReadableStream body.
+         */
+        STREAM: string;
+    }
+
+    /**
+     * @name IHttpPriority
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes an object that provides the predefined request priority levels.
+     */
+    export interface IHttpPriority {
+        /**
+         * @name LOW
+         * @memberof plat.async.IHttpPriority
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {number}
+         *
+         * @description
+         * Low priority (-10), for requests the user is not waiting on.
+         */
+        LOW: number;
+
+        /**
+         * @name NORMAL
+         * @memberof plat.async.IHttpPriority
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {number}
+         *
+         * @description
+         * The default priority (0).
+         */
+        NORMAL: number;
+
+        /**
+         * @name HIGH
+         * @memberof plat.async.IHttpPriority
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {number}
+         *
+         * @description
+         * High priority (10), for requests the user is waiting on.
+         */
+        HIGH: number;
     }
 
     /**
@@ -1821,6 +4785,11 @@ namespace plat.async {
      * AJAX requests.
      */
     export class Http {
+        protected static _inject: any = {
+            _browser: __Browser,
+            _CacheFactory: __CacheFactory,
+        };
+
         /**
          * @name config
          * @memberof plat.async.Http
@@ -1843,8 +4812,39 @@ namespace plat.async {
             timeout: null,
             jsonpIdentifier: 'callback',
             contentType: 'application/json;charset=utf-8',
+            transport: 'xhr',
         };
 
+        /**
+         * @name interceptors
+         * @memberof plat.async.Http
+         * @kind property
+         * @access public
+         * @static
+         *
+         * @type {Array<plat.async.IHttpInterceptor>}
+         *
+         * @description
+         * The registered {@link plat.async.IHttpInterceptor|interceptors}, ordered by priority. Use
+         * {@link plat.async.Http.intercept|intercept} to add interceptors.
+         */
+        public static interceptors: IHttpInterceptor[] = [];
+
+        /**
+         * @name transports
+         * @memberof plat.async.Http
+         * @kind property
+         * @access public
+         * @static
+         *
+         * @type {plat.IObject<plat.async.IHttpTransport>}
+         *
+         * @description
+         * The registered {@link plat.async.IHttpTransport|transports}, keyed by name. Use
+         * {@link plat.async.Http.registerTransport|registerTransport} to add transports.
+         */
+        public static transports: IObject<IHttpTransport> = {};
+
         /**
          * @name responseType
          * @memberof plat.async.Http
@@ -1863,6 +4863,7 @@ namespace plat.async {
             DOCUMENT: 'document',
             JSON: 'json',
             TEXT: 'text',
+            STREAM: 'stream',
         };
 
         /**
@@ -1886,6 +4887,163 @@ namespace plat.async {
             HTML: 'text/html',
         };
 
+        /**
+         * @name priority
+         * @memberof plat.async.Http
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.IHttpPriority}
+         *
+         * @description
+         * Provides the predefined request priority levels.
+         */
+        public priority: IHttpPriority = {
+            LOW: -10,
+            NORMAL: 0,
+            HIGH: 10,
+        };
+
+        /**
+         * @name _browser
+         * @memberof plat.async.Http
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.web.Browser}
+         *
+         * @description
+         * Reference to the {@link plat.web.Browser|Browser} injectable.
+         */
+        protected _browser: web.Browser;
+
+        /**
+         * @name _CacheFactory
+         * @memberof plat.async.Http
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.storage.ICacheFactory}
+         *
+         * @description
+         * Reference to the {@link plat.storage.ICacheFactory|ICacheFactory} injectable.
+         */
+        protected _CacheFactory: storage.ICacheFactory;
+
+        /**
+         * @name intercept
+         * @memberof plat.async.Http
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers an {@link plat.async.IHttpInterceptor|interceptor} that will be called for every request.
+         * Interceptors with the same priority are called in the order in which they were registered.
+         *
+         * @param {plat.async.IHttpInterceptor} interceptor The interceptor to register.
+         *
+         * @returns {plat.IRemoveListener} A method for removing the interceptor.
+         */
+        public intercept(interceptor: IHttpInterceptor): IRemoveListener {
+            if (!isObject(interceptor)) {
+                return noop;
+            }
+
+            const interceptors = Http.interceptors;
+            const priority = isNumber(interceptor.priority)
+                ? interceptor.priority
+                : 0;
+            const length = interceptors.length;
+            let index = 0;
+            let next: number;
+
+            for (; index < length; index += 1) {
+                next = interceptors[index].priority;
+
+                if (priority > (isNumber(next) ? next : 0)) {
+                    break;
+                }
+            }
+
+            interceptors.splice(index, 0, interceptor);
+
+            return (): void => {
+                const i = interceptors.indexOf(interceptor);
+                if (i === -1) {
+                    return;
+                }
+
+                interceptors.splice(i, 1);
+            };
+        }
+
+        /**
+         * @name registerTransport
+         * @memberof plat.async.Http
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers a {@link plat.async.IHttpTransport|transport} with the given name. A transport registered
+         * with the name of a built-in transport ('xhr' or 'fetch') will be used in place of the built-in one.
+         *
+         * @param {string} name The name of the transport.
+         * @param {plat.async.IHttpTransport} transport The transport to register.
+         *
+         * @returns {plat.IRemoveListener} A method for removing the transport.
+         */
+        public registerTransport(
+            name: string,
+            transport: IHttpTransport
+        ): IRemoveListener {
+            if (!isString(name) || !isObject(transport)) {
+                return noop;
+            }
+
+            const transports = Http.transports;
+
+            transports[name] = transport;
+
+            return (): void => {
+                if (transports[name] === transport) {
+                    deleteProperty(transports, name);
+                }
+            };
+        }
+
+        /**
+         * @name invalidate
+         * @memberof plat.async.Http
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Removes cached responses for urls starting with the given prefix. Relative prefixes are
+         * resolved the same way request urls are.
+         *
+         * @param {string} prefix? The url prefix. If not specified, all cached responses are removed.
+         * @param {plat.async.IHttpCacheStore} store? The store to invalidate. Defaults to the shared
+         * {@link plat.storage.Cache|Cache}.
+         *
+         * @returns {void}
+         */
+        public invalidate(prefix?: string, store?: IHttpCacheStore): void {
+            if (!isObject(store)) {
+                store = this._CacheFactory.create<IHttpCacheEntry>(__HttpCache);
+            }
+
+            const resolved =
+                isString(prefix) && !isEmpty(prefix)
+                    ? this._browser.urlUtils(prefix).toString()
+                    : '';
+
+            forEach((key: string): void => {
+                if (key.indexOf(resolved) === 0) {
+                    store.remove(key);
+                }
+            }, store.keys());
+        }
+
         /**
          * @name ajax
          * @memberof plat.async.Http
@@ -1975,4 +5133,22 @@ namespace plat.async {
     }
 
     register.injectable(__HttpConfig, IHttpConfig);
+
+    /**
+     * The Type for referencing the '_httpInterceptors' injectable as a dependency.
+     */
+    export function IHttpInterceptors(): IHttpInterceptor[] {
+        return Http.interceptors;
+    }
+
+    register.injectable(__HttpInterceptors, IHttpInterceptors);
+
+    /**
+     * The Type for referencing the '_httpTransports' injectable as a dependency.
+     */
+    export function IHttpTransports(): IObject<IHttpTransport> {
+        return Http.transports;
+    }
+
+    register.injectable(__HttpTransports, IHttpTransports);
 }
@@ -0,0 +1,215 @@
+namespace plat.async {
+    'use strict';
+
+    /**
+     * @name CancellationToken
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * A token used to cancel asynchronous work. A token can be bound to a {@link plat.async.Promise|Promise}
+     * with {@link plat.async.Promise.withToken|Promise.withToken}, after which every promise derived from it with
+     * then, catch or all is rejected with a {@link plat.async.CancellationError|CancellationError} when the token
+     * is cancelled. The same token can be shared with {@link plat.async.Http|Http} requests and
+     * {@link plat.routing.Router|Router} navigation.
+     */
+    export class CancellationToken {
+        /**
+         * @name isCancelled
+         * @memberof plat.async.CancellationToken
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the token has been cancelled.
+         */
+        public isCancelled: boolean = false;
+
+        /**
+         * @name reason
+         * @memberof plat.async.CancellationToken
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.CancellationError}
+         *
+         * @description
+         * The error promises bound to this token are rejected with once it is cancelled.
+         */
+        public reason: CancellationError = null;
+
+        /**
+         * @name __listeners
+         * @memberof plat.async.CancellationToken
+         * @kind property
+         * @access private
+         *
+         * @type {Array<(reason: plat.async.CancellationError) => void>}
+         *
+         * @description
+         * The listeners to call when the token is cancelled.
+         */
+        private __listeners: ((reason: CancellationError) => void)[] = [];
+
+        /**
+         * @name isCancellation
+         * @memberof plat.async.CancellationToken
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Determines whether or not an error is a {@link plat.async.CancellationError|CancellationError}.
+         *
+         * @param {any} error The error to check.
+         *
+         * @returns {boolean}
+         */
+        public static isCancellation(error: any): boolean {
+            return error instanceof CancellationError || (isObject(error) && error.name === 'CancellationError');
+        }
+
+        /**
+         * @name cancel
+         * @memberof plat.async.CancellationToken
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Cancels the token, calling all of its listeners. Cancelling a token more than once has no effect.
+         *
+         * @param {string} message? The message for the {@link plat.async.CancellationError|CancellationError}.
+         *
+         * @returns {void}
+         */
+        public cancel(message?: string): void {
+            if (this.isCancelled) {
+                return;
+            }
+
+            const listeners = this.__listeners;
+            const reason = (this.reason = new CancellationError(message));
+
+            this.isCancelled = true;
+            this.__listeners = [];
+
+            for (const listener of listeners) {
+                listener(reason);
+            }
+        }
+
+        /**
+         * @name onCancel
+         * @memberof plat.async.CancellationToken
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers a listener to call when the token is cancelled. If the token is already cancelled the
+         * listener is called immediately.
+         *
+         * @param {(reason: plat.async.CancellationError) => void} listener The listener.
+         *
+         * @returns {plat.IRemoveListener} A method for removing the listener.
+         */
+        public onCancel(
+            listener: (reason: CancellationError) => void
+        ): IRemoveListener {
+            if (this.isCancelled) {
+                listener(this.reason);
+
+                return noop;
+            }
+
+            this.__listeners.push(listener);
+
+            return (): void => {
+                const listeners = this.__listeners;
+                const index = listeners.indexOf(listener);
+
+                if (index > -1) {
+                    listeners.splice(index, 1);
+                }
+            };
+        }
+
+        /**
+         * @name throwIfCancelled
+         * @memberof plat.async.CancellationToken
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Throws the cancellation reason if the token has been cancelled.
+         *
+         * @returns {void}
+         */
+        public throwIfCancelled(): void {
+            if (this.isCancelled) {
+                throw this.reason;
+            }
+        }
+    }
+
+    /**
+     * @name CancellationError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * The error promises are rejected with when their {@link plat.async.CancellationToken|CancellationToken}
+     * is cancelled.
+     */
+    export class CancellationError implements Error {
+        /**
+         * @name name
+         * @memberof plat.async.CancellationError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('CancellationError')
+         */
+        public name: string = 'CancellationError';
+
+        /**
+         * @name message
+         * @memberof plat.async.CancellationError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The Error message
+         */
+        public message: string;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.CancellationError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for a {@link plat.async.CancellationError|CancellationError}.
+         *
+         * @param {string} message? The Error message.
+         *
+         * @returns {plat.async.CancellationError}
+         */
+        constructor(message?: string) {
+            Error.apply(this);
+            this.message = isString(message) ? message : 'The operation was cancelled';
+        }
+    }
+
+    // have to bypass TS flags in order to properly extend Error, the prototype is not shared with
+    // Error so that instanceof does not match other errors
+    (<any>CancellationError).prototype = Object.create(Error.prototype);
+    (<any>CancellationError).prototype.constructor = CancellationError;
+}
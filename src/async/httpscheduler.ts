@@ -0,0 +1,351 @@
+namespace plat.async {
+    'use strict';
+
+    /**
+     * @name HttpScheduler
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * Limits the number of concurrent requests made with {@link plat.async.Http|Http}, globally and per host.
+     * Requests over the limit are queued and sent in order of their priority. Requests are not queued unless
+     * a limit is {@link plat.async.HttpScheduler.config|configured}.
+     */
+    export class HttpScheduler {
+        /**
+         * @name config
+         * @memberof plat.async.HttpScheduler
+         * @kind property
+         * @access public
+         * @static
+         *
+         * @type {plat.async.IHttpSchedulerConfig}
+         *
+         * @description
+         * The concurrency limits. A limit of 0 means there is no limit.
+         */
+        public static config: IHttpSchedulerConfig = {
+            maxConcurrent: 0,
+            maxConcurrentPerHost: 0,
+        };
+
+        /**
+         * @name __queue
+         * @memberof plat.async.HttpScheduler
+         * @kind property
+         * @access private
+         *
+         * @type {Array<plat.async.IHttpSchedulerEntry>}
+         *
+         * @description
+         * The queued requests, ordered by priority.
+         */
+        private __queue: IHttpSchedulerEntry[] = [];
+
+        /**
+         * @name __active
+         * @memberof plat.async.HttpScheduler
+         * @kind property
+         * @access private
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of requests that have been sent and not yet completed.
+         */
+        private __active: number = 0;
+
+        /**
+         * @name __activeHosts
+         * @memberof plat.async.HttpScheduler
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IObject<number>}
+         *
+         * @description
+         * The number of active requests for each host.
+         */
+        private __activeHosts: IObject<number> = {};
+
+        /**
+         * @name isLimited
+         * @memberof plat.async.HttpScheduler
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether or not a concurrency limit is configured.
+         *
+         * @returns {boolean}
+         */
+        public isLimited(): boolean {
+            const config = HttpScheduler.config;
+
+            return config.maxConcurrent > 0 || config.maxConcurrentPerHost > 0;
+        }
+
+        /**
+         * @name enqueue
+         * @memberof plat.async.HttpScheduler
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Queues a request. The start function is called once the request can be sent. Requests with
+         * the same priority are started in the order in which they were queued.
+         *
+         * @param {plat.async.HttpRequest} request The request.
+         * @param {string} host The host the request is sent to.
+         * @param {number} priority The priority of the request. Higher priorities are sent first.
+         * @param {() => void} start Called when the request can be sent.
+         *
+         * @returns {plat.IRemoveListener} A method that must be called once the request is complete or cancelled.
+         * If the request is still queued it is removed from the queue.
+         */
+        public enqueue(
+            request: HttpRequest,
+            host: string,
+            priority: number,
+            start: () => void
+        ): IRemoveListener {
+            const queue = this.__queue;
+            const length = queue.length;
+            const entry: IHttpSchedulerEntry = {
+                request: request,
+                host: host,
+                priority: priority,
+                start: start,
+                state: 'queued',
+            };
+            let index = 0;
+
+            for (; index < length; index += 1) {
+                if (priority > queue[index].priority) {
+                    break;
+                }
+            }
+
+            queue.splice(index, 0, entry);
+            this._next();
+
+            return (): void => {
+                this.__release(entry);
+            };
+        }
+
+        /**
+         * @name position
+         * @memberof plat.async.HttpScheduler
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Gets the position of a request in the queue.
+         *
+         * @param {plat.async.HttpRequest} request The request.
+         *
+         * @returns {number} The zero-based position of the request in the queue, or -1 if it is not queued.
+         */
+        public position(request: HttpRequest): number {
+            const queue = this.__queue;
+            const length = queue.length;
+
+            for (let i = 0; i < length; i += 1) {
+                if (queue[i].request === request) {
+                    return i;
+                }
+            }
+
+            return -1;
+        }
+
+        /**
+         * @name _next
+         * @memberof plat.async.HttpScheduler
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Starts queued requests while the concurrency limits allow.
+         *
+         * @returns {void}
+         */
+        protected _next(): void {
+            const config = HttpScheduler.config;
+            const max = config.maxConcurrent;
+            const maxPerHost = config.maxConcurrentPerHost;
+            const queue = this.__queue;
+            const hosts = this.__activeHosts;
+            let index = 0;
+            let entry: IHttpSchedulerEntry;
+
+            while (index < queue.length && !(max > 0 && this.__active >= max)) {
+                entry = queue[index];
+
+                if (maxPerHost > 0 && hosts[entry.host] >= maxPerHost) {
+                    index += 1;
+                    continue;
+                }
+
+                queue.splice(index, 1);
+                entry.state = 'active';
+                this.__active += 1;
+                hosts[entry.host] = (isNumber(hosts[entry.host]) ? hosts[entry.host] : 0) + 1;
+                entry.start();
+            }
+        }
+
+        /**
+         * @name __release
+         * @memberof plat.async.HttpScheduler
+         * @kind function
+         * @access private
+         *
+         * @description
+         * Removes a queued request from the queue, or frees the slot of an active request and
+         * starts the next queued requests.
+         *
+         * @param {plat.async.IHttpSchedulerEntry} entry The entry for the request.
+         *
+         * @returns {void}
+         */
+        private __release(entry: IHttpSchedulerEntry): void {
+            const state = entry.state;
+
+            entry.state = 'done';
+
+            if (state === 'queued') {
+                const index = this.__queue.indexOf(entry);
+
+                if (index > -1) {
+                    this.__queue.splice(index, 1);
+                }
+            } else if (state === 'active') {
+                const hosts = this.__activeHosts;
+
+                this.__active -= 1;
+                hosts[entry.host] -= 1;
+
+                if (hosts[entry.host] <= 0) {
+                    deleteProperty(hosts, entry.host);
+                }
+
+                this._next();
+            }
+        }
+    }
+
+    register.injectable(__HttpScheduler, HttpScheduler);
+
+    /**
+     * @name IHttpSchedulerConfig
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes the concurrency limits for the {@link plat.async.HttpScheduler|HttpScheduler}.
+     */
+    export interface IHttpSchedulerConfig {
+        /**
+         * @name maxConcurrent
+         * @memberof plat.async.IHttpSchedulerConfig
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The maximum number of concurrent requests. 0 means there is no limit.
+         */
+        maxConcurrent: number;
+
+        /**
+         * @name maxConcurrentPerHost
+         * @memberof plat.async.IHttpSchedulerConfig
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The maximum number of concurrent requests to a single host. 0 means there is no limit.
+         */
+        maxConcurrentPerHost: number;
+    }
+
+    /**
+     * @name IHttpSchedulerEntry
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes a request scheduled with the {@link plat.async.HttpScheduler|HttpScheduler}.
+     */
+    export interface IHttpSchedulerEntry {
+        /**
+         * @name request
+         * @memberof plat.async.IHttpSchedulerEntry
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.HttpRequest}
+         *
+         * @description
+         * The request.
+         */
+        request: HttpRequest;
+
+        /**
+         * @name host
+         * @memberof plat.async.IHttpSchedulerEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The host the request is sent to.
+         */
+        host: string;
+
+        /**
+         * @name priority
+         * @memberof plat.async.IHttpSchedulerEntry
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The priority of the request.
+         */
+        priority: number;
+
+        /**
+         * @name state
+         * @memberof plat.async.IHttpSchedulerEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The state of the request ('queued', 'active' or 'done').
+         */
+        state: string;
+
+        /**
+         * @name start
+         * @memberof plat.async.IHttpSchedulerEntry
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends the request.
+         *
+         * @returns {void}
+         */
+        start(): void;
+    }
+}
@@ -4,6 +4,7 @@ namespace plat.async {
     declare const process: any;
 
     let __promiseQueue: any[] = [];
+    let __unhandledRejections: any[] = [];
     const browserGlobal: any = typeof window !== 'undefined' ? window : {};
 
     let BrowserMutationObserver = browserGlobal.MutationObserver;
@@ -26,6 +27,10 @@ namespace plat.async {
         scheduleFlush = useSetTimeout();
     }
 
+    // the IPromise injectable can resolve to the native Promise, which reports its unhandled
+    // rejections through the window when Promise.config.reportNativeRejections is set
+    listenForNativeRejections();
+
     /**
      * @name Promise
      * @memberof plat.async
@@ -49,14 +54,30 @@ namespace plat.async {
          * @type {any}
          *
          * @description
-         * The configuration for creating asynchronous promise flushing.
+         * The configuration for creating asynchronous promise flushing, and for reporting rejections
+         * that are not handled.
          */
         public static config: {
+            throwUnhandledRejections: boolean;
+            reportNativeRejections: boolean;
             async(
                 callback: (arg?: PromiseLike<any>) => void,
                 arg?: PromiseLike<any>
             ): void;
         } = {
+            /**
+             * Whether or not to throw unhandled rejections (asynchronously) after they are reported, so they
+             * surface as uncaught errors. Useful for development builds.
+             */
+            throwUnhandledRejections: false,
+
+            /**
+             * Whether or not to report unhandled rejections of native promises (e.g. from the IPromise injectable
+             * when it resolves to the native Promise) as well. Reported rejections are not also reported as uncaught
+             * by the browser unless throwUnhandledRejections is set.
+             */
+            reportNativeRejections: false,
+
             /**
              * Handles asynchronous flushing of callbacks. If the callback queue is of
              * length 1, then we need to schedule a flush. Afterward, any additional
@@ -186,7 +207,7 @@ namespace plat.async {
                 return Promise.all([<any>values]);
             }
 
-            return new Promise<any[]>(
+            return Promise.__inheritToken(values, new Promise<any[]>(
                 (
                     resolve: (value?: any[]) => void,
                     reject: (reason?: any) => void
@@ -226,7 +247,7 @@ namespace plat.async {
                         }
                     }
                 }
-            );
+            ));
         }
 
         /**
@@ -341,7 +362,7 @@ namespace plat.async {
                 return Promise.race([<any>values]);
             }
 
-            return new Promise<any>(
+            return Promise.__inheritToken(values, new Promise<any>(
                 (
                     resolve: (value: any) => any,
                     reject: (error: any) => any
@@ -365,7 +386,7 @@ namespace plat.async {
                         }
                     }
                 }
-            );
+            ));
         }
 
         /**
@@ -428,6 +449,280 @@ namespace plat.async {
             );
         }
 
+        /**
+         * @name allSettled
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Returns a promise that fulfills when every item in the array is settled. Casts arguments to
+         * promises if necessary. The result argument of the returned promise is an array describing the
+         * outcome of each input in-order. The returned promise never rejects.
+         *
+         * @typeparam {any} T The type of the promises.
+         *
+         * @param {Array<T>} values An array of objects, if an object is not a promise, it will be cast.
+         *
+         * @returns {plat.async.Promise<Array<plat.async.IPromiseSettledResult<T>>>} A promise that resolves after all
+         * the input promises settle.
+         */
+        public static allSettled<T>(
+            values: (T | PromiseLike<T>)[]
+        ): Promise<IPromiseSettledResult<T>[]> {
+            if (!isArray(values)) {
+                return Promise.allSettled([<any>values]);
+            }
+
+            return Promise.all<IPromiseSettledResult<T>>(
+                values.map((value: T | PromiseLike<T>): Promise<IPromiseSettledResult<T>> =>
+                    Promise.resolve<T>(value).then(
+                        (result: T): IPromiseSettledResult<T> => ({
+                            status: 'fulfilled',
+                            value: result,
+                        }),
+                        (reason: any): IPromiseSettledResult<T> => ({
+                            status: 'rejected',
+                            reason: reason,
+                        })
+                    )
+                )
+            );
+        }
+
+        /**
+         * @name any
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Returns a promise that fulfills as soon as any of the promises fulfill. If every promise
+         * rejects (or the array is empty), the returned promise rejects with an
+         * {@link plat.async.AggregateError|AggregateError} containing the rejection reasons in-order.
+         *
+         * @typeparam {any} T The type of the promises.
+         *
+         * @param {Array<T>} values An array of objects, if an object is not a promise, it will be cast.
+         *
+         * @returns {plat.async.Promise<T>} A promise that fulfills with the first fulfilled value.
+         */
+        public static any<T>(values: (T | PromiseLike<T>)[]): Promise<T> {
+            if (!isArray(values)) {
+                return Promise.any([<any>values]);
+            }
+
+            return new Promise<T>(
+                (
+                    resolve: (value?: T) => void,
+                    reject: (reason?: any) => void
+                ): void => {
+                    const errors: any[] = [];
+                    let remaining = values.length;
+
+                    if (remaining === 0) {
+                        reject(new AggregateError(errors));
+
+                        return;
+                    }
+
+                    forEach((value: T | PromiseLike<T>, index: number): void => {
+                        Promise.resolve<T>(value).then(resolve, (reason: any): void => {
+                            errors[index] = reason;
+                            remaining -= 1;
+
+                            if (remaining === 0) {
+                                reject(new AggregateError(errors));
+                            }
+                        });
+                    }, values);
+                }
+            );
+        }
+
+        /**
+         * @name timeout
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Returns a promise that settles with the input promise, or rejects with a
+         * {@link plat.async.PromiseTimeoutError|PromiseTimeoutError} if the input promise does not settle
+         * within the timeout. If the input is a {@link plat.async.Promise|Promise} subclass the returned
+         * promise is of the same type, and if it can be cancelled it is cancelled when the timeout elapses.
+         *
+         * @typeparam {any} T The type of the promise.
+         *
+         * @param {T | PromiseLike<T>} promise The promise to wait on.
+         * @param {number} timeout The number of milliseconds to wait.
+         *
+         * @returns {plat.async.Promise<T>} A promise that settles with the input promise or times out.
+         */
+        public static timeout<T>(
+            promise: T | PromiseLike<T>,
+            timeout: number
+        ): Promise<T> {
+            const Constructor: any =
+                promise instanceof Promise ? promise.constructor : Promise;
+
+            return new Constructor(
+                (
+                    resolve: (value?: T) => void,
+                    reject: (reason?: any) => void
+                ): void => {
+                    const remove = defer((): void => {
+                        reject(new PromiseTimeoutError(timeout));
+
+                        if (isObject(promise) && isFunction((<any>promise).cancel)) {
+                            (<any>promise).cancel();
+                        }
+                    }, timeout);
+
+                    Promise.resolve<T>(promise).then(
+                        (value: T): void => {
+                            remove();
+                            resolve(value);
+                        },
+                        (reason: any): void => {
+                            remove();
+                            reject(reason);
+                        }
+                    );
+                },
+                promise
+            );
+        }
+
+        /**
+         * @name withToken
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Returns a promise that settles with the input promise, and is bound to a
+         * {@link plat.async.CancellationToken|CancellationToken}. When the token is cancelled the returned promise,
+         * and every promise derived from it with then, catch or all, rejects with the token's
+         * {@link plat.async.CancellationError|CancellationError}. If the input promise can be cancelled it is
+         * cancelled as well. If the input is a {@link plat.async.Promise|Promise} subclass the returned promise
+         * is of the same type.
+         *
+         * @typeparam {any} T The type of the promise.
+         *
+         * @param {T | PromiseLike<T>} promise The promise to bind to the token.
+         * @param {plat.async.CancellationToken} token The token.
+         *
+         * @returns {plat.async.Promise<T>} A promise bound to the token.
+         */
+        public static withToken<T>(
+            promise: T | PromiseLike<T>,
+            token: CancellationToken
+        ): Promise<T> {
+            const Constructor: any =
+                promise instanceof Promise ? promise.constructor : Promise;
+            const result: Promise<T> = new Constructor(
+                (
+                    resolve: (value?: T) => void,
+                    reject: (reason?: any) => void
+                ): void => {
+                    Promise.resolve<T>(promise).then(resolve, reject);
+                },
+                promise
+            );
+
+            Promise.__bindToken(result, token, promise);
+
+            return result;
+        }
+
+        /**
+         * @name __bindToken
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access private
+         * @static
+         *
+         * @description
+         * Binds a promise to a {@link plat.async.CancellationToken|CancellationToken}, rejecting the promise
+         * when the token is cancelled. A promise that is still subscribed to its parent is not rejected
+         * directly, the rejection of its parent will propagate to it so its callbacks are called.
+         *
+         * @param {plat.async.Promise<any>} promise The promise to bind.
+         * @param {plat.async.CancellationToken} token The token.
+         * @param {any} source? A promise to cancel along with the bound promise, if it can be cancelled.
+         * @param {plat.async.Promise<any>} parent? The promise from which the bound promise was derived.
+         *
+         * @returns {void}
+         */
+        private static __bindToken(
+            promise: Promise<any>,
+            token: CancellationToken,
+            source?: any,
+            parent?: Promise<any>
+        ): void {
+            if (!isObject(token)) {
+                return;
+            }
+
+            (<any>promise).__token = token;
+            (<any>promise).__removeToken = token.onCancel(
+                (reason: CancellationError): void => {
+                    if (
+                        (<any>promise).__state !== State.PENDING ||
+                        (isObject(parent) && isArray((<any>parent).__subscribers))
+                    ) {
+                        return;
+                    }
+
+                    Promise.__reject(promise, reason);
+
+                    if (isObject(source) && isFunction(source.cancel)) {
+                        source.cancel();
+                    }
+                }
+            );
+        }
+
+        /**
+         * @name __inheritToken
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access private
+         * @static
+         *
+         * @description
+         * Binds a promise to the {@link plat.async.CancellationToken|CancellationToken} of the first input
+         * promise that has one.
+         *
+         * @typeparam {any} T The type of the promise.
+         *
+         * @param {Array<any>} values The input promises.
+         * @param {plat.async.Promise<T>} promise The promise to bind.
+         *
+         * @returns {plat.async.Promise<T>} The promise.
+         */
+        private static __inheritToken<T>(
+            values: any[],
+            promise: Promise<T>
+        ): Promise<T> {
+            some((value: any): boolean => {
+                if (!isObject(value) || !isObject(value.__token)) {
+                    return false;
+                }
+
+                Promise.__bindToken(promise, value.__token);
+
+                return true;
+            }, values);
+
+            return promise;
+        }
+
         /**
          * @name __invokeResolveFunction
          * @memberof plat.async.Promise
@@ -552,6 +847,11 @@ namespace plat.async {
             }
 
             (<any>promise).__subscribers = null;
+
+            if (isFunction((<any>promise).__removeToken)) {
+                (<any>promise).__removeToken();
+                (<any>promise).__removeToken = null;
+            }
         }
 
         /**
@@ -590,10 +890,16 @@ namespace plat.async {
          * @returns {void}
          */
         private static __publishRejection(promise: any): void {
+            const unhandled = promise.__subscribers.length === 0;
+
             Promise.__publish(
                 promise,
                 ((<any>promise).__state = State.REJECTED)
             );
+
+            if (unhandled) {
+                __unhandledRejections.push(promise);
+            }
         }
 
         /**
@@ -862,9 +1168,21 @@ namespace plat.async {
                 TResult1 | TResult2
             >>new (<any>this).constructor(noop, this);
 
+            Promise.__bindToken(thenPromise, (<any>this).__token, null, this);
+
+            if ((<any>this).__reported === true) {
+                reportRejectionHandled(this);
+            }
+
+            (<any>this).__handled = true;
+
             if (!isNull((<any>this).__state)) {
                 const callbacks = arguments;
                 Promise.config.async((): void => {
+                    if ((<any>thenPromise).__state !== State.PENDING) {
+                        return;
+                    }
+
                     Promise.__invokeCallback(
                         (<any>promise).__state,
                         thenPromise,
@@ -904,6 +1222,38 @@ namespace plat.async {
             return this.then(null, onRejected);
         }
 
+        /**
+         * @name finally
+         * @memberof plat.async.Promise
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Takes in a method that is called when the promise settles, whether it fulfills or rejects. The
+         * returned promise settles the same way as this promise, unless onFinally throws or returns a
+         * promise that rejects. The returned promise is of the same type as this promise. The method is
+         * declared optional so that native promises remain assignable to this type.
+         *
+         * @param {() => any} onFinally A method called when the promise settles.
+         *
+         * @returns {plat.async.Promise<T>} A promise that settles the same way as this promise.
+         */
+        public finally?(onFinally?: (() => any) | undefined | null): Promise<T> {
+            if (!isFunction(onFinally)) {
+                return Promise.prototype.then.call(this);
+            }
+
+            return Promise.prototype.then.call(
+                this,
+                (value: T): Promise<T> =>
+                    Promise.resolve(onFinally()).then((): T => value),
+                (reason: any): Promise<T> =>
+                    Promise.resolve(onFinally()).then((): T => {
+                        throw reason;
+                    })
+            );
+        }
+
         /**
          * @name toString
          * @memberof plat.async.Promise
@@ -920,6 +1270,153 @@ namespace plat.async {
         }
     }
 
+    /**
+     * @name AggregateError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * The error a promise returned from {@link plat.async.Promise.any|Promise.any} rejects with when
+     * every input promise rejects.
+     */
+    export class AggregateError implements Error {
+        /**
+         * @name name
+         * @memberof plat.async.AggregateError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('AggregateError')
+         */
+        public name: string = 'AggregateError';
+
+        /**
+         * @name message
+         * @memberof plat.async.AggregateError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The Error message
+         */
+        public message: string = 'All promises were rejected';
+
+        /**
+         * @name errors
+         * @memberof plat.async.AggregateError
+         * @kind property
+         * @access public
+         *
+         * @type {Array<any>}
+         *
+         * @description
+         * The rejection reasons, in the order of the input promises.
+         */
+        public errors: any[];
+
+        /**
+         * @name constructor
+         * @memberof plat.async.AggregateError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for an {@link plat.async.AggregateError|AggregateError}.
+         *
+         * @param {Array<any>} errors The rejection reasons.
+         *
+         * @returns {plat.async.AggregateError}
+         */
+        constructor(errors: any[]) {
+            Error.apply(this);
+            this.errors = errors;
+        }
+    }
+
+    // have to bypass TS flags in order to properly extend Error, the prototype is not shared with
+    // Error so that instanceof does not match other errors
+    (<any>AggregateError).prototype = Object.create(Error.prototype);
+    (<any>AggregateError).prototype.constructor = AggregateError;
+
+    /**
+     * @name PromiseTimeoutError
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * The error a promise returned from {@link plat.async.Promise.timeout|Promise.timeout} rejects with
+     * when the timeout elapses.
+     */
+    export class PromiseTimeoutError implements Error {
+        /**
+         * @name name
+         * @memberof plat.async.PromiseTimeoutError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('PromiseTimeoutError')
+         */
+        public name: string = 'PromiseTimeoutError';
+
+        /**
+         * @name message
+         * @memberof plat.async.PromiseTimeoutError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The Error message
+         */
+        public message: string;
+
+        /**
+         * @name timeout
+         * @memberof plat.async.PromiseTimeoutError
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The timeout that elapsed, in milliseconds.
+         */
+        public timeout: number;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.PromiseTimeoutError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for a {@link plat.async.PromiseTimeoutError|PromiseTimeoutError}.
+         *
+         * @param {number} timeout The timeout that elapsed, in milliseconds.
+         *
+         * @returns {plat.async.PromiseTimeoutError}
+         */
+        constructor(timeout: number) {
+            Error.apply(this);
+            this.timeout = timeout;
+            this.message = `Promise timed out in ${timeout}ms`;
+        }
+    }
+
+    // have to bypass TS flags in order to properly extend Error, the prototype is not shared with
+    // Error so that instanceof does not match other errors
+    (<any>PromiseTimeoutError).prototype = Object.create(Error.prototype);
+    (<any>PromiseTimeoutError).prototype.constructor = PromiseTimeoutError;
+
     enum State {
         PENDING = <any>void 0,
         SEALED = 0,
@@ -973,6 +1470,96 @@ namespace plat.async {
         }
 
         __promiseQueue = [];
+
+        if (__unhandledRejections.length > 0) {
+            const rejections = __unhandledRejections;
+
+            __unhandledRejections = [];
+            reportUnhandledRejections(rejections);
+        }
+    }
+
+    // reports rejections that still have no handlers once the queue has drained
+    function reportUnhandledRejections(promises: any[]): void {
+        let error: any;
+
+        for (const promise of promises) {
+            if (promise.__handled === true) {
+                continue;
+            }
+
+            error = reportRejection(promise.__detail);
+            promise.__reported = true;
+            promise.__unhandledError = error;
+
+            if (Promise.config.throwUnhandledRejections === true) {
+                postpone((): void => {
+                    throw error;
+                });
+            }
+        }
+    }
+
+    // logs an unhandled rejection, dispatching an ErrorEvent, and returns the reported error
+    function reportRejection(reason: any): any {
+        const log: debug.Log = acquire(__Log);
+        const error = isObject(reason) ? reason : new Error(`Unhandled promise rejection: ${reason}`);
+
+        log.warn(error);
+
+        return error;
+    }
+
+    // reports a handler being added to a rejection that has already been reported as unhandled
+    function reportRejectionHandled(promise: any): void {
+        const _ErrorEvent: events.IErrorEventStatic = acquire(__ErrorEventStatic);
+        const log: debug.Log = acquire(__Log);
+
+        promise.__reported = false;
+        _ErrorEvent.dispatch(__rejectionHandled, Promise, promise.__unhandledError, log.INFO);
+    }
+
+    // reports the rejections of native promises the same way as rejections of plat promises
+    function listenForNativeRejections(): void {
+        const _window: any = acquire(__Window);
+
+        if (!isObject(_window) || !isFunction(_window.addEventListener)) {
+            return;
+        }
+
+        _window.addEventListener(
+            'unhandledrejection',
+            (ev: any): void => {
+                if (Promise.config.reportNativeRejections !== true) {
+                    return;
+                }
+
+                const promise = ev.promise;
+                const error = reportRejection(ev.reason);
+
+                if (isObject(promise)) {
+                    promise.__unhandledError = error;
+                }
+
+                // the browser reports the rejection as uncaught unless the default is prevented
+                if (Promise.config.throwUnhandledRejections !== true) {
+                    ev.preventDefault();
+                }
+            },
+            false
+        );
+
+        _window.addEventListener(
+            __rejectionHandled,
+            (ev: any): void => {
+                const promise = ev.promise;
+
+                if (isObject(promise) && !isUndefined(promise.__unhandledError)) {
+                    reportRejectionHandled(promise);
+                }
+            },
+            false
+        );
     }
 
     /**
@@ -984,7 +1571,10 @@ namespace plat.async {
             isFunction(_window.Promise.all) &&
             isFunction(_window.Promise.race) &&
             isFunction(_window.Promise.resolve) &&
-            isFunction(_window.Promise.reject)
+            isFunction(_window.Promise.reject) &&
+            isFunction(_window.Promise.allSettled) &&
+            isFunction(_window.Promise.any) &&
+            isFunction(_window.Promise.prototype.finally)
         ) {
             return _window.Promise;
         }
@@ -1190,6 +1780,63 @@ namespace plat.async {
 
         reject(error?: any): Promise<never>;
         reject<T>(error?: any): Promise<T>;
+
+        allSettled<T>(
+            values: (T | PromiseLike<T>)[]
+        ): Promise<IPromiseSettledResult<T>[]>;
+
+        any<T>(values: (T | PromiseLike<T>)[]): Promise<T>;
+    }
+
+    /**
+     * @name IPromiseSettledResult
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes the outcome of a promise passed to {@link plat.async.Promise.allSettled|Promise.allSettled}.
+     *
+     * @typeparam {any} T The type of the promise.
+     */
+    export interface IPromiseSettledResult<T> {
+        /**
+         * @name status
+         * @memberof plat.async.IPromiseSettledResult
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * Whether the promise was 'fulfilled' or 'rejected'.
+         */
+        status: 'fulfilled' | 'rejected';
+
+        /**
+         * @name value
+         * @memberof plat.async.IPromiseSettledResult
+         * @kind property
+         * @access public
+         *
+         * @type {T}
+         *
+         * @description
+         * The fulfillment value, if the promise fulfilled.
+         */
+        value?: T;
+
+        /**
+         * @name reason
+         * @memberof plat.async.IPromiseSettledResult
+         * @kind property
+         * @access public
+         *
+         * @type {any}
+         *
+         * @description
+         * The rejection reason, if the promise rejected.
+         */
+        reason?: any;
     }
 }
 //tslint:enable:promise-must-complete
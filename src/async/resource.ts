@@ -0,0 +1,651 @@
+namespace plat.async {
+    'use strict';
+
+    /**
+     * @name Resource
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * Provides CRUD methods for a REST endpoint described by a url template (e.g. '/users/:id').
+     * Url parameters are interpolated into the template and any remaining parameters are sent
+     * in the query string.
+     *
+     * @typeparam {any} T The type of the entity returned from the endpoint.
+     */
+    export class Resource<T> {
+        protected static _inject: any = {
+            _http: __Http,
+            _BaseSegmentFactory: __BaseSegmentFactory,
+            _browserConfig: __BrowserConfig,
+        };
+
+        /**
+         * @name actions
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access public
+         * @static
+         *
+         * @type {plat.IObject<plat.async.IResourceAction>}
+         *
+         * @description
+         * The default actions available on every {@link plat.async.Resource|Resource}.
+         */
+        public static actions: IObject<IResourceAction> = {
+            get: { method: 'GET' },
+            query: { method: 'GET' },
+            create: { method: 'POST' },
+            update: { method: 'PUT' },
+            patch: { method: 'PATCH' },
+            remove: { method: 'DELETE' },
+        };
+
+        /**
+         * @name _http
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.Http}
+         *
+         * @description
+         * Reference to the {@link plat.async.Http|Http} injectable.
+         */
+        protected _http: Http;
+
+        /**
+         * @name _BaseSegmentFactory
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.routing.IBaseSegmentFactory}
+         *
+         * @description
+         * Reference to the {@link plat.routing.IBaseSegmentFactory|IBaseSegmentFactory} injectable, used to
+         * parse url templates.
+         */
+        protected _BaseSegmentFactory: typeof routing.BaseSegment;
+
+        /**
+         * @name _browserConfig
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.web.IBrowserConfig}
+         *
+         * @description
+         * Used to serialize query strings in the configured style.
+         */
+        protected _browserConfig: web.IBrowserConfig;
+
+        /**
+         * @name _url
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access protected
+         *
+         * @type {string}
+         *
+         * @description
+         * The url template for the resource.
+         */
+        protected _url: string;
+
+        /**
+         * @name _options
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.IResourceOptions}
+         *
+         * @description
+         * The options for the resource.
+         */
+        protected _options: IResourceOptions;
+
+        /**
+         * @name __segments
+         * @memberof plat.async.Resource
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IObject<Array<plat.routing.BaseSegment>>}
+         *
+         * @description
+         * The parsed segments for each url template, keyed by template.
+         */
+        private __segments: IObject<routing.BaseSegment[]> = {};
+
+        /**
+         * @name create
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Creates a new {@link plat.async.Resource|Resource}.
+         *
+         * @typeparam {any} T The type of the entity returned from the endpoint.
+         *
+         * @param {string} url The url template for the resource (e.g. '/users/:id').
+         * @param {plat.async.IResourceOptions} options? The options for the resource.
+         *
+         * @returns {plat.async.Resource<T>} The new resource.
+         */
+        public static create<T>(url: string, options?: IResourceOptions): Resource<T> {
+            const resource: Resource<T> = acquire(__ResourceInstance);
+
+            resource.initialize(url, options);
+
+            return resource;
+        }
+
+        /**
+         * @name initialize
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Initializes the resource with a url template and options.
+         *
+         * @param {string} url The url template for the resource (e.g. '/users/:id').
+         * @param {plat.async.IResourceOptions} options? The options for the resource.
+         *
+         * @returns {void}
+         */
+        public initialize(url: string, options?: IResourceOptions): void {
+            this._url = url;
+            this._options = isObject(options) ? options : {};
+        }
+
+        /**
+         * @name get
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a GET request for a single entity.
+         *
+         * @param {plat.IObject<any>} parameters? The url and query parameters.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<T>>} A promise that fulfills with the entity.
+         */
+        public get(
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<T>> {
+            return this.action<T>('get', parameters, undefined, options);
+        }
+
+        /**
+         * @name query
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a GET request for a list of entities.
+         *
+         * @param {plat.IObject<any>} parameters? The url and query parameters.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<Array<T>>>} A promise that fulfills with
+         * the entities.
+         */
+        public query(
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<T[]>> {
+            return this.action<T[]>('query', parameters, undefined, options);
+        }
+
+        /**
+         * @name create
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a POST request to create an entity.
+         *
+         * @param {T} data The entity to create.
+         * @param {plat.IObject<any>} parameters? The url and query parameters. Url parameters not
+         * specified are read from the entity.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<T>>} A promise that fulfills with the
+         * created entity.
+         */
+        public create(
+            data: T,
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<T>> {
+            return this.action<T>('create', parameters, data, options);
+        }
+
+        /**
+         * @name update
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a PUT request to replace an entity.
+         *
+         * @param {T} data The entity.
+         * @param {plat.IObject<any>} parameters? The url and query parameters. Url parameters not
+         * specified are read from the entity.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<T>>} A promise that fulfills with the
+         * updated entity.
+         */
+        public update(
+            data: T,
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<T>> {
+            return this.action<T>('update', parameters, data, options);
+        }
+
+        /**
+         * @name patch
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a PATCH request to partially update an entity.
+         *
+         * @param {Partial<T>} data The properties to update.
+         * @param {plat.IObject<any>} parameters? The url and query parameters. Url parameters not
+         * specified are read from the data.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<T>>} A promise that fulfills with the
+         * updated entity.
+         */
+        public patch(
+            data: Partial<T>,
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<T>> {
+            return this.action<T>('patch', parameters, data, options);
+        }
+
+        /**
+         * @name remove
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Sends a DELETE request to remove an entity.
+         *
+         * @param {plat.IObject<any>} parameters? The url and query parameters.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<any>>} A promise that fulfills when the
+         * entity is removed.
+         */
+        public remove(
+            parameters?: IObject<any>,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<any>> {
+            return this.action<any>('remove', parameters, undefined, options);
+        }
+
+        /**
+         * @name action
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Performs an action on the resource. Actions defined in the {@link plat.async.IResourceOptions|options}
+         * take precedence over the default actions.
+         *
+         * @typeparam {any} R The response type for the action.
+         *
+         * @param {string} name The name of the action.
+         * @param {plat.IObject<any>} parameters? The url and query parameters.
+         * @param {any} data? The request payload.
+         * @param {plat.async.IHttpConfig} options? Options for the request.
+         *
+         * @returns {plat.async.AjaxPromise<plat.async.IAjaxResponse<R>>} A promise that fulfills with the
+         * transformed response.
+         */
+        public action<R>(
+            name: string,
+            parameters?: IObject<any>,
+            data?: any,
+            options?: IHttpConfig
+        ): AjaxPromise<IAjaxResponse<R>> {
+            const resourceOptions = this._options;
+            const actions = resourceOptions.actions;
+            let action: IResourceAction;
+
+            if (isObject(actions) && isObject(actions[name])) {
+                action = actions[name];
+            } else {
+                action = Resource.actions[name];
+            }
+
+            if (!isObject(action)) {
+                return new AjaxPromise<IAjaxResponse<R>>((resolve, reject): void => {
+                    reject(new Error(`Resource action "${name}" is not defined.`));
+                });
+            }
+
+            const method = isString(action.method) ? action.method.toUpperCase() : 'GET';
+            const template = isString(action.url) ? action.url : this._url;
+
+            const config: IHttpConfig = _extend(false, false, {}, options, {
+                url: this._generateUrl(
+                    template,
+                    isObject(parameters) ? parameters : {},
+                    isObject(data) ? data : {}
+                ),
+                method: method,
+                headers: _extend(
+                    false,
+                    false,
+                    {},
+                    resourceOptions.headers,
+                    action.headers,
+                    isObject(options) ? options.headers : undefined
+                ),
+            });
+
+            if (!isUndefined(data)) {
+                config.data = data;
+            }
+
+            const transforms: IResourceTransformFunction[] = [];
+
+            if (isArray(resourceOptions.transforms)) {
+                transforms.push(...resourceOptions.transforms);
+            }
+
+            if (isArray(action.transforms)) {
+                transforms.push(...action.transforms);
+            }
+
+            return this._http.json<R>(config).then((response): IAjaxResponse<R> => {
+                forEach((transform: IResourceTransformFunction): void => {
+                    response.response = transform(response.response, response);
+                }, transforms);
+
+                return response;
+            });
+        }
+
+        /**
+         * @name _generateUrl
+         * @memberof plat.async.Resource
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Interpolates parameters into a url template. Url parameters without a value are omitted, and
+         * parameters that are not in the template are added to the query string in the
+         * {@link plat.web.IBrowserConfig|configured} query style.
+         *
+         * @param {string} template The url template.
+         * @param {plat.IObject<any>} parameters The parameters.
+         * @param {plat.IObject<any>} data The request payload, used for url parameters that are not
+         * specified in the parameters.
+         *
+         * @returns {string} The generated url.
+         */
+        protected _generateUrl(
+            template: string,
+            parameters: IObject<any>,
+            data: IObject<any>
+        ): string {
+            let segments = this.__segments[template];
+
+            if (!isArray(segments)) {
+                segments = this.__segments[template] = this._BaseSegmentFactory.parse(
+                    template,
+                    [],
+                    { statics: 0, dynamics: 0, splats: 0, constraints: 0 }
+                );
+            }
+
+            const path: string[] = [];
+            const query: IObject<any> = {};
+            const used: IObject<boolean> = {};
+
+            forEach((segment: routing.BaseSegment): void => {
+                const type = segment.type;
+
+                if (type === __BASE_SEGMENT_TYPE) {
+                    path.push('');
+
+                    return;
+                } else if (type === __STATIC_SEGMENT_TYPE) {
+                    path.push(segment.name);
+
+                    return;
+                }
+
+                const name = segment.name;
+                const value = parameters.hasOwnProperty(name) ? parameters[name] : data[name];
+
+                used[name] = true;
+
+                if (isNull(value) || value === '') {
+                    return;
+                }
+
+                path.push(
+                    type === __SPLAT_SEGMENT_TYPE
+                        ? encodeURI(String(value))
+                        : encodeURIComponent(String(value))
+                );
+            }, segments);
+
+            forEach((value: any, key: string): void => {
+                if (used[key] === true || isNull(value) || isFunction(value)) {
+                    return;
+                }
+
+                query[key] = value;
+            }, parameters);
+
+            let url = path.join('/');
+
+            if (template[0] === '/') {
+                url = `/${url}`;
+            }
+
+            return url + serializeQuery(query, this._browserConfig.queryStyle);
+        }
+    }
+
+    register.injectable(__ResourceInstance, Resource, null, __INSTANCE);
+
+    /**
+     * The Type for referencing the '_ResourceFactory' injectable as a dependency.
+     */
+    export function IResourceFactory(): IResourceFactory {
+        return Resource;
+    }
+
+    register.injectable(__ResourceFactory, IResourceFactory, null, __FACTORY);
+
+    /**
+     * @name IResourceFactory
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Creates {@link plat.async.Resource|Resources}. Can be used to register a resource as an injectable.
+     *
+     * @example
+     * plat.register.injectable('usersResource', (ResourceFactory: plat.async.IResourceFactory) => {
+     *     return ResourceFactory.create<IUser>('/users/:id');
+     * }, [plat.async.IResourceFactory]);
+     */
+    export interface IResourceFactory {
+        /**
+         * @name create
+         * @memberof plat.async.IResourceFactory
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Creates a new {@link plat.async.Resource|Resource}.
+         *
+         * @typeparam {any} T The type of the entity returned from the endpoint.
+         *
+         * @param {string} url The url template for the resource (e.g. '/users/:id').
+         * @param {plat.async.IResourceOptions} options? The options for the resource.
+         *
+         * @returns {plat.async.Resource<T>} The new resource.
+         */
+        create<T>(url: string, options?: IResourceOptions): Resource<T>;
+    }
+
+    /**
+     * @name IResourceTransformFunction
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * A function that is used to transform the response data of a {@link plat.async.Resource|Resource}.
+     */
+    export type IResourceTransformFunction = (
+        data: any,
+        response: IAjaxResponse<any>
+    ) => any;
+
+    /**
+     * @name IResourceOptions
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * The options for a {@link plat.async.Resource|Resource}.
+     */
+    export interface IResourceOptions {
+        /**
+         * @name headers
+         * @memberof plat.async.IResourceOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.IObject<string>}
+         *
+         * @description
+         * Headers sent with every request for the resource.
+         */
+        headers?: IObject<string>;
+
+        /**
+         * @name transforms
+         * @memberof plat.async.IResourceOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {Array<plat.async.IResourceTransformFunction>}
+         *
+         * @description
+         * Functions that fire in order to transform the response data of every action.
+         */
+        transforms?: IResourceTransformFunction[];
+
+        /**
+         * @name actions
+         * @memberof plat.async.IResourceOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.IObject<plat.async.IResourceAction>}
+         *
+         * @description
+         * Custom actions, invoked with {@link plat.async.Resource.action|action}. Actions with the name of
+         * a default action (e.g. 'get') replace the default action.
+         */
+        actions?: IObject<IResourceAction>;
+    }
+
+    /**
+     * @name IResourceAction
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes an action on a {@link plat.async.Resource|Resource}.
+     */
+    export interface IResourceAction {
+        /**
+         * @name method
+         * @memberof plat.async.IResourceAction
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The request method.
+         */
+        method: string;
+
+        /**
+         * @name url
+         * @memberof plat.async.IResourceAction
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * A url template used instead of the resource's url template.
+         */
+        url?: string;
+
+        /**
+         * @name headers
+         * @memberof plat.async.IResourceAction
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.IObject<string>}
+         *
+         * @description
+         * Headers sent with the action, in addition to the resource headers.
+         */
+        headers?: IObject<string>;
+
+        /**
+         * @name transforms
+         * @memberof plat.async.IResourceAction
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {Array<plat.async.IResourceTransformFunction>}
+         *
+         * @description
+         * Functions that fire in order to transform the response data, after the resource transforms.
+         */
+        transforms?: IResourceTransformFunction[];
+    }
+}
@@ -110,6 +110,19 @@ namespace plat {
          */
         public fileSupported: boolean;
 
+        /**
+         * @name fetchSupported
+         * @memberof plat.Compat
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Signifies whether the Fetch API is supported.
+         */
+        public fetchSupported: boolean;
+
         /**
          * @name amd
          * @memberof plat.Compat
@@ -480,6 +493,7 @@ namespace plat {
                 isUndefined((<any>_window).File) ||
                 isUndefined((<any>_window).FormData)
             );
+            this.fetchSupported = isFunction((<any>_window).fetch);
             this.amd = isFunction(def) && !isNull(def.amd);
             this.msApp =
                 isObject(msA) && isFunction(msA.execUnsafeLocalFunction);
@@ -60,6 +60,24 @@ namespace plat.expressions {
          */
         public initialUrlRegex: RegExp = /\/[^\/]*\.(?:html|htm)/;
 
+        /**
+         * @name initialPathRegex
+         * @memberof plat.expressions.Regex
+         * @kind property
+         * @access public
+         *
+         * @type {RegExp}
+         *
+         * @description
+         * Finds '/*.html' or '/*.htm' at the start of a path. Useful for removing
+         * the html file out of a path without affecting routes that end in '.html'.
+         *
+         * @example
+         * // outputs ['/index.html']
+         * exec('/index.html#!/posts');
+         */
+        public initialPathRegex: RegExp = /^\/[^\/]*\.(?:html|htm)/;
+
         /**
          * @name protocolRegex
          * @memberof plat.expressions.Regex
@@ -164,9 +182,11 @@ namespace plat.expressions {
          * @type {RegExp}
          *
          * @description
-         * A regular expression for matching dynamic segments in a route.
+         * A regular expression for matching dynamic segments in a route. A dynamic segment can
+         * define a constraint (e.g. `:id(\d+)`), be optional (e.g. `:page?`) and have a default
+         * value when it is optional (e.g. `:page?=1`).
          */
-        public dynamicSegmentsRegex: RegExp = /^:([^\/]+)$/;
+        public dynamicSegmentsRegex: RegExp = /^:([^\/\(\?=]+)(?:\((.+)\))?(\?(?:=(.*))?)?$/;
 
         /**
          * @name splatSegmentRegex
@@ -12,10 +12,14 @@
 /// <reference path="document/document.ts" />
 /// <reference path="expressions/regex/regex.ts" />
 /// <reference path="web/location/location.ts" />
+/// <reference path="web/memoryhistory/memoryhistory.ts" />
 /// <reference path="web/browser/browser.ts" />
 /// <reference path="web/urlutils/urlutils.ts" />
 /// <reference path="async/promise.ts" />
+/// <reference path="async/cancellationtoken.ts" />
 /// <reference path="async/ajax.ts" />
+/// <reference path="async/httpscheduler.ts" />
+/// <reference path="async/resource.ts" />
 /// <reference path="storage/cache/cache.ts" />
 /// <reference path="storage/cache/templatecache.ts" />
 /// <reference path="storage/basestorage.ts" />
@@ -8,6 +8,11 @@ const __App = `${__prefix}App`;
 const __Http = `${__prefix}Http`;
 const __HttpRequestInstance = `${__prefix}HttpRequestInstance`;
 const __HttpConfig = `${__prefix}HttpConfig`;
+const __HttpInterceptors = `${__prefix}HttpInterceptors`;
+const __HttpTransports = `${__prefix}HttpTransports`;
+const __HttpScheduler = `${__prefix}HttpScheduler`;
+const __ResourceFactory = `${__prefix}ResourceFactory`;
+const __ResourceInstance = `${__prefix}ResourceInstance`;
 const __Promise = `${__prefix}Promise`;
 const __Compat = `${__prefix}Compat`;
 const __ControlFactory = `${__prefix}ControlFactory`;
@@ -69,6 +74,7 @@ const __StateInstance = `${__prefix}StateInstance`;
 const __RouteRecognizerInstance = `${__prefix}RouteRecognizerInstance`;
 const __InjectorStatic = `${__prefix}InjectorStatic`;
 const __History = `${__prefix}History`;
+const __MemoryHistory = `${__prefix}MemoryHistory`;
 const __Location = `${__prefix}Location`;
 
 /**
@@ -138,6 +144,7 @@ const __AttributePrefix = 'data-';
  * Control Properties
  */
 const __TemplateControlCache = '__templateControlCache';
+const __HttpCache = '__httpCache';
 const __Head = 'head';
 const __Meta = 'meta';
 const __Title = 'title';
@@ -167,6 +174,7 @@ const __resume = 'resume';
 const __online = 'online';
 const __offline = 'offline';
 const __error = 'error';
+const __rejectionHandled = 'rejectionhandled';
 const __shutdown = 'shutdown';
 const __exiting = 'exiting';
 const __beforeLoad = 'beforeLoad';
@@ -180,6 +188,13 @@ const __navigating = 'navigating';
 const __beforeRouteChange = 'beforeRouteChange';
 const __routeChanged = 'routeChanged';
 const __urlChanged = 'urlChanged';
+const __navigationStarted = 'navigationStarted';
+const __navigationGuardsChecked = 'navigationGuardsChecked';
+const __navigationResolved = 'navigationResolved';
+const __navigationViewsActivated = 'navigationViewsActivated';
+const __navigationCompleted = 'navigationCompleted';
+const __navigationCancelled = 'navigationCancelled';
+const __navigationErrored = 'navigationErrored';
 
 /**
  * Device events
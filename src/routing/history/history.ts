@@ -40,6 +40,56 @@ namespace plat.routing {
          * The location that existed before navigating to this page
          */
         previousLocation: string;
+
+        /**
+         * @name key
+         * @memberof plat.routing.IHistoryState
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * A key that uniquely identifies the history entry, used to restore scroll positions.
+         */
+        key?: string;
+    }
+
+    /**
+     * @name IScrollPosition
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes a saved scroll position.
+     */
+    export interface IScrollPosition {
+        /**
+         * @name x
+         * @memberof plat.routing.IScrollPosition
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The horizontal scroll offset.
+         */
+        x: number;
+
+        /**
+         * @name y
+         * @memberof plat.routing.IScrollPosition
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The vertical scroll offset.
+         */
+        y: number;
     }
 
     register.injectable(__History, History, [__Window]);
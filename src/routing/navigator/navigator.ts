@@ -21,6 +21,7 @@ namespace plat.routing {
             _window: __Window,
             _log: __Log,
             _history: __History,
+            _document: __Document,
         };
 
         /**
@@ -37,6 +38,20 @@ namespace plat.routing {
          */
         protected static _root: Navigator;
 
+        /**
+         * @name maxRedirects
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access public
+         * @static
+         *
+         * @type {number}
+         *
+         * @description
+         * The maximum number of redirects to follow for a single navigation before it is rejected.
+         */
+        public static maxRedirects: number = 10;
+
         /**
          * @name uid
          * @memberof plat.routing.Navigator
@@ -155,6 +170,19 @@ namespace plat.routing {
          */
         protected _history: History;
 
+        /**
+         * @name _document
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {Document}
+         *
+         * @description
+         * The document injectable instance
+         */
+        protected _document: Document;
+
         /**
          * @name router
          * @memberof plat.routing.Navigator
@@ -246,6 +274,71 @@ namespace plat.routing {
          */
         protected _rejectNavigate: (err: any) => void;
 
+        /**
+         * @name _scrollPositions
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IObject<plat.routing.IScrollPosition>}
+         *
+         * @description
+         * The saved scroll positions, keyed by history entry and view type. Only used on the root navigator.
+         */
+        protected _scrollPositions: IObject<IScrollPosition> = {};
+
+        /**
+         * @name _historyKey
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {string}
+         *
+         * @description
+         * The key stored in the state of the current history entry.
+         */
+        protected _historyKey: string;
+
+        /**
+         * @name _previousHistoryKey
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {string}
+         *
+         * @description
+         * The key of the history entry that is being navigated away from.
+         */
+        protected _previousHistoryKey: string;
+
+        /**
+         * @name _scrollRestored
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not a scroll position was restored during the current navigation.
+         */
+        protected _scrollRestored: boolean = false;
+
+        /**
+         * @name _redirects
+         * @memberof plat.routing.Navigator
+         * @kind property
+         * @access protected
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of redirects followed during the current navigation.
+         */
+        protected _redirects: number = 0;
+
         /**
          * @name initialize
          * @memberof plat.routing.Navigator
@@ -280,7 +373,8 @@ namespace plat.routing {
          * @access public
          *
          * @description
-         * Tells the navigator to navigate to the url registered for a particular view.
+         * Tells the navigator to navigate to the url registered for a particular view. If an outlet is
+         * specified, only that outlet is navigated and the primary route and other outlets are kept.
          *
          * @param {any} view The view to which the Navigator should navigate.
          * @param {plat.routing.INavigateOptions} options used to generate the url and perform navigation.
@@ -297,6 +391,13 @@ namespace plat.routing {
             return this.finishNavigating().then((): async.Promise<void> => {
                 if (options.isUrl) {
                     url = view;
+                } else if (isString(options.outlet)) {
+                    url = this._router.generateOutlet(
+                        options.outlet,
+                        view,
+                        options.parameters,
+                        options.query
+                    );
                 } else {
                     url = this._generate(
                         view,
@@ -386,6 +487,93 @@ namespace plat.routing {
             return this._backNavigate;
         }
 
+        /**
+         * @name saveScrollPosition
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Saves the scroll position of a view for the history entry that is being navigated away from.
+         *
+         * @param {plat.ui.ViewControl} view The view that is being navigated away from.
+         *
+         * @returns {void}
+         */
+        public saveScrollPosition(view: ui.ViewControl): void {
+            const root = Navigator._root;
+
+            if (!isObject(root)) {
+                return;
+            } else if (root !== this) {
+                root.saveScrollPosition(view);
+
+                return;
+            }
+
+            const target = this._getScrollTarget(view);
+            const key = this._previousHistoryKey;
+
+            if (isNull(target) || !isString(key)) {
+                return;
+            }
+
+            const _window: any = this._window;
+
+            this._scrollPositions[`${key}|${view.type}`] =
+                target === _window
+                    ? { x: _window.pageXOffset, y: _window.pageYOffset }
+                    : { x: target.scrollLeft, y: target.scrollTop };
+        }
+
+        /**
+         * @name restoreScrollPosition
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Restores the scroll position saved for a view in the current history entry.
+         *
+         * @param {plat.ui.ViewControl} view The view that was navigated to.
+         *
+         * @returns {void}
+         */
+        public restoreScrollPosition(view: ui.ViewControl): void {
+            const root = Navigator._root;
+
+            if (!isObject(root)) {
+                return;
+            } else if (root !== this) {
+                root.restoreScrollPosition(view);
+
+                return;
+            }
+
+            const target = this._getScrollTarget(view);
+
+            if (isNull(target)) {
+                return;
+            }
+
+            const position = this._scrollPositions[
+                `${this._historyKey}|${view.type}`
+            ];
+
+            if (!isObject(position)) {
+                return;
+            }
+
+            if (target === this._window) {
+                this._window.scrollTo(position.x, position.y);
+            } else {
+                target.scrollLeft = position.x;
+                target.scrollTop = position.y;
+            }
+
+            this._scrollRestored = true;
+        }
+
         /**
          * @name dispose
          * @memberof plat.routing.Navigator
@@ -461,7 +649,8 @@ namespace plat.routing {
          *
          * @description
          * The root navigator will always observe for url changes and handle them accordingly. This means instructing the
-         * router to navigate, and determining what to do in the event that navigation is prevented.
+         * router to navigate, and determining what to do in the event that navigation is prevented. When the router has
+         * navigated, a 'routeChanged' DIRECT event is dispatched with the {@link plat.web.UrlUtils|UrlUtils} for the url.
          *
          * @returns {void}
          */
@@ -476,9 +665,24 @@ namespace plat.routing {
             const headExists =
                 isObject(headControl) && isFunction(headControl.navigated);
             const onFailedNavigation: (e: any) => void = (e: any): void => {
+                if (RedirectError.isRedirect(e)) {
+                    if (this._redirects < Navigator.maxRedirects) {
+                        this._redirect(e);
+
+                        return;
+                    }
+
+                    e = new Error(
+                        `Exceeded ${Navigator.maxRedirects} redirects while navigating to ${e.url}.`
+                    );
+                }
+
+                this._redirects = 0;
                 this._previousUrl = previousUrl;
+                this._historyKey = this._previousHistoryKey;
+                this._scrollRestored = false;
 
-                const _history = this._history;
+                const _history = this._browser.history();
                 const state: IHistoryState = _history.state;
 
                 this._ignoreOnce = true;
@@ -503,6 +707,7 @@ namespace plat.routing {
             };
 
             this._previousUrl = this._browser.url();
+            this._updateHistoryKey();
 
             // Protect against accidentally calling this method twice.
             EventManager.dispose(this.uid);
@@ -553,6 +758,8 @@ namespace plat.routing {
                         return;
                     }
 
+                    this._updateHistoryKey();
+
                     this.finishNavigating()
                         .then((): async.Promise<void> => {
                             EventManager.dispatch(
@@ -568,7 +775,9 @@ namespace plat.routing {
                             );
                         })
                         .then((): void => {
+                            this._redirects = 0;
                             this._previousUrl = utils.pathname;
+                            this._scrollToHash(utils.hash);
 
                             if (isFunction(this._resolveNavigate)) {
                                 this._backNavigate = false;
@@ -579,6 +788,13 @@ namespace plat.routing {
                                 headControl.navigated(utils.href);
                             }
 
+                            EventManager.dispatch(
+                                __routeChanged,
+                                this,
+                                EventManager.DIRECT,
+                                [utils]
+                            );
+
                             EventManager.dispatch(
                                 __navigated,
                                 this,
@@ -590,6 +806,142 @@ namespace plat.routing {
             );
         }
 
+        /**
+         * @name _updateHistoryKey
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Reads the key for the current history entry from the history state, storing a new key
+         * in the state if the entry does not have one yet.
+         *
+         * @returns {void}
+         */
+        protected _updateHistoryKey(): void {
+            const _history = this._browser.history();
+            let state: IHistoryState = _history.state;
+
+            this._previousHistoryKey = this._historyKey;
+
+            if (isObject(state) && isString(state.key)) {
+                this._historyKey = state.key;
+
+                return;
+            }
+
+            const key = (this._historyKey = uniqueId(__History));
+
+            if (!isFunction(_history.replaceState)) {
+                return;
+            }
+
+            state = _extend(false, false, {}, state, { key: key });
+            _history.replaceState(state, '');
+        }
+
+        /**
+         * @name _getScrollTarget
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the scroll target for a view. Views can opt out of scroll restoration or provide their
+         * own scroll target by implementing getScrollTarget.
+         *
+         * @param {plat.ui.ViewControl} view The view.
+         *
+         * @returns {any} The element or window to scroll, or null if the view opted out.
+         */
+        protected _getScrollTarget(view: ui.ViewControl): any {
+            if (!isObject(view)) {
+                return null;
+            }
+
+            const target = isFunction(view.getScrollTarget)
+                ? view.getScrollTarget()
+                : undefined;
+
+            if (target === false) {
+                return null;
+            } else if (isObject(target)) {
+                return target;
+            }
+
+            return this._window;
+        }
+
+        /**
+         * @name _scrollToHash
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Scrolls the element referenced by a hash fragment into view, unless a scroll position was
+         * restored during the navigation.
+         *
+         * @param {string} hash The hash fragment of the url.
+         *
+         * @returns {void}
+         */
+        protected _scrollToHash(hash: string): void {
+            const restored = this._scrollRestored;
+
+            this._scrollRestored = false;
+
+            if (restored || isEmpty(hash)) {
+                return;
+            }
+
+            const element = this._document.getElementById(hash);
+
+            if (isObject(element) && isFunction(element.scrollIntoView)) {
+                element.scrollIntoView();
+            }
+        }
+
+        /**
+         * @name _redirect
+         * @memberof plat.routing.Navigator
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Follows a redirected navigation. The pending navigation resolves/rejects based on the
+         * success of the redirect. Navigations that redirect more than {@link plat.routing.Navigator.maxRedirects|maxRedirects}
+         * times are rejected.
+         *
+         * @param {plat.routing.RedirectError} redirect The redirect to follow.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the redirect is complete.
+         */
+        protected _redirect(redirect: RedirectError): async.Promise<void> {
+            const resolve = this._resolveNavigate;
+            const reject = this._rejectNavigate;
+
+            this._backNavigate = false;
+            this._redirects += 1;
+
+            return this._navigate(
+                redirect.url +
+                    serializeQuery(redirect.query, this._browserConfig.queryStyle),
+                redirect.replace
+            ).then(
+                (): void => {
+                    if (isFunction(resolve)) {
+                        resolve();
+                    }
+                },
+                (e: any): void => {
+                    if (isFunction(reject)) {
+                        reject(e);
+                    }
+                }
+            );
+        }
+
         /**
          * @name _generate
          * @memberof plat.routing.Navigator
@@ -681,6 +1033,21 @@ namespace plat.routing {
          * Whether or not this url should replace the current url in the browser history.
          */
         replace?: boolean;
+
+        /**
+         * @name outlet
+         * @memberof plat.routing.INavigateOptions
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The named outlet to navigate. The view is generated with the routes of the outlet, and an empty
+         * view clears the outlet. Ignored if isUrl is true.
+         */
+        outlet?: string;
     }
 
     /**
@@ -16,6 +16,19 @@ namespace plat.routing {
      * or redirect.
      * This is done asynchronously, giving the application the ability to make web service calls
      * to determining
+     *
+     * Every navigation that changes the route of a router goes through a lifecycle, dispatched as DIRECT events
+     * through the {@link plat.events.EventManager|EventManager} with the router as the sender and an
+     * {@link plat.routing.INavigationInfo|INavigationInfo} as the argument. In order, the events are
+     * 'navigationStarted', 'navigationGuardsChecked', 'navigationResolved' and 'navigationViewsActivated', followed
+     * by 'navigationCompleted' if the navigation succeeds, 'navigationCancelled' if it is rejected, cancelled or
+     * redirected, or 'navigationErrored' if it fails. The guards and resolved events are only dispatched when the
+     * route has registered ports and is polled.
+     *
+     * Routes and ports can target a named outlet. Each outlet is navigated by its own router, so it has its own
+     * current route and canNavigateFrom checks, and its state lives in the url next to the primary route
+     * (i.e. '/inbox(panel:details/42)'). Outlets are matched by the router that receives the full url, so they
+     * are declared on the root router.
      */
     export class Router {
         protected static _inject: any = {
@@ -24,6 +37,7 @@ namespace plat.routing {
             _EventManager: __EventManagerStatic,
             _browser: __Browser,
             _browserConfig: __BrowserConfig,
+            _dom: __Dom,
             _recognizer: __RouteRecognizerInstance,
             _childRecognizer: __RouteRecognizerInstance,
         };
@@ -147,6 +161,19 @@ namespace plat.routing {
          */
         protected _nextRouteInfo: IRouteInfo;
 
+        /**
+         * @name _navigation
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.routing.INavigationInfo}
+         *
+         * @description
+         * The information for the current (or last) navigation, dispatched with the navigation lifecycle events.
+         */
+        protected _navigation: INavigationInfo;
+
         /**
          * @name previousUrl
          * @memberof plat.routing.Router
@@ -279,6 +306,19 @@ namespace plat.routing {
          */
         protected _unknownHandler: (info: IUnknownRouteInfo) => any;
 
+        /**
+         * @name _loaders
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IObject<plat.routing.IViewLoader>}
+         *
+         * @description
+         * The loaders for lazy-loaded views that have not been loaded yet, keyed by route alias.
+         */
+        protected _loaders: IObject<IViewLoader> = {};
+
         /**
          * @name _ports
          * @memberof plat.routing.Router
@@ -292,6 +332,32 @@ namespace plat.routing {
          */
         protected _ports: ISupportRouteNavigation[] = [];
 
+        /**
+         * @name _outlets
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IObject<plat.routing.Router>}
+         *
+         * @description
+         * The routers for the named outlets of this router, keyed by outlet name.
+         */
+        protected _outlets: IObject<Router> = {};
+
+        /**
+         * @name _outlet
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the outlet this router navigates, if it is the router for a named outlet.
+         */
+        protected _outlet: string;
+
         /**
          * @name _Promise
          * @memberof plat.routing.Router
@@ -331,6 +397,58 @@ namespace plat.routing {
          */
         protected _browser: web.Browser;
 
+        /**
+         * @name _browserConfig
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.web.IBrowserConfig}
+         *
+         * @description
+         * Used to serialize query strings in the configured style.
+         */
+        protected _browserConfig: web.IBrowserConfig;
+
+        /**
+         * @name _EventManager
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.events.IEventManagerStatic}
+         *
+         * @description
+         * Used to dispatch the navigation lifecycle events.
+         */
+        protected _EventManager: events.IEventManagerStatic;
+
+        /**
+         * @name _dom
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.ui.Dom}
+         *
+         * @description
+         * Reference to the {@link plat.ui.Dom|Dom} injectable.
+         */
+        protected _dom: ui.Dom;
+
+        /**
+         * @name _templateUrls
+         * @memberof plat.routing.Router
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IObject<string>}
+         *
+         * @description
+         * The templateUrls of the views that have been prefetched, keyed by view name.
+         */
+        protected _templateUrls: IObject<string> = {};
+
         /**
          * @name _resolve
          * @memberof plat.routing.Router
@@ -481,7 +599,8 @@ namespace plat.routing {
          *
          * @description
          * Registers a {@link plat.ui.controls.Viewport|Viewport} (or similar object) with the
-         * router, and triggers a navigation if possible.
+         * router, and triggers a navigation if possible. Ports that declare an outlet are registered
+         * with the router for that outlet.
          *
          * @param {plat.routing.ISupportRouteNavigation} port An object that supports all the navigation events.
          *
@@ -495,6 +614,10 @@ namespace plat.routing {
                 return this._resolve();
             }
 
+            if (this._isForeignOutlet(port.outlet)) {
+                return this._getOutlet(port.outlet).register(port);
+            }
+
             ports.push(port);
 
             if (!isObject(this.currentRouteInfo)) {
@@ -546,6 +669,12 @@ namespace plat.routing {
          * @returns {void}
          */
         public unregister(port: ISupportRouteNavigation): void {
+            if (!isNull(port) && this._isForeignOutlet(port.outlet)) {
+                this._getOutlet(port.outlet).unregister(port);
+
+                return;
+            }
+
             const ports = this._ports;
             const index = ports.indexOf(port);
 
@@ -658,7 +787,8 @@ namespace plat.routing {
          * Then, all the queryParam handlers registered for the particular view and query parameter "start" will be called. The call to the handler
          * is blocking, so the handler can return a promise while it processes the parameter. All the handlers for a parameter will be called in the
          * order in which they were registered, with the catch-all (i.e. '*') handlers being called first. Query param handlers are called prior to
-         * calling the "canNavigateTo" pipeline.
+         * calling the "canNavigateTo" pipeline. The values are coerced by the
+         * {@link plat.routing.IRouteMapping.querySchema|querySchema} of the route before the handlers are called.
          *
          * @param {(value: any, query: any) => any} handler A method that will manipulate the registered parameter.
          * @param {string} parameter The parameter that the registered handler will modify.
@@ -667,7 +797,7 @@ namespace plat.routing {
          * @returns {plat.routing.Router} The router, for method chaining.
          */
         public queryParam(
-            handler: (value: string, query: any) => any,
+            handler: (value: any, query: any) => any,
             parameter: string,
             view?: string | (new (...args: any[]) => any)
         ): Router {
@@ -733,10 +863,16 @@ namespace plat.routing {
          * @description
          * Tells the router to match a new route. The router will attempt to find the route and if it succeeds it will
          * attempt to navigate to it. If it fails, it will return a {@link plat.async.IPromise|Promise} that rejects.
+         * Named outlets in the url (i.e. '/inbox(panel:details/42//modal:confirm)') are navigated independently
+         * after the primary route, and outlets missing from the url are cleared.
          *
          * @param {string} url The new route to match.
          * @param {plat.IObject<any>} query The query parameters for the route.
          * @param {boolean} force Whether or not to force navigation, even if the same url has already been matched.
+         * @param {boolean} poll? Whether or not to poll the registered ports before navigating.
+         * @param {plat.async.CancellationToken} token? A token that cancels the navigation. Navigation can be cancelled
+         * until the ports are cleared to navigate, after which the returned promise rejects with a
+         * {@link plat.async.CancellationError|CancellationError}.
          *
          * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves/rejects based on the success of
          * the navigation.
@@ -745,8 +881,299 @@ namespace plat.routing {
             url: string,
             query?: IObject<any>,
             force?: boolean,
-            poll?: boolean
+            poll?: boolean,
+            token?: async.CancellationToken
+        ): async.Promise<void> {
+            if (!isString(url) || (url.indexOf('(') === -1 && isEmpty(this._outlets))) {
+                return this._navigateRoute(url, query, force, poll, token);
+            }
+
+            const info = this._parseOutlets(url);
+
+            return this._navigateRoute(info.url, query, force, poll, token).then(
+                (): async.Promise<void> => {
+                    return this._navigateOutlets(info.outlets, query, force, token);
+                }
+            );
+        }
+
+        /**
+         * @name generate
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Attempts to generate a route with the specified route name. Will generate the full-path from the root
+         * router.
+         *
+         * @param {string} name The name of the route to generate.
+         * @param {plat.IObject<string>} parameters? Any parameters used to generate the route.
+         * @param {plat.IObject<string>} query? Any query parameters to append to the generated route.
+         *
+         * @returns {string} The generated route.
+         */
+        public generate(
+            name: string | (new (...args: any[]) => any),
+            parameters?: IObject<string>,
+            query?: IObject<string>
+        ): string {
+            const alias = name;
+
+            name = this._Injector.convertDependency(name);
+
+            if (name === __NOOP_INJECTOR) {
+                name = alias;
+            }
+
+            // tslint:disable-next-line
+            let router: Router = this;
+            let prefix = '';
+
+            while (
+                !(isNull(router) || router._recognizer.exists(<string>name))
+            ) {
+                router = router.parent;
+            }
+
+            if (isNull(router)) {
+                throw new Error(`Route for ${name} does not exist.`);
+            }
+
+            const path = router._recognizer.generate(<string>name, parameters);
+            let previous: string;
+
+            if (isUndefined(path)) {
+                throw new Error(
+                    `Parameters for ${name} do not satisfy the route constraints.`
+                );
+            }
+
+            while (!isNull((router = router.parent))) {
+                previous = router._previousSegment;
+                previous =
+                    !isNull(previous) && previous !== '/' ? previous : '';
+                prefix = previous + prefix;
+            }
+
+            return prefix + path + serializeQuery(query, this._browserConfig.queryStyle);
+        }
+
+        /**
+         * @name generateOutlet
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Generates a url that navigates a named outlet to a route, keeping the current primary route and
+         * the other outlets as they are.
+         *
+         * @param {string} outlet The name of the outlet.
+         * @param {any} name The name of the route to generate for the outlet. If empty, the outlet is cleared.
+         * @param {plat.IObject<string>} parameters? Any parameters used to generate the route.
+         * @param {plat.IObject<string>} query? Any query parameters to append to the generated url. Defaults to
+         * the current query.
+         *
+         * @returns {string} The generated url.
+         */
+        public generateOutlet(
+            outlet: string,
+            name: string | (new (...args: any[]) => any),
+            parameters?: IObject<string>,
+            query?: IObject<any>
+        ): string {
+            // tslint:disable-next-line
+            let router: Router = this;
+
+            while (!(isNull(router) || isObject(router._outlets[outlet]))) {
+                router = router.parent;
+            }
+
+            if (isNull(router)) {
+                throw new Error(`Outlet ${outlet} does not exist.`);
+            }
+
+            const outletRouter = router._outlets[outlet];
+            const paths = router._outletPaths();
+            const queryStyle = this._browserConfig.queryStyle;
+            let path = '';
+
+            if (!isEmpty(name)) {
+                const alias = name;
+
+                name = this._Injector.convertDependency(name);
+
+                if (name === __NOOP_INJECTOR) {
+                    name = alias;
+                }
+
+                path = outletRouter._recognizer.generate(<string>name, parameters);
+
+                if (isUndefined(path)) {
+                    throw new Error(
+                        `Parameters for ${name} do not satisfy the route constraints.`
+                    );
+                }
+            }
+
+            paths[outlet] = path;
+
+            if (!isObject(query)) {
+                query = deserializeQuery(router._previousQuery, queryStyle);
+            }
+
+            let url = router._previousUrl;
+
+            if (!isString(url) || isEmpty(url)) {
+                url = '/';
+            }
+
+            return url + this._serializeOutlets(paths) + serializeQuery(query, queryStyle);
+        }
+
+        /**
+         * @name routeTree
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Describes the routes configured for this router and all of its child routers. Intended for debugging.
+         *
+         * @returns {plat.routing.IRouteTree} The route tree.
+         */
+        public routeTree(): IRouteTree {
+            const paramTransforms = this._paramTransforms;
+            const queryTransforms = this._queryTransforms;
+            const interceptors = this._interceptors;
+            const keys = (transforms: IRouteTransforms): string[] =>
+                isObject(transforms) ? Object.keys(transforms) : [];
+            const count = (handlers: any[]): number =>
+                isArray(handlers) ? handlers.length : 0;
+
+            return {
+                uid: this.uid,
+                isRoot: this.isRoot,
+                routes: this._recognizer.routes().map(
+                    (route: IRouteDescription): IRouteTreeEntry => {
+                        const mapping: IRouteMapping = route.delegates[0];
+                        const view = mapping.view;
+
+                        return {
+                            pattern: route.pattern,
+                            view: view,
+                            alias: mapping.alias,
+                            redirectTo: mapping.redirectTo,
+                            lazy: isObject(this._loaders[mapping.alias]),
+                            paramTransforms: keys(paramTransforms[view]),
+                            queryTransforms: keys(queryTransforms[view]),
+                            interceptors: count(interceptors[view]),
+                        };
+                    }
+                ),
+                paramTransforms: keys(paramTransforms['*']),
+                queryTransforms: keys(queryTransforms['*']),
+                interceptors: count(interceptors['*']),
+                children: this.children.map(
+                    (child: Router): IRouteTree => child.routeTree()
+                ),
+            };
+        }
+
+        /**
+         * @name explain
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Explains how this router and its child routers would recognize a url, reporting the state transitions
+         * that were tried and why each route was or was not matched. Intended for debugging.
+         *
+         * @param {string} url The url to explain, relative to this router.
+         *
+         * @returns {plat.routing.IRouteExplanation} The explanation.
+         */
+        public explain(url: string): IRouteExplanation {
+            const childRoutes = this._childRecognizer.explain(url);
+            let children: IRouteExplanation[] = [];
+
+            if (childRoutes.matched) {
+                const childRoute = this._getChildRoute(<IRouteInfo>childRoutes.result[0]);
+
+                children = this.children.map(
+                    (child: Router): IRouteExplanation => child.explain(childRoute)
+                );
+            }
+
+            return {
+                uid: this.uid,
+                url: url,
+                routes: this._recognizer.explain(url),
+                childRoutes: childRoutes,
+                children: children,
+            };
+        }
+
+        /**
+         * @name prefetch
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Matches a url against the routes of the root router, its child routers and its outlets, and warms the
+         * {@link plat.storage.TemplateCache|TemplateCache} with the templateUrls of the matched views. The
+         * templateUrl is read from the view's constructor (a static templateUrl) or its prototype, the views are
+         * never instantiated. Nothing is navigated, no transforms, interceptors, guards or resolvers are called, and lazy-loaded views that have
+         * not been loaded are skipped.
+         *
+         * @param {string} url The url to prefetch.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the templates
+         * have been fetched. It never rejects.
+         */
+        public prefetch(url: string): async.Promise<void> {
+            // tslint:disable-next-line
+            let router: Router = this;
+
+            while (!isNull(router.parent)) {
+                router = router.parent;
+            }
+
+            return router._prefetch(url);
+        }
+
+        /**
+         * @name _navigateRoute
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Matches and navigates to the primary route of a url, after any named outlets have been removed from it.
+         *
+         * @param {string} url The route to match.
+         * @param {plat.IObject<any>} query The query parameters for the route.
+         * @param {boolean} force Whether or not to force navigation, even if the same url has already been matched.
+         * @param {boolean} poll? Whether or not to poll the registered ports before navigating.
+         * @param {plat.async.CancellationToken} token? A token that cancels the navigation.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves/rejects based on the success of
+         * the navigation.
+         */
+        protected _navigateRoute(
+            url: string,
+            query?: IObject<any>,
+            force?: boolean,
+            poll?: boolean,
+            token?: async.CancellationToken
         ): async.Promise<void> {
+            if (isObject(token) && token.isCancelled) {
+                return this._reject(token.reason);
+            }
+
             if (poll === false) {
                 poll = !isObject(this.currentRouteInfo);
             }
@@ -756,7 +1183,7 @@ namespace plat.routing {
             }
 
             const resolve = this._resolve;
-            const queryString = serializeQuery(query);
+            const queryString = serializeQuery(query, this._browserConfig.queryStyle);
 
             if (url === '/') {
                 url = '';
@@ -775,7 +1202,7 @@ namespace plat.routing {
                     return this.finishNavigating.then((): async.Promise<
                         void
                     > => {
-                        return this.navigate(url, query, force);
+                        return this._navigateRoute(url, query, force, undefined, token);
                     });
                 }
 
@@ -835,24 +1262,7 @@ namespace plat.routing {
                         this.currentRouteInfo = routeInfo;
 
                         if (isFunction(this._unknownHandler)) {
-                            const unknownRouteConfig: IUnknownRouteInfo = {
-                                segment: url,
-                                view: <any>undefined,
-                            };
-
-                            return resolve(
-                                this._unknownHandler(unknownRouteConfig)
-                            ).then(() => {
-                                const view = unknownRouteConfig.view;
-                                if (isUndefined(view)) {
-                                    return;
-                                }
-
-                                return this.configure({
-                                    pattern: url,
-                                    view: view,
-                                });
-                            });
+                            return this._callUnknownHandler(url);
                         }
 
                         return resolve();
@@ -869,6 +1279,13 @@ namespace plat.routing {
                     if (!emptyResult || this._isSameRoute(routeInfo)) {
                         // the pattern for this router is the same as the last pattern so
                         // only navigate child routers.
+                        this._navigation = {
+                            id: this._createNavigationId(),
+                            url: url,
+                            query: query,
+                            previous: this.currentRouteInfo,
+                            next: this.currentRouteInfo,
+                        };
                         this.navigating = true;
 
                         return (this.finishNavigating = this._navigateChildren(
@@ -890,11 +1307,28 @@ namespace plat.routing {
                 pattern = routeInfo.delegate.pattern;
             }
 
-            let delegateName = routeInfo.delegate.alias;
+            if (!isUndefined(routeInfo.delegate.redirectTo)) {
+                let redirect: IRedirectInfo;
 
-            if (isEmpty(delegateName)) {
-                delegateName = routeInfo.delegate.view;
-            }
+                try {
+                    redirect = this._getRedirect(routeInfo);
+                } catch (e) {
+                    return this._reject(e);
+                }
+
+                return this._reject(new RedirectError(redirect));
+            }
+
+            routeInfo.query = this._coerceQuery(
+                routeInfo.query,
+                routeInfo.delegate.querySchema
+            );
+
+            let delegateName = routeInfo.delegate.alias;
+
+            if (isEmpty(delegateName)) {
+                delegateName = routeInfo.delegate.view;
+            }
 
             segment = recognizer.generate(delegateName, routeInfo.parameters);
 
@@ -902,17 +1336,59 @@ namespace plat.routing {
 
             this._previousSegment = segment;
 
-            this.navigating = true;
-
             const routeInfoCopy = (this._nextRouteInfo = _clone(
                 routeInfo,
                 true
             ));
 
-            return (this.finishNavigating = this._canNavigate(routeInfo, poll)
+            this._navigation = {
+                id: this._createNavigationId(),
+                url: url,
+                query: query,
+                previous: this.currentRouteInfo,
+                next: routeInfoCopy,
+            };
+            this.navigating = true;
+            this._dispatchNavigation(__navigationStarted);
+
+            let loadFailed = false;
+            let cancelled = false;
+            let canNavigatePromise = this._loadView(routeInfo).then(
+                (): async.Promise<boolean> => {
+                    return this._canNavigate(routeInfo, poll);
+                },
+                (e: any): boolean => {
+                    loadFailed = true;
+                    throw e;
+                }
+            );
+
+            if (isObject(token)) {
+                // only the pre-navigation steps can be cancelled, the derived promises are not bound
+                // to the token so that the ports are never left partially navigated.
+                const pending = canNavigatePromise;
+
+                canNavigatePromise = new this._Promise<boolean>((resolveCancellable, reject): void => {
+                    const remove = token.onCancel(reject);
+
+                    pending.then(
+                        (canNavigate: boolean): void => {
+                            remove();
+                            resolveCancellable(canNavigate);
+                        },
+                        (e: any): void => {
+                            remove();
+                            reject(e);
+                        }
+                    );
+                });
+            }
+
+            return (this.finishNavigating = canNavigatePromise
                 .then((canNavigate: boolean): async.Promise<void> => {
                     if (!canNavigate) {
                         this.navigating = false;
+                        cancelled = true;
                         throw new Error('Not cleared to navigate');
                     }
 
@@ -927,69 +1403,32 @@ namespace plat.routing {
                         this._previousSegment = segment;
                         this.currentRouteInfo = routeInfoCopy;
                         this.navigating = false;
+                        this._dispatchNavigation(__navigationCompleted);
                     },
-                    (e: any): void => {
+                    (e: any): async.Promise<void> => {
                         this._previousSegment = previousSegment;
                         this.navigating = false;
-                        throw e;
-                    }
-                ));
-        }
-
-        /**
-         * @name generate
-         * @memberof plat.routing.Router
-         * @kind function
-         * @access public
-         *
-         * @description
-         * Attempts to generate a route with the specified route name. Will generate the full-path from the root
-         * router.
-         *
-         * @param {string} name The name of the route to generate.
-         * @param {plat.IObject<string>} parameters? Any parameters used to generate the route.
-         * @param {plat.IObject<string>} query? Any query parameters to append to the generated route.
-         *
-         * @returns {string} The generated route.
-         */
-        public generate(
-            name: string | (new (...args: any[]) => any),
-            parameters?: IObject<string>,
-            query?: IObject<string>
-        ): string {
-            const alias = name;
-
-            name = this._Injector.convertDependency(name);
-
-            if (name === __NOOP_INJECTOR) {
-                name = alias;
-            }
-
-            // tslint:disable-next-line
-            let router: Router = this;
-            let prefix = '';
-
-            while (
-                !(isNull(router) || router._recognizer.exists(<string>name))
-            ) {
-                router = router.parent;
-            }
 
-            if (isNull(router)) {
-                throw new Error(`Route for ${name} does not exist.`);
-            }
+                        if (
+                            cancelled ||
+                            async.CancellationToken.isCancellation(e) ||
+                            RedirectError.isRedirect(e)
+                        ) {
+                            this._dispatchNavigation(__navigationCancelled, e);
+                        } else {
+                            this._dispatchNavigation(__navigationErrored, e);
+                        }
 
-            const path = router._recognizer.generate(<string>name, parameters);
-            let previous: string;
+                        if (loadFailed && isFunction(this._unknownHandler)) {
+                            this._previousUrl = url;
+                            this._previousQuery = queryString;
 
-            while (!isNull((router = router.parent))) {
-                previous = router._previousSegment;
-                previous =
-                    !isNull(previous) && previous !== '/' ? previous : '';
-                prefix = previous + prefix;
-            }
+                            return this._callUnknownHandler(url, e);
+                        }
 
-            return prefix + path + serializeQuery(query);
+                        throw e;
+                    }
+                ));
         }
 
         /**
@@ -1007,6 +1446,30 @@ namespace plat.routing {
          * @returns {void}
          */
         protected _configureRoute(route: IRouteMapping): void {
+            if (this._isForeignOutlet(route.outlet)) {
+                this._getOutlet(route.outlet)._configureRoute(route);
+
+                return;
+            }
+
+            const load = this._isViewLoader(route.view) ? route.view : undefined;
+
+            if (!isUndefined(route.redirectTo) && isNull(route.view)) {
+                if (isEmpty(route.alias)) {
+                    route.alias = route.pattern;
+                }
+
+                // redirect routes are never navigated to, the alias stands in for the view
+                route.view = route.alias;
+            } else if (isFunction(load)) {
+                if (isEmpty(route.alias)) {
+                    route.alias = route.pattern;
+                }
+
+                // the alias stands in for the view until it is loaded
+                route.view = route.alias;
+            }
+
             const view: string = this._Injector.convertDependency(route.view);
             let alias = route.alias;
 
@@ -1036,11 +1499,327 @@ namespace plat.routing {
                     pattern: childPattern,
                     view: view,
                     alias: alias,
+                    guards: route.guards,
+                    resolve: route.resolve,
+                    redirectTo: route.redirectTo,
+                    preserveQuery: route.preserveQuery,
+                    querySchema: route.querySchema,
                 },
             };
 
             this._recognizer.register([routeDelegate], { name: alias });
             this._childRecognizer.register([childDelegate]);
+
+            if (isFunction(load)) {
+                this._loaders[alias] = {
+                    load: load,
+                    mappings: [route, childDelegate.delegate],
+                };
+            }
+        }
+
+        /**
+         * @name _coerceQuery
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Coerces the query parameters of a route to the types declared in its
+         * {@link plat.routing.IRouteMapping.querySchema|querySchema}. Values that cannot be coerced are left
+         * unchanged.
+         *
+         * @param {plat.IObject<any>} query The query parameters.
+         * @param {plat.IObject<any>} schema? The query schema of the route.
+         *
+         * @returns {plat.IObject<any>} A copy of the query parameters with the coerced values.
+         */
+        protected _coerceQuery(
+            query: IObject<any>,
+            schema?: IObject<string | ((value: any) => any)>
+        ): IObject<any> {
+            if (!isObject(schema) || !isObject(query)) {
+                return query;
+            }
+
+            const coerced: IObject<any> = _extend(false, false, {}, query);
+            const coerce = (type: string, value: any): any => {
+                let result: any = value;
+
+                if (isArray(value)) {
+                    return value.map((item: any): any => coerce(type, item));
+                }
+
+                switch (type) {
+                    case 'number':
+                        result = isString(value) && !isEmpty(value) ? Number(value) : NaN;
+
+                        return isNaN(result) ? value : result;
+                    case 'boolean':
+                        if (isUndefined(value) || value === 'true' || value === '1') {
+                            return true;
+                        }
+
+                        return value === 'false' || value === '0' ? false : value;
+                    case 'date':
+                        result = new Date(value);
+
+                        return isNaN(result.getTime()) ? value : result;
+                    default:
+                        return value;
+                }
+            };
+
+            forEach((type: string | ((value: any) => any), key: string): void => {
+                if (!coerced.hasOwnProperty(key)) {
+                    if (type === 'array') {
+                        coerced[key] = [];
+                    }
+
+                    return;
+                }
+
+                const value = coerced[key];
+
+                if (isFunction(type)) {
+                    coerced[key] = type(value);
+                } else if (type === 'array') {
+                    coerced[key] = isArray(value) ? value : [value];
+                } else if (type === 'string') {
+                    coerced[key] = isArray(value) ? value.join(',') : value;
+                } else {
+                    coerced[key] = coerce(<string>type, value);
+                }
+            }, schema);
+
+            return coerced;
+        }
+
+        /**
+         * @name _getRedirect
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Builds the redirect for a route with a redirectTo. Dynamic and splat segments in a redirect
+         * pattern are substituted with the route parameters, and the url is prefixed with the segments of the
+         * parent routers. Throws if a required segment has no matching parameter.
+         *
+         * @param {plat.routing.IRouteInfo} info The information for the redirect route.
+         *
+         * @returns {plat.routing.IRedirectInfo} Where to redirect to.
+         */
+        protected _getRedirect(info: IRouteInfo): IRedirectInfo {
+            const delegate = info.delegate;
+            const parameters = isObject(info.parameters) ? info.parameters : {};
+            const redirectTo = delegate.redirectTo;
+            let redirect: string | IRedirectInfo;
+
+            if (isFunction(redirectTo)) {
+                redirect = redirectTo(info);
+            } else {
+                redirect = redirectTo;
+            }
+
+            if (isString(redirect)) {
+                redirect = {
+                    url: redirect
+                        .split('/')
+                        .map((segment: string): string => {
+                            const match = segment.match(/^[:*]([^\(\?=]+)(?:\(.+\))?(\?)?/);
+
+                            if (isNull(match)) {
+                                return segment;
+                            }
+
+                            const value = parameters[match[1]];
+
+                            if (isUndefined(value) && !isString(match[2])) {
+                                throw new Error(
+                                    `Parameter ${match[1]} for the redirect of ${delegate.pattern} does not exist.`
+                                );
+                            }
+
+                            return value;
+                        })
+                        .filter((segment: string): boolean => !isUndefined(segment))
+                        .join('/'),
+                    query: delegate.preserveQuery === false ? {} : info.query,
+                };
+            }
+
+            if (!isObject(redirect) || !isString(redirect.url)) {
+                throw new Error(`Invalid redirect for ${delegate.pattern}.`);
+            }
+
+            let url = redirect.url;
+            // tslint:disable-next-line
+            let router: Router = this;
+            let previous: string;
+
+            if (isString(parameters.childRoute)) {
+                url += `/${parameters.childRoute}`;
+            }
+
+            while (!isNull((router = router.parent))) {
+                previous = router._previousSegment;
+                previous = !isNull(previous) && previous !== '/' ? previous : '';
+                url = previous + url;
+            }
+
+            return {
+                url: url,
+                query: redirect.query,
+                replace: redirect.replace,
+            };
+        }
+
+        /**
+         * @name _isViewLoader
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines whether or not the view of a route mapping is a loader function instead of
+         * a {@link plat.ui.ViewControl|ViewControl} constructor or token.
+         *
+         * @param {any} view The view of a route mapping.
+         *
+         * @returns {boolean}
+         */
+        protected _isViewLoader(view: any): boolean {
+            return (
+                isFunction(view) &&
+                !isString(view.__injectorName) &&
+                !(view.prototype instanceof ui.ViewControl)
+            );
+        }
+
+        /**
+         * @name _loadView
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Loads the view for a route if it is lazy-loaded and has not been loaded yet. The loaded
+         * {@link plat.ui.ViewControl|ViewControl} is registered with the route alias if it is not registered
+         * already. The ports are asked to show their loading template while the view loads.
+         *
+         * @param {plat.routing.IRouteInfo} info The route information.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the
+         * view is loaded.
+         */
+        protected _loadView(info: IRouteInfo): async.Promise<void> {
+            const alias = info.delegate.alias;
+            const loader = this._loaders[alias];
+
+            if (!isObject(loader)) {
+                return this._resolve();
+            } else if (isObject(loader.promise)) {
+                return loader.promise;
+            }
+
+            const ports = this._ports.slice(0);
+            const hideLoading = (): void => {
+                forEach((port: ISupportRouteNavigation): void => {
+                    if (isFunction(port.hideLoading)) {
+                        port.hideLoading();
+                    }
+                }, ports);
+            };
+
+            forEach((port: ISupportRouteNavigation): void => {
+                if (isFunction(port.showLoading)) {
+                    port.showLoading(info);
+                }
+            }, ports);
+
+            return (loader.promise = this._resolve(loader.load())
+                .then((Constructor: any): void => {
+                    let view: string = Constructor;
+
+                    if (isFunction(Constructor)) {
+                        // the injector name of a subclass is inherited until it is registered itself
+                        view = Constructor.hasOwnProperty('__injectorName')
+                            ? Constructor.__injectorName
+                            : undefined;
+
+                        if (!isString(view)) {
+                            view = alias;
+                            register.viewControl(alias, Constructor);
+                        }
+                    }
+
+                    if (!isString(view)) {
+                        throw new Error(
+                            `The loader for ${alias} did not return a ViewControl.`
+                        );
+                    }
+
+                    forEach((mapping: IRouteMapping): void => {
+                        mapping.view = view;
+                    }, loader.mappings);
+
+                    deleteProperty(this._loaders, alias);
+                    hideLoading();
+                })
+                .catch((error: any): void => {
+                    loader.promise = undefined;
+                    hideLoading();
+
+                    throw error;
+                }));
+        }
+
+        /**
+         * @name _callUnknownHandler
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Calls the unknown handler for a url. If the handler sets a view, the view is configured for the url and
+         * the router navigates to it.
+         *
+         * @param {string} url The url that could not be navigated to.
+         * @param {any} error? The error that occurred loading the view for the url, if any. If the handler does not
+         * set a view the returned promise rejects with the error.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the
+         * navigation is complete.
+         */
+        protected _callUnknownHandler(url: string, error?: any): async.Promise<void> {
+            const unknownRouteConfig: IUnknownRouteInfo = {
+                segment: url,
+                view: <any>undefined,
+            };
+
+            if (!isUndefined(error)) {
+                unknownRouteConfig.error = error;
+            }
+
+            return this._resolve(this._unknownHandler(unknownRouteConfig)).then(
+                (): async.Promise<void> => {
+                    const view = unknownRouteConfig.view;
+
+                    if (isUndefined(view)) {
+                        if (!isUndefined(error)) {
+                            throw error;
+                        }
+
+                        return;
+                    }
+
+                    return this.configure({
+                        pattern: url,
+                        view: view,
+                    });
+                }
+            );
         }
 
         /**
@@ -1118,17 +1897,24 @@ namespace plat.routing {
                 });
             }
 
-            if (this.isRoot && isEmpty(this._previousUrl)) {
+            let url = this._previousUrl;
+
+            if (this.isRoot && isEmpty(url)) {
                 const utils = this._browser.urlUtils();
-                this._previousUrl = utils.pathname;
+                url = this._previousUrl = utils.pathname;
                 query = utils.query;
+            } else if (isString(url)) {
+                url += this._serializeOutlets(this._outletPaths());
             }
 
             if (!isEmpty(this._previousQuery)) {
-                query = deserializeQuery(this._previousQuery);
+                query = deserializeQuery(
+                    this._previousQuery,
+                    this._browserConfig.queryStyle
+                );
             }
 
-            return this.navigate(this._previousUrl, query, true);
+            return this.navigate(url, query, true);
         }
 
         /**
@@ -1187,28 +1973,390 @@ namespace plat.routing {
         }
 
         /**
-         * @name _performNavigation
+         * @name _navigateOutlets
          * @memberof plat.routing.Router
          * @kind function
          * @access protected
          *
          * @description
-         * It is safe to navigate, so perform the navigation.
+         * Navigates the named outlets of this router. Each outlet only navigates if its route changed, and
+         * outlets that are not in the url are cleared.
          *
-         * @param {plat.routing.IRouteInfo} info The route information.
+         * @param {plat.IObject<string>} outlets The routes for the outlets in the url, keyed by outlet name.
+         * @param {plat.IObject<any>} query The query parameters.
+         * @param {boolean} force Whether or not to force navigation, even if the same url has already been matched.
+         * @param {plat.async.CancellationToken} token? A token that cancels the navigation.
          *
-         * @returns {plat.async.Promise<void>} Resolves when the navigation is complete.
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the outlets
+         * have navigated.
          */
-        protected _performNavigation(info: IRouteInfo): async.Promise<void> {
-            const sameRoute = this._isSameRoute(this._nextRouteInfo);
+        protected _navigateOutlets(
+            outlets: IObject<string>,
+            query: IObject<any>,
+            force: boolean,
+            token?: async.CancellationToken
+        ): async.Promise<void> {
+            forEach((path: string, name: string): void => {
+                this._getOutlet(name);
+            }, outlets);
 
-            return this._performNavigateFrom(sameRoute)
-                .then((): async.Promise<void[]> => {
-                    if (sameRoute) {
-                        return;
-                    }
+            return mapAsync((router: Router, name: string): async.Promise<void> => {
+                const path = outlets[name];
 
-                    return mapAsync(
+                if (isString(path)) {
+                    return router.navigate(path, query, force, undefined, token);
+                }
+
+                return router._clearOutlet();
+            }, this._outlets).then(noop);
+        }
+
+        /**
+         * @name _clearOutlet
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Navigates the ports of an outlet router away from their current view, if they allow it, and
+         * clears the router information.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the
+         * outlet is cleared.
+         */
+        protected _clearOutlet(): async.Promise<void> {
+            if (this.navigating) {
+                return this.finishNavigating.then((): async.Promise<void> => {
+                    return this._clearOutlet();
+                });
+            }
+
+            if (!isObject(this.currentRouteInfo)) {
+                this._clearInfo();
+
+                return this._resolve();
+            }
+
+            this.navigating = true;
+
+            return (this.finishNavigating = this._canNavigateFrom()
+                .then((canNavigateFrom: boolean): async.Promise<void> => {
+                    if (!canNavigateFrom) {
+                        throw new Error('Not cleared to navigate');
+                    }
+
+                    return this._performNavigateFrom();
+                })
+                .then(
+                    (): void => {
+                        this._clearInfo();
+                    },
+                    (e: any): void => {
+                        this.navigating = false;
+                        throw e;
+                    }
+                ));
+        }
+
+        /**
+         * @name _getOutlet
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the router for a named outlet, creating it if necessary.
+         *
+         * @param {string} name The name of the outlet.
+         *
+         * @returns {plat.routing.Router} The router for the outlet.
+         */
+        protected _getOutlet(name: string): Router {
+            const outlets = this._outlets;
+            let router = outlets[name];
+
+            if (isObject(router)) {
+                return router;
+            }
+
+            // creating a router makes it the current router, which is reserved for routers of views
+            const current = Router.currentRouter();
+
+            router = outlets[name] = acquire(__Router);
+            router._outlet = name;
+            Router.currentRouter(current);
+
+            return router;
+        }
+
+        /**
+         * @name _isForeignOutlet
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines if an outlet name refers to an outlet other than the one this router navigates.
+         *
+         * @param {string} outlet The name of the outlet.
+         *
+         * @returns {boolean} Whether or not the outlet belongs to another router.
+         */
+        protected _isForeignOutlet(outlet: string): boolean {
+            return isString(outlet) && !isEmpty(outlet) && outlet !== this._outlet;
+        }
+
+        /**
+         * @name _parseOutlets
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Separates the named outlets from the primary route of a url. Outlets are enclosed in parentheses at the
+         * end of the url and separated by '//', i.e. '/inbox(panel:details/42//modal:confirm)'.
+         *
+         * @param {string} url The url.
+         *
+         * @returns {plat.routing.IOutletUrl} The primary route and the routes for the outlets.
+         */
+        protected _parseOutlets(url: string): IOutletUrl {
+            const start = url.indexOf('(');
+            const outlets: IObject<string> = {};
+
+            if (start === -1 || url[url.length - 1] !== ')') {
+                return {
+                    url: url,
+                    outlets: outlets,
+                };
+            }
+
+            forEach((group: string): void => {
+                const index = group.indexOf(':');
+
+                if (index < 1) {
+                    return;
+                }
+
+                outlets[group.slice(0, index)] = `/${group.slice(index + 1)}`;
+            }, url.slice(start + 1, -1).split('//'));
+
+            return {
+                url: url.slice(0, start),
+                outlets: outlets,
+            };
+        }
+
+        /**
+         * @name _serializeOutlets
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Serializes the routes for named outlets to be appended to the primary route of a url.
+         *
+         * @param {plat.IObject<string>} outlets The routes for the outlets, keyed by outlet name.
+         *
+         * @returns {string} The serialized outlets, or an empty string if no outlet has a route.
+         */
+        protected _serializeOutlets(outlets: IObject<string>): string {
+            const groups: string[] = [];
+
+            forEach((path: string, name: string): void => {
+                if (!isString(path)) {
+                    return;
+                }
+
+                if (path[0] === '/') {
+                    path = path.slice(1);
+                }
+
+                if (!isEmpty(path)) {
+                    groups.push(`${name}:${path}`);
+                }
+            }, outlets);
+
+            if (groups.length === 0) {
+                return '';
+            }
+
+            return `(${groups.join('//')})`;
+        }
+
+        /**
+         * @name _outletPaths
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the current routes of the named outlets of this router.
+         *
+         * @returns {plat.IObject<string>} The current routes, keyed by outlet name.
+         */
+        protected _outletPaths(): IObject<string> {
+            const paths: IObject<string> = {};
+
+            forEach((router: Router, name: string): void => {
+                paths[name] = router._previousUrl;
+            }, this._outlets);
+
+            return paths;
+        }
+
+        /**
+         * @name _prefetch
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Matches a url against the routes of this router and prefetches the templates of the matched views,
+         * recursing into the child routers and outlets.
+         *
+         * @param {string} url The url to prefetch.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the templates
+         * have been fetched.
+         */
+        protected _prefetch(url: string): async.Promise<void> {
+            if (!isString(url)) {
+                return this._resolve();
+            }
+
+            const info = this._parseOutlets(url);
+            const promises: async.Promise<void>[] = [];
+            let primary = info.url;
+            let childRoute: string;
+
+            if (primary === '/') {
+                primary = '';
+            }
+
+            let result = this._recognizer.recognize(primary);
+
+            if (isEmpty(result)) {
+                result = this._childRecognizer.recognize(primary);
+
+                if (!isEmpty(result)) {
+                    childRoute = this._getChildRoute(result[0]);
+                }
+            }
+
+            if (!isEmpty(result)) {
+                promises.push(this._prefetchView(result[0].delegate));
+            }
+
+            if (isString(childRoute)) {
+                forEach((child: Router): void => {
+                    promises.push(child._prefetch(childRoute));
+                }, this.children);
+            }
+
+            forEach((path: string, name: string): void => {
+                const outlet = this._outlets[name];
+
+                if (isObject(outlet)) {
+                    promises.push(outlet._prefetch(path));
+                }
+            }, info.outlets);
+
+            return this._Promise.all(promises).then(noop, noop);
+        }
+
+        /**
+         * @name _prefetchView
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Fetches the template of the view for a route into the {@link plat.storage.TemplateCache|TemplateCache}.
+         *
+         * @param {plat.routing.IRouteMapping} delegate The matched route.
+         *
+         * @returns {plat.async.Promise<void>} A {@link plat.async.IPromise|Promise} that resolves when the template
+         * has been fetched.
+         */
+        protected _prefetchView(delegate: IRouteMapping): async.Promise<void> {
+            const view: string = delegate.view;
+
+            if (
+                !isUndefined(delegate.redirectTo) ||
+                isObject(this._loaders[delegate.alias])
+            ) {
+                return this._resolve();
+            }
+
+            const templateUrls = this._templateUrls;
+
+            if (!templateUrls.hasOwnProperty(view)) {
+                templateUrls[view] = this._getTemplateUrl(view);
+            }
+
+            const templateUrl = templateUrls[view];
+
+            if (isEmpty(templateUrl)) {
+                return this._resolve();
+            }
+
+            return this._dom.getTemplate(templateUrl).then(noop);
+        }
+
+        /**
+         * @name _getTemplateUrl
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the templateUrl of a view from a static templateUrl on its constructor or a templateUrl on its
+         * prototype. The view is never instantiated, so views that only set their templateUrl on the instance
+         * are not prefetched.
+         *
+         * @param {string} view The registered name of the view.
+         *
+         * @returns {string} The templateUrl, if the view has one.
+         */
+        protected _getTemplateUrl(view: string): string {
+            const injector: dependency.Injector<ui.ViewControl> = this._Injector.getDependency(view);
+            const Constructor: any = isObject(injector) ? injector.Constructor : undefined;
+
+            if (!isFunction(Constructor)) {
+                return;
+            } else if (isString(Constructor.templateUrl)) {
+                return Constructor.templateUrl;
+            }
+
+            const templateUrl = Constructor.prototype.templateUrl;
+
+            return isString(templateUrl) ? templateUrl : undefined;
+        }
+
+        /**
+         * @name _performNavigation
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * It is safe to navigate, so perform the navigation.
+         *
+         * @param {plat.routing.IRouteInfo} info The route information.
+         *
+         * @returns {plat.async.Promise<void>} Resolves when the navigation is complete.
+         */
+        protected _performNavigation(info: IRouteInfo): async.Promise<void> {
+            const sameRoute = this._isSameRoute(this._nextRouteInfo);
+
+            return this._performNavigateFrom(sameRoute)
+                .then((): async.Promise<void[]> => {
+                    if (sameRoute) {
+                        return;
+                    }
+
+                    return mapAsync(
                         (
                             port: ISupportRouteNavigation
                         ): async.Promise<void> => {
@@ -1218,6 +2366,8 @@ namespace plat.routing {
                     );
                 })
                 .then((): async.Promise<void> => {
+                    this._dispatchNavigation(__navigationViewsActivated);
+
                     return this._navigateChildren(info, false);
                 });
         }
@@ -1293,7 +2443,14 @@ namespace plat.routing {
                         () => {
                             return true;
                         }
-                    );
+                    )
+                    .then((): async.Promise<boolean> => {
+                        return this._callResolvers(info).then((): boolean => {
+                            this._dispatchNavigation(__navigationResolved);
+
+                            return true;
+                        });
+                    });
             }
 
             return this._canNavigateFrom(sameRoute).then(
@@ -1383,6 +2540,26 @@ namespace plat.routing {
                 .then((): async.Promise<boolean> => {
                     return this._callInterceptors(info);
                 })
+                .then((canNavigateTo): async.Promise<boolean> => {
+                    if (canNavigateTo === false) {
+                        return <any>canNavigateTo;
+                    }
+
+                    return this._callGuards(info);
+                })
+                .then((canNavigateTo): async.Promise<boolean> => {
+                    if (canNavigateTo === false) {
+                        return <any>canNavigateTo;
+                    }
+
+                    this._dispatchNavigation(__navigationGuardsChecked);
+
+                    return this._callResolvers(info).then((): boolean => {
+                        this._dispatchNavigation(__navigationResolved);
+
+                        return canNavigateTo;
+                    });
+                })
                 .then((canNavigateTo): async.Promise<boolean[]> => {
                     if (canNavigateTo === false || ignorePorts) {
                         return <any>[canNavigateTo];
@@ -1542,236 +2719,1161 @@ namespace plat.routing {
         }
 
         /**
-         * @name _isSameRoute
+         * @name _callGuards
          * @memberof plat.routing.Router
          * @kind function
          * @access protected
          *
          * @description
-         * Checks a passed-in route against the current route to determine if it is the same.
+         * Calls the {@link plat.routing.IRouteGuard|guards} for a particular route in order, stopping at the
+         * first guard that does not allow the navigation. A guard that returns a url (or an
+         * {@link plat.routing.IRedirectInfo|IRedirectInfo}) rejects the navigation with a
+         * {@link plat.routing.RedirectError|RedirectError}.
          *
          * @param {plat.routing.IRouteInfo} info The route information.
          *
-         * @returns {boolean} Whether or not it is the same route.
+         * @returns {plat.async.Promise<boolean>} Whether or not it is safe to navigate.
          */
-        protected _isSameRoute(info: IRouteInfo): boolean {
-            const currentRouteInfo = _clone(this.currentRouteInfo, true);
-            info = _clone(info, true);
-
-            this._sanitizeRouteInfo(currentRouteInfo);
-            this._sanitizeRouteInfo(info);
+        protected _callGuards(info: IRouteInfo): async.Promise<boolean> {
+            const resolve = this._resolve;
+            const guards = info.delegate.guards;
 
-            if (!(isObject(currentRouteInfo) && isObject(info))) {
-                return false;
+            if (!isArray(guards)) {
+                return resolve(true);
             }
 
-            const currentDelegate = currentRouteInfo.delegate;
-            const delegate = info.delegate;
-            const currentParameters = serializeQuery(
-                currentRouteInfo.parameters
-            );
-            const parameters = serializeQuery(info.parameters);
-            const currentQuery = serializeQuery(currentRouteInfo.query);
-            const query = serializeQuery(info.query);
+            return guards.reduce(
+                (
+                    promise: async.Promise<boolean>,
+                    token: any
+                ): async.Promise<boolean> => {
+                    return promise.then((canActivate: boolean): async.Promise<boolean> => {
+                        if (!canActivate) {
+                            return <any>canActivate;
+                        }
 
-            return (
-                currentDelegate.view === delegate.view &&
-                currentDelegate.alias === delegate.alias &&
-                currentDelegate.pattern === delegate.pattern &&
-                currentParameters === parameters &&
-                (currentQuery === query || this.children.length > 0)
+                        const guard: IRouteGuard = acquire(<string>token);
+
+                        if (!isObject(guard) || !isFunction(guard.canActivate)) {
+                            throw new Error(
+                                `Could not find route guard ${token} for ${info.delegate.alias}.`
+                            );
+                        }
+
+                        return resolve(guard.canActivate(info)).then(
+                            (result: boolean | string | IRedirectInfo): boolean => {
+                                if (isString(result)) {
+                                    result = { url: result };
+                                }
+
+                                if (isObject(result)) {
+                                    throw new RedirectError(<IRedirectInfo>result);
+                                }
+
+                                return result !== false;
+                            }
+                        );
+                    });
+                },
+                resolve(true)
+            );
+        }
+
+        /**
+         * @name _callResolvers
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Calls the {@link plat.routing.IRouteResolver|resolvers} for a particular route, storing their results
+         * on the resolved property of the route information.
+         *
+         * @param {plat.routing.IRouteInfo} info The route information.
+         *
+         * @returns {plat.async.Promise<void>} Resolves when all the resolvers have finished execution.
+         */
+        protected _callResolvers(info: IRouteInfo): async.Promise<void> {
+            const resolve = this._resolve;
+            const resolvers = info.delegate.resolve;
+
+            if (!isObject(resolvers)) {
+                return resolve();
+            }
+
+            const resolved: IObject<any> = (info.resolved = {});
+
+            return mapAsync(
+                (token: any, key: string): async.Promise<void> => {
+                    const resolver: IRouteResolver = acquire(<string>token);
+
+                    if (!isObject(resolver) || !isFunction(resolver.resolve)) {
+                        return this._reject(
+                            new Error(
+                                `Could not find route resolver ${token} for ${info.delegate.alias}.`
+                            )
+                        );
+                    }
+
+                    return resolve(resolver.resolve(info)).then((value: any): void => {
+                        resolved[key] = value;
+                    });
+                },
+                resolvers
+            ).then(noop);
+        }
+
+        /**
+         * @name _isSameRoute
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Checks a passed-in route against the current route to determine if it is the same.
+         *
+         * @param {plat.routing.IRouteInfo} info The route information.
+         *
+         * @returns {boolean} Whether or not it is the same route.
+         */
+        protected _isSameRoute(info: IRouteInfo): boolean {
+            const currentRouteInfo = _clone(this.currentRouteInfo, true);
+            info = _clone(info, true);
+
+            this._sanitizeRouteInfo(currentRouteInfo);
+            this._sanitizeRouteInfo(info);
+
+            if (!(isObject(currentRouteInfo) && isObject(info))) {
+                return false;
+            }
+
+            const currentDelegate = currentRouteInfo.delegate;
+            const delegate = info.delegate;
+            const currentParameters = serializeQuery(
+                currentRouteInfo.parameters
+            );
+            const parameters = serializeQuery(info.parameters);
+            const currentQuery = serializeQuery(currentRouteInfo.query);
+            const query = serializeQuery(info.query);
+
+            return (
+                currentDelegate.view === delegate.view &&
+                currentDelegate.alias === delegate.alias &&
+                currentDelegate.pattern === delegate.pattern &&
+                currentParameters === parameters &&
+                (currentQuery === query || this.children.length > 0)
             );
         }
 
         /**
-         * @name _sanitizeRouteInfo
-         * @memberof plat.routing.Router
-         * @kind function
-         * @access protected
+         * @name _sanitizeRouteInfo
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Removes childRoute from routeInfo
+         *
+         * @param {plat.routing.IRouteInfo} info The route information.
+         *
+         * @returns {void}
+         */
+        protected _sanitizeRouteInfo(info: IRouteInfo): void {
+            if (isObject(info)) {
+                if (info.parameters.hasOwnProperty('childRoute')) {
+                    const delegate = info.delegate;
+                    const pattern = delegate.pattern;
+
+                    delegate.pattern = pattern.slice(
+                        0,
+                        pattern.length - __CHILD_ROUTE_LENGTH
+                    );
+                    deleteProperty(info.parameters, 'childRoute');
+                }
+            }
+        }
+
+        /**
+         * @name _createNavigationId
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Creates the id for a new navigation. Child routers navigating as part of a navigation of their
+         * parent share the id of the parent navigation.
+         *
+         * @returns {string} The navigation id.
+         */
+        protected _createNavigationId(): string {
+            const parent = this.parent;
+
+            if (isObject(parent) && parent.navigating && isObject(parent._navigation)) {
+                return parent._navigation.id;
+            }
+
+            return uniqueId('navigation_');
+        }
+
+        /**
+         * @name _dispatchNavigation
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Dispatches a navigation lifecycle event for the current navigation.
+         *
+         * @param {string} phase The lifecycle event to dispatch.
+         * @param {any} error? The error that ended the navigation.
+         *
+         * @returns {void}
+         */
+        protected _dispatchNavigation(phase: string, error?: any): void {
+            const navigation = this._navigation;
+
+            if (!isObject(navigation)) {
+                return;
+            }
+
+            const EventManager = this._EventManager;
+            const info: INavigationInfo = _extend(false, false, {}, navigation, {
+                phase: phase,
+            });
+
+            if (!isUndefined(error)) {
+                info.error = error;
+            }
+
+            EventManager.dispatch(phase, this, EventManager.DIRECT, [info]);
+        }
+
+        /**
+         * @name _clearInfo
+         * @memberof plat.routing.Router
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Clears all the router information, essentially setting the router back to its initialized state.
+         *
+         * @returns {void}
+         */
+        protected _clearInfo(): void {
+            this._previousSegment = undefined;
+            this._previousPattern = undefined;
+            this._previousUrl = undefined;
+            this._previousQuery = undefined;
+            this.currentRouteInfo = undefined;
+            this.navigating = false;
+            forEach((child: Router): void => {
+                child._clearInfo();
+            }, this.children);
+        }
+    }
+
+    register.injectable(__Router, Router, null, __INSTANCE);
+
+    /**
+     * The injectable function for {@link plat.routing.IRouterStatic|IRouterStatic}
+     */
+    export function IRouterStatic(): IRouterStatic {
+        return Router;
+    }
+
+    register.injectable(__RouterStatic, IRouterStatic);
+
+    /**
+     * @name RedirectError
+     * @memberof plat.routing
+     * @kind class
+     *
+     * @description
+     * The error a navigation is rejected with when it is redirected to another url, for instance by a
+     * {@link plat.routing.IRouteGuard|route guard}. The {@link plat.routing.Navigator|Navigator} follows the redirect.
+     */
+    export class RedirectError implements Error {
+        /**
+         * @name name
+         * @memberof plat.routing.RedirectError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the Error ('RedirectError')
+         */
+        public name: string = 'RedirectError';
+
+        /**
+         * @name message
+         * @memberof plat.routing.RedirectError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The Error message
+         */
+        public message: string;
+
+        /**
+         * @name url
+         * @memberof plat.routing.RedirectError
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The url to redirect to.
+         */
+        public url: string;
+
+        /**
+         * @name query
+         * @memberof plat.routing.RedirectError
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<any>}
+         *
+         * @description
+         * The query parameters for the url.
+         */
+        public query: IObject<any>;
+
+        /**
+         * @name replace
+         * @memberof plat.routing.RedirectError
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the redirect replaces the current history entry.
+         */
+        public replace: boolean;
+
+        /**
+         * @name isRedirect
+         * @memberof plat.routing.RedirectError
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Determines whether or not an error is a {@link plat.routing.RedirectError|RedirectError}.
+         *
+         * @param {any} error The error to check.
+         *
+         * @returns {boolean}
+         */
+        public static isRedirect(error: any): boolean {
+            return isObject(error) && error.name === 'RedirectError';
+        }
+
+        /**
+         * @name constructor
+         * @memberof plat.routing.RedirectError
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for a {@link plat.routing.RedirectError|RedirectError}.
+         *
+         * @param {plat.routing.IRedirectInfo} redirect Where to redirect to.
+         *
+         * @returns {plat.routing.RedirectError}
+         */
+        constructor(redirect: IRedirectInfo) {
+            Error.apply(this);
+            this.url = redirect.url;
+            this.query = isObject(redirect.query) ? redirect.query : {};
+            this.replace = redirect.replace !== false;
+            this.message = `Redirected to ${this.url}`;
+        }
+    }
+
+    // have to bypass TS flags in order to properly extend Error, the prototype is not shared with
+    // Error so that instanceof does not match other errors
+    (<any>RedirectError).prototype = Object.create(Error.prototype);
+    (<any>RedirectError).prototype.constructor = RedirectError;
+
+    /**
+     * @name IRouterStatic
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * The static methods and properties on router
+     */
+    export interface IRouterStatic {
+        /**
+         * @name currentRouter
+         * @memberof plat.routing.IRouterStatic
+         * @kind function
+         * @access public
+         * @static
+         *
+         * @description
+         * Exposes the {@link plat.routing.Router.__currentRouter|current router} property. Also provides the
+         * ability to set the current router.
+         *
+         * @param {plat.routing.Router} router Will set the current router.
+         *
+         * @returns {plat.routing.Router} The current router.
+         */
+        currentRouter(router?: Router): Router;
+    }
+
+    /**
+     * @name IRouteMapping
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * A route mapping, used for registering and matching routes.
+     */
+    export interface IRouteMapping {
+        /**
+         * @name pattern
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * A pattern for the route (e.g. "/posts/:id")
+         */
+        pattern: string;
+
+        /**
+         * @name view
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {any}
+         *
+         * @description
+         * Either a Constructor for a registered {@link plat.ui.ViewControl|ViewControl}, the registered token for
+         * that ViewControl, or a loader function returning a {@link plat.async.IPromise|Promise} that resolves with
+         * a ViewControl Constructor or token. A loader is called the first time the route is navigated to, and
+         * a loaded ViewControl that is not registered is registered with the route alias. When a loader is used the
+         * alias defaults to the pattern. Only a redirect route can omit the view.
+         */
+        view?: any;
+
+        /**
+         * @name alias
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * An optional alias with which to associate this mapping. Alias is used over view when specified.
+         */
+        alias?: string;
+
+        /**
+         * @name guards
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {Array<any>}
+         *
+         * @description
+         * Registered tokens (or Constructors) for injectable {@link plat.routing.IRouteGuard|guards}
+         * that must allow the navigation to this route (e.g. `['$AuthGuard']`). Guards are called in order.
+         */
+        guards?: any[];
+
+        /**
+         * @name resolve
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<any>}
+         *
+         * @description
+         * Registered tokens (or Constructors) for injectable {@link plat.routing.IRouteResolver|resolvers}, keyed
+         * by the property of {@link plat.routing.IRouteInfo.resolved|resolved} that receives their result
+         * (e.g. `{ user: '$UserResolver' }`).
+         */
+        resolve?: IObject<any>;
+
+        /**
+         * @name redirectTo
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {string|((routeInfo: plat.routing.IRouteInfo) => string|plat.routing.IRedirectInfo)}
+         *
+         * @description
+         * Redirects navigation for this route, replacing the current history entry. Either a pattern whose dynamic
+         * and splat segments are substituted with the route parameters (e.g. `/new/:id`), or a function of the
+         * route information returning a url or an {@link plat.routing.IRedirectInfo|IRedirectInfo}. The view is
+         * optional for a redirect route.
+         */
+        redirectTo?: string | ((routeInfo: IRouteInfo) => string | IRedirectInfo);
+
+        /**
+         * @name preserveQuery
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not a redirectTo pattern keeps the query parameters, defaults to true.
+         */
+        preserveQuery?: boolean;
+
+        /**
+         * @name querySchema
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<any>}
+         *
+         * @description
+         * Declares the types of the query parameters of the route, keyed by parameter name. A type can be 'string',
+         * 'number', 'boolean', 'date', 'array' or a function that coerces the value. Values of repeated parameters are
+         * coerced element-wise, and a missing 'array' parameter becomes an empty Array. The coerced values are passed to the
+         * {@link plat.routing.Router.queryParam|query transforms} and the view.
+         *
+         * @example
+         * { page: 'number', tags: 'array', archived: 'boolean' }
+         */
+        querySchema?: IObject<string | ((value: any) => any)>;
+
+        /**
+         * @name outlet
+         * @memberof plat.routing.IRouteMapping
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the outlet the route is navigated in. The route is matched against the part of the url
+         * for the outlet, i.e. 'details/:id' for '/inbox(panel:details/42)', and its view is shown in the ports
+         * that declare the same outlet.
+         */
+        outlet?: string;
+    }
+
+    /**
+     * @name IRouteResult
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @extends {Array<plat.routing.IRouteInfo>}
+     *
+     * @description
+     * The result of a recognized route.
+     */
+    export interface IRouteResult extends Array<IRouteInfo> {}
+
+    /**
+     * @name IRouteInfo
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @extends {plat.routing.IDelegateInfo}
+     *
+     * @description
+     * The information for a recognized route. Contains the delegate, which
+     * maps directly to a {@link plat.ui.ViewControl|ViewControl}.
+     */
+    export interface IRouteInfo extends IDelegateInfo {
+        /**
+         * @name delegate
+         * @memberof plat.routing.IRouteInfo
+         * @kind property
+         * @access public
+         *
+         * @type {plat.routing.IRouteMapping}
+         *
+         * @description
+         * Maps to a registered {@link plat.ui.ViewControl|ViewControl}.
+         */
+        delegate: IRouteMapping;
+
+        /**
+         * @name query
+         * @memberof plat.routing.IRouteInfo
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<any>}
+         *
+         * @description
+         * Query parameters for the route.
+         */
+        query?: IObject<any>;
+
+        /**
+         * @name resolved
+         * @memberof plat.routing.IRouteInfo
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<any>}
+         *
+         * @description
+         * The results of the {@link plat.routing.IRouteMapping.resolve|resolvers} for the route.
+         */
+        resolved?: IObject<any>;
+    }
+
+    /**
+     * @name IRouteTree
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes the routes configured for a {@link plat.routing.Router|Router} and its child routers.
+     */
+    export interface IRouteTree {
+        /**
+         * @name uid
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The unique id of the router.
+         */
+        uid: string;
+
+        /**
+         * @name isRoot
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the router is the root router.
+         */
+        isRoot: boolean;
+
+        /**
+         * @name routes
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {Array<plat.routing.IRouteTreeEntry>}
+         *
+         * @description
+         * The routes configured for the router, in the order they were configured.
+         */
+        routes: IRouteTreeEntry[];
+
+        /**
+         * @name paramTransforms
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {Array<string>}
+         *
+         * @description
+         * The parameters with transforms registered for every route.
+         */
+        paramTransforms: string[];
+
+        /**
+         * @name queryTransforms
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {Array<string>}
+         *
+         * @description
+         * The query parameters with transforms registered for every route.
+         */
+        queryTransforms: string[];
+
+        /**
+         * @name interceptors
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of interceptors registered for every route.
+         */
+        interceptors: number;
+
+        /**
+         * @name children
+         * @memberof plat.routing.IRouteTree
+         * @kind property
+         * @access public
+         *
+         * @type {Array<plat.routing.IRouteTree>}
+         *
+         * @description
+         * The route trees of the child routers.
+         */
+        children: IRouteTree[];
+    }
+
+    /**
+     * @name IRouteTreeEntry
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes a route in an {@link plat.routing.IRouteTree|IRouteTree}.
+     */
+    export interface IRouteTreeEntry {
+        /**
+         * @name pattern
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The pattern of the route.
+         */
+        pattern: string;
+
+        /**
+         * @name view
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The registered token of the view for the route.
+         */
+        view: string;
+
+        /**
+         * @name alias
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The alias of the route.
+         */
+        alias: string;
+
+        /**
+         * @name redirectTo
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {any}
+         *
+         * @description
+         * Where the route redirects to, if it is a redirect route.
+         */
+        redirectTo?: any;
+
+        /**
+         * @name lazy
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the view for the route is lazy-loaded and has not been loaded yet.
+         */
+        lazy: boolean;
+
+        /**
+         * @name paramTransforms
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {Array<string>}
+         *
+         * @description
+         * The parameters with transforms registered for the route.
+         */
+        paramTransforms: string[];
+
+        /**
+         * @name queryTransforms
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {Array<string>}
+         *
+         * @description
+         * The query parameters with transforms registered for the route.
+         */
+        queryTransforms: string[];
+
+        /**
+         * @name interceptors
+         * @memberof plat.routing.IRouteTreeEntry
+         * @kind property
+         * @access public
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of interceptors registered for the route.
+         */
+        interceptors: number;
+    }
+
+    /**
+     * @name IRouteExplanation
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Explains how a {@link plat.routing.Router|Router} and its child routers recognize a url.
+     */
+    export interface IRouteExplanation {
+        /**
+         * @name uid
+         * @memberof plat.routing.IRouteExplanation
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The unique id of the router.
+         */
+        uid: string;
+
+        /**
+         * @name url
+         * @memberof plat.routing.IRouteExplanation
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The url that was explained, relative to the router.
+         */
+        url: string;
+
+        /**
+         * @name routes
+         * @memberof plat.routing.IRouteExplanation
+         * @kind property
+         * @access public
+         *
+         * @type {plat.routing.IRecognizeExplanation}
+         *
+         * @description
+         * How the routes of the router recognize the url.
+         */
+        routes: IRecognizeExplanation;
+
+        /**
+         * @name childRoutes
+         * @memberof plat.routing.IRouteExplanation
+         * @kind property
+         * @access public
+         *
+         * @type {plat.routing.IRecognizeExplanation}
+         *
+         * @description
+         * How the routes of the router recognize the url when it contains a child route.
+         */
+        childRoutes: IRecognizeExplanation;
+
+        /**
+         * @name children
+         * @memberof plat.routing.IRouteExplanation
+         * @kind property
+         * @access public
+         *
+         * @type {Array<plat.routing.IRouteExplanation>}
+         *
+         * @description
+         * The explanations of the child routers for the child route, if a route with a child route was matched.
+         */
+        children: IRouteExplanation[];
+    }
+
+    /**
+     * @name INavigationInfo
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes a navigation of a {@link plat.routing.Router|Router}, dispatched with each of the navigation
+     * lifecycle events.
+     */
+    export interface INavigationInfo {
+        /**
+         * @name id
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         *
+         * @type {string}
          *
          * @description
-         * Removes childRoute from routeInfo
+         * A unique id for the navigation. The navigations of child routers share the id of the navigation
+         * of their parent, so overlapping navigations can be correlated.
+         */
+        id: string;
+
+        /**
+         * @name phase
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         * @optional
          *
-         * @param {plat.routing.IRouteInfo} info The route information.
+         * @type {string}
          *
-         * @returns {void}
+         * @description
+         * The lifecycle event that is being dispatched (e.g. 'navigationStarted').
          */
-        protected _sanitizeRouteInfo(info: IRouteInfo): void {
-            if (isObject(info)) {
-                if (info.parameters.hasOwnProperty('childRoute')) {
-                    const delegate = info.delegate;
-                    const pattern = delegate.pattern;
+        phase?: string;
 
-                    delegate.pattern = pattern.slice(
-                        0,
-                        pattern.length - __CHILD_ROUTE_LENGTH
-                    );
-                    deleteProperty(info.parameters, 'childRoute');
-                }
-            }
-        }
+        /**
+         * @name url
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The url being navigated to, relative to the router.
+         */
+        url: string;
 
         /**
-         * @name _clearInfo
-         * @memberof plat.routing.Router
-         * @kind function
-         * @access protected
+         * @name query
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.IObject<any>}
          *
          * @description
-         * Clears all the router information, essentially setting the router back to its initialized state.
+         * The query parameters being navigated to.
+         */
+        query?: IObject<any>;
+
+        /**
+         * @name previous
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
          *
-         * @returns {void}
+         * @type {plat.routing.IRouteInfo}
+         *
+         * @description
+         * The route information for the route being navigated from, undefined for the first navigation.
          */
-        protected _clearInfo(): void {
-            this._previousSegment = undefined;
-            this._previousPattern = undefined;
-            this._previousUrl = undefined;
-            this._previousQuery = undefined;
-            this.currentRouteInfo = undefined;
-            this.navigating = false;
-            forEach((child: Router): void => {
-                child._clearInfo();
-            }, this.children);
-        }
-    }
+        previous: IRouteInfo;
 
-    register.injectable(__Router, Router, null, __INSTANCE);
+        /**
+         * @name next
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         *
+         * @type {plat.routing.IRouteInfo}
+         *
+         * @description
+         * The route information for the route being navigated to.
+         */
+        next: IRouteInfo;
 
-    /**
-     * The injectable function for {@link plat.routing.IRouterStatic|IRouterStatic}
-     */
-    export function IRouterStatic(): IRouterStatic {
-        return Router;
+        /**
+         * @name error
+         * @memberof plat.routing.INavigationInfo
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {any}
+         *
+         * @description
+         * The reason the navigation was cancelled or errored.
+         */
+        error?: any;
     }
 
-    register.injectable(__RouterStatic, IRouterStatic);
-
     /**
-     * @name IRouterStatic
+     * @name IOutletUrl
      * @memberof plat.routing
      * @kind interface
      *
      * @description
-     * The static methods and properties on router
+     * A url separated into its primary route and the routes for its named outlets.
      */
-    export interface IRouterStatic {
+    export interface IOutletUrl {
         /**
-         * @name currentRouter
-         * @memberof plat.routing.IRouterStatic
-         * @kind function
+         * @name url
+         * @memberof plat.routing.IOutletUrl
+         * @kind property
          * @access public
-         * @static
+         *
+         * @type {string}
          *
          * @description
-         * Exposes the {@link plat.routing.Router.__currentRouter|current router} property. Also provides the
-         * ability to set the current router.
+         * The primary route.
+         */
+        url: string;
+
+        /**
+         * @name outlets
+         * @memberof plat.routing.IOutletUrl
+         * @kind property
+         * @access public
          *
-         * @param {plat.routing.Router} router Will set the current router.
+         * @type {plat.IObject<string>}
          *
-         * @returns {plat.routing.Router} The current router.
+         * @description
+         * The routes for the named outlets, keyed by outlet name.
          */
-        currentRouter(router?: Router): Router;
+        outlets: IObject<string>;
     }
 
     /**
-     * @name IRouteMapping
+     * @name IRedirectInfo
      * @memberof plat.routing
      * @kind interface
      *
      * @description
-     * A route mapping, used for registering and matching routes.
+     * Describes where to redirect a navigation to.
      */
-    export interface IRouteMapping {
+    export interface IRedirectInfo {
         /**
-         * @name pattern
-         * @memberof plat.routing.IRouteMapping
+         * @name url
+         * @memberof plat.routing.IRedirectInfo
          * @kind property
          * @access public
          *
          * @type {string}
          *
          * @description
-         * A pattern for the route (e.g. "/posts/:id")
+         * The url to redirect to.
          */
-        pattern: string;
+        url: string;
 
         /**
-         * @name view
-         * @memberof plat.routing.IRouteMapping
+         * @name query
+         * @memberof plat.routing.IRedirectInfo
          * @kind property
          * @access public
          *
-         * @type {any}
+         * @type {plat.IObject<any>}
          *
          * @description
-         * Either a Constructor for a registered {@link plat.ui.ViewControl|ViewControl}, or the registered token for
-         * that ViewControl.
+         * The query parameters for the url.
          */
-        view: any;
+        query?: IObject<any>;
 
         /**
-         * @name alias
-         * @memberof plat.routing.IRouteMapping
+         * @name replace
+         * @memberof plat.routing.IRedirectInfo
          * @kind property
          * @access public
          *
-         * @type {string}
+         * @type {boolean}
          *
          * @description
-         * An optional alias with which to associate this mapping. Alias is used over view when specified.
+         * Whether or not to replace the current history entry, defaults to true.
          */
-        alias?: string;
+        replace?: boolean;
     }
 
     /**
-     * @name IRouteResult
+     * @name IRouteGuard
      * @memberof plat.routing
      * @kind interface
      *
-     * @extends {Array<plat.routing.IRouteInfo>}
-     *
      * @description
-     * The result of a recognized route.
+     * An injectable that decides whether or not a route can be navigated to. Guards are declared
+     * on a {@link plat.routing.IRouteMapping|route mapping}.
      */
-    export interface IRouteResult extends Array<IRouteInfo> {}
+    export interface IRouteGuard {
+        /**
+         * @name canActivate
+         * @memberof plat.routing.IRouteGuard
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Decides whether or not the route can be navigated to.
+         *
+         * @param {plat.routing.IRouteInfo} routeInfo The information for the route.
+         *
+         * @returns {any} False (or a {@link plat.async.IPromise|Promise} that resolves with false) to reject the navigation,
+         * a url or {@link plat.routing.IRedirectInfo|IRedirectInfo} to redirect the navigation, anything else
+         * to allow it.
+         */
+        canActivate(routeInfo: IRouteInfo): any;
+    }
 
     /**
-     * @name IRouteInfo
+     * @name IRouteResolver
      * @memberof plat.routing
      * @kind interface
      *
-     * @extends {plat.routing.IDelegateInfo}
-     *
      * @description
-     * The information for a recognized route. Contains the delegate, which
-     * maps directly to a {@link plat.ui.ViewControl|ViewControl}.
+     * An injectable that loads data for a route before it is navigated to. Resolvers are declared
+     * on a {@link plat.routing.IRouteMapping|route mapping}.
      */
-    export interface IRouteInfo extends IDelegateInfo {
+    export interface IRouteResolver {
         /**
-         * @name delegate
-         * @memberof plat.routing.IRouteInfo
-         * @kind property
+         * @name resolve
+         * @memberof plat.routing.IRouteResolver
+         * @kind function
          * @access public
          *
-         * @type {plat.routing.IRouteMapping}
-         *
          * @description
-         * Maps to a registered {@link plat.ui.ViewControl|ViewControl}.
-         */
-        delegate: IRouteMapping;
-
-        /**
-         * @name query
-         * @memberof plat.routing.IRouteInfo
-         * @kind property
-         * @access public
+         * Loads the data for the route.
          *
-         * @type {plat.IObject<any>}
+         * @param {plat.routing.IRouteInfo} routeInfo The information for the route.
          *
-         * @description
-         * Query parameters for the route.
+         * @returns {any} The data, or a {@link plat.async.IPromise|Promise} that resolves with the data.
          */
-        query?: IObject<any>;
+        resolve(routeInfo: IRouteInfo): any;
     }
 
     /**
@@ -1810,6 +3912,70 @@ namespace plat.routing {
          * Set this to tell the router what view to navigate to.
          */
         view: any;
+
+        /**
+         * @name error
+         * @memberof plat.routing.IUnknownRouteInfo
+         * @kind property
+         * @access public
+         *
+         * @type {any}
+         *
+         * @description
+         * The error that occurred loading a lazy-loaded view for the segment. Set the `view` property to navigate to an
+         * error view instead.
+         */
+        error?: any;
+    }
+
+    /**
+     * @name IViewLoader
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes a lazy-loaded view that has not been loaded yet.
+     */
+    export interface IViewLoader {
+        /**
+         * @name mappings
+         * @memberof plat.routing.IViewLoader
+         * @kind property
+         * @access public
+         *
+         * @type {Array<plat.routing.IRouteMapping>}
+         *
+         * @description
+         * The route mappings to update with the loaded view.
+         */
+        mappings: IRouteMapping[];
+
+        /**
+         * @name promise
+         * @memberof plat.routing.IViewLoader
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.Promise<void>}
+         *
+         * @description
+         * The pending load, if the view is being loaded.
+         */
+        promise?: async.Promise<void>;
+
+        /**
+         * @name load
+         * @memberof plat.routing.IViewLoader
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Loads the view.
+         *
+         * @returns {any} A ViewControl Constructor or token, or a {@link plat.async.IPromise|Promise} that
+         * resolves with one.
+         */
+        load(): any;
     }
 
     /**
@@ -1832,6 +3998,20 @@ namespace plat.routing {
      * Describes an object that supports all the routing events (e.g. a {@link plat.ui.controls.Viewport|Viewport}).
      */
     export interface ISupportRouteNavigation {
+        /**
+         * @name outlet
+         * @memberof plat.routing.ISupportRouteNavigation
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the outlet the port shows. Ports without an outlet show the primary route.
+         */
+        outlet?: string;
+
         /**
          * @name canNavigateFrom
          * @memberof plat.routing.ISupportRouteNavigation
@@ -1896,5 +4076,34 @@ namespace plat.routing {
          * new ViewControl has finished instantiating.
          */
         navigateTo(routeInfo: IRouteInfo): async.Promise<any>;
+
+        /**
+         * @name showLoading
+         * @memberof plat.routing.ISupportRouteNavigation
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The router has matched a route whose view is being lazy-loaded. Here you can show
+         * a loading template until hideLoading is called.
+         *
+         * @param {plat.routing.IRouteInfo} routeInfo The information for the route being loaded.
+         *
+         * @returns {void}
+         */
+        showLoading?(routeInfo: IRouteInfo): void;
+
+        /**
+         * @name hideLoading
+         * @memberof plat.routing.ISupportRouteNavigation
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The lazy-loaded view has finished loading, or failed to load.
+         *
+         * @returns {void}
+         */
+        hideLoading?(): void;
     }
 }
@@ -70,6 +70,19 @@ namespace plat.routing {
          */
         protected _namedRoutes: IObject<INamedRoute> = {};
 
+        /**
+         * @name _routes
+         * @memberof plat.routing.RouteRecognizer
+         * @kind property
+         * @access protected
+         *
+         * @type {Array<plat.routing.IRegisteredRoute>}
+         *
+         * @description
+         * All the routes registered with this recognizer, in the order they were registered.
+         */
+        protected _routes: IRegisteredRoute[] = [];
+
         /**
          * @name register
          * @memberof plat.routing.RouteRecognizer
@@ -95,13 +108,14 @@ namespace plat.routing {
                 return;
             }
 
-            let finalState = this._rootState;
+            let finalStates: State[] = [this._rootState];
             const length = routes.length;
             const regex: string[] = ['^'];
             const types: ISegmentTypeCount = {
                 statics: 0,
                 dynamics: 0,
                 splats: 0,
+                constraints: 0,
             };
             const delegates: IDelegateParameterNames[] = [];
             let allSegments: BaseSegment[] = [];
@@ -110,13 +124,28 @@ namespace plat.routing {
             for (let i = 0; i < length; i += 1) {
                 segments = this._parse(routes[i], delegates, types);
                 allSegments = allSegments.concat(segments);
-                finalState = this._compile(segments, finalState, regex);
+                finalStates = this._compile(segments, finalStates, regex);
             }
 
-            finalState = this._finalize(finalState, regex);
-            finalState.delegates = delegates;
-            finalState.regex = new RegExp(`${regex.join('')}$`);
-            finalState.types = types;
+            finalStates = this._finalize(finalStates, regex);
+
+            const routeRegex = new RegExp(`${regex.join('')}$`);
+
+            for (const finalState of finalStates) {
+                finalState.delegates = delegates;
+                finalState.regex = routeRegex;
+                finalState.types = types;
+            }
+
+            this._routes.push({
+                pattern: routes
+                    .map((route: IRouteDelegate): string => route.pattern)
+                    .join(''),
+                name: isObject(options) ? options.name : undefined,
+                regex: routeRegex,
+                delegates: delegates,
+                states: finalStates,
+            });
 
             if (isObject(options) && isString(options.name)) {
                 this._namedRoutes[this._toLowerCase(options.name)] = {
@@ -152,7 +181,7 @@ namespace plat.routing {
                 path = path.substr(0, path.length - 1);
             }
 
-            solutions = this._filter(this._findStates(path));
+            solutions = this._filter(this._findStates(path), path);
 
             return this._link(solutions[0], path, isTrailingSlashDropped);
         }
@@ -165,13 +194,15 @@ namespace plat.routing {
          *
          * @description
          * Finds a {@link plat.routing.INamedRoute|INamedRoute} and generates a string
-         * if it exists. Uses the parameters object to generate dynamic routes.
+         * if it exists. Uses the parameters object to generate dynamic routes. Optional segments
+         * without a parameter are omitted.
          *
          * @param {string} name The named route with which to generate the route string.
          * @param {plat.IObject<string>} parameters The route parameters, in the case that the
          * named route is dynamic.
          *
-         * @returns {string} The generated route.
+         * @returns {string} The generated route, or undefined if a parameter does not satisfy the
+         * constraint of its segment.
          */
         public generate(name: string, parameters?: IObject<string>): string {
             name = this._toLowerCase(name);
@@ -179,6 +210,7 @@ namespace plat.routing {
             let output = '';
             let segments: BaseSegment[];
             let length: number;
+            let value: string;
 
             if (!isObject(route)) {
                 return;
@@ -194,8 +226,16 @@ namespace plat.routing {
                     continue;
                 }
 
+                value = segment.generate(parameters);
+
+                if (segment.optional && isNull(value)) {
+                    continue;
+                } else if (!segment.isValid(value)) {
+                    return;
+                }
+
                 output += '/';
-                output += segment.generate(parameters);
+                output += value;
             }
 
             output = this._addLeadingSlash(output);
@@ -251,6 +291,196 @@ namespace plat.routing {
             return isObject(this._namedRoutes[this._toLowerCase(name)]);
         }
 
+        /**
+         * @name routes
+         * @memberof plat.routing.RouteRecognizer
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Lists the routes registered with this recognizer, in the order they were registered.
+         *
+         * @returns {Array<plat.routing.IRouteDescription>} The registered routes.
+         */
+        public routes(): IRouteDescription[] {
+            return this._routes.map(
+                (route: IRegisteredRoute): IRouteDescription => {
+                    return {
+                        pattern: route.pattern,
+                        name: route.name,
+                        regex: route.regex,
+                        delegates: route.delegates.map(
+                            (delegate: IDelegateParameterNames): any =>
+                                delegate.delegate
+                        ),
+                    };
+                }
+            );
+        }
+
+        /**
+         * @name explain
+         * @memberof plat.routing.RouteRecognizer
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Recognizes a path the same way as {@link plat.routing.RouteRecognizer.recognize|recognize}, recording
+         * the {@link plat.routing.State|State} transitions that were tried for each character and the reason each
+         * registered route was or was not matched. Intended for debugging.
+         *
+         * @param {string} path The path to explain.
+         *
+         * @returns {plat.routing.IRecognizeExplanation} The explanation.
+         */
+        public explain(path: string): IRecognizeExplanation {
+            const recognize = this._State.recognize;
+            const transitions: IStateTransition[] = [];
+            let states: State[] = [this._rootState];
+            let failedAt = -1;
+            let isTrailingSlashDropped: boolean = false;
+
+            path = this._addLeadingSlash(path);
+            isTrailingSlashDropped = this._hasTrailingSlash(path);
+
+            if (isTrailingSlashDropped) {
+                path = path.substr(0, path.length - 1);
+            }
+
+            const length = path.length;
+
+            for (let i = 0; i < length; i += 1) {
+                const tried = states.reduce(
+                    (
+                        specifications: ICharacterSpecification[],
+                        state: State
+                    ): ICharacterSpecification[] => {
+                        return specifications.concat(
+                            state.nextStates.map(
+                                (next: State): ICharacterSpecification =>
+                                    next.specification
+                            )
+                        );
+                    },
+                    []
+                );
+
+                states = recognize(path[i], states);
+                transitions.push({
+                    index: i,
+                    character: path[i],
+                    tried: tried,
+                    matched: states.map(
+                        (state: State): ICharacterSpecification =>
+                            state.specification
+                    ),
+                });
+
+                if (states.length === 0) {
+                    failedAt = i;
+                    break;
+                }
+            }
+
+            const solutions = this._filter(states, path);
+            const best = solutions[0];
+            const routes = this._routes;
+            const candidates = routes.map(
+                (route: IRegisteredRoute): IRouteCandidate => {
+                    return {
+                        pattern: route.pattern,
+                        name: route.name,
+                        matched: false,
+                        reason: this._explainCandidate(
+                            route,
+                            path,
+                            states,
+                            solutions,
+                            failedAt
+                        ),
+                    };
+                }
+            );
+
+            for (let i = 0; i < candidates.length; i += 1) {
+                if (isObject(best) && routes[i].delegates === best.delegates) {
+                    candidates[i].matched = true;
+                }
+            }
+
+            return {
+                path: path,
+                matched: isObject(best),
+                transitions: transitions,
+                candidates: candidates,
+                result: this._link(best, path, isTrailingSlashDropped),
+            };
+        }
+
+        /**
+         * @name _explainCandidate
+         * @memberof plat.routing.RouteRecognizer
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines why a registered route was or was not matched for a path.
+         *
+         * @param {plat.routing.IRegisteredRoute} route The registered route.
+         * @param {string} path The path being recognized.
+         * @param {Array<plat.routing.State>} states The states reached after consuming the path.
+         * @param {Array<plat.routing.State>} solutions The filtered and sorted states.
+         * @param {number} failedAt The index of the character no state accepted, or -1.
+         *
+         * @returns {string} The reason.
+         */
+        protected _explainCandidate(
+            route: IRegisteredRoute,
+            path: string,
+            states: State[],
+            solutions: State[],
+            failedAt: number
+        ): string {
+            const reached = route.states.filter(
+                (state: State): boolean => states.indexOf(state) > -1
+            );
+
+            if (reached.length === 0) {
+                if (failedAt > -1) {
+                    return `No state accepts '${path[failedAt]}' at index ${failedAt}.`;
+                }
+
+                return 'The path does not match the segments of the route.';
+            }
+
+            const owned = reached.filter(
+                (state: State): boolean => state.delegates === route.delegates
+            );
+
+            if (owned.length === 0) {
+                return 'A route registered later with the same pattern replaced this route.';
+            }
+
+            const accepted = owned.filter(
+                (state: State): boolean => solutions.indexOf(state) > -1
+            );
+
+            if (accepted.length === 0) {
+                return 'The path does not satisfy the route constraints.';
+            } else if (accepted.indexOf(solutions[0]) > -1) {
+                return 'Matched.';
+            }
+
+            const preferred = this._routes.filter(
+                (other: IRegisteredRoute): boolean =>
+                    other.delegates === solutions[0].delegates
+            )[0];
+
+            return `The more specific route ${
+                isObject(preferred) ? preferred.pattern : ''
+            } was preferred.`;
+        }
+
         /**
          * @name _toLowerCase
          * @memberof plat.routing.RouteRecognizer
@@ -279,25 +509,37 @@ namespace plat.routing {
          * @access protected
          *
          * @description
-         * Finalizes a compiled route, adding a final state if necessary. If the state is equal to the
+         * Finalizes a compiled route, adding a final state if necessary. If a state is equal to the
          * root state for the recognizer, a new state will be created. This is because the root state does not
          * represent any route.
          *
-         * @param {plat.routing.State} state The state to finalize.
+         * @param {Array<plat.routing.State>} states The states to finalize.
          * @param {string} regex The regular expression string built for the compiled routes. Used to recognize
          * routes and associate them with the compiled routes.
          *
-         * @returns {plat.routing.State} The final state.
+         * @returns {Array<plat.routing.State>} The final states.
          */
-        protected _finalize(state: State, regex: string[]): State {
-            if (state === this._rootState) {
-                state = state.add({
-                    validCharacters: '/',
-                });
+        protected _finalize(states: State[], regex: string[]): State[] {
+            const rootState = this._rootState;
+            const index = states.indexOf(rootState);
+
+            if (index === -1) {
+                return states;
+            }
+
+            states = states.slice(0);
+            states[index] = rootState.add({
+                validCharacters: '/',
+            });
+
+            if (regex.length > 1) {
+                // every segment is optional, so the route also matches '/'
+                regex.splice(1, regex.length - 1, `(?:${regex.slice(1).join('')}|/)`);
+            } else {
                 regex.push('/');
             }
 
-            return state;
+            return states;
         }
 
         /**
@@ -321,13 +563,26 @@ namespace plat.routing {
             types: ISegmentTypeCount
         ): BaseSegment[] {
             const names: string[] = [];
-
-            delegates.push({
+            const defaults: IObject<string> = {};
+            const delegate: IDelegateParameterNames = {
                 delegate: route.delegate,
                 names: names,
-            });
+            };
+
+            delegates.push(delegate);
+
+            const segments = this._BaseSegmentFactory.parse(
+                route.pattern,
+                names,
+                types,
+                defaults
+            );
 
-            return this._BaseSegmentFactory.parse(route.pattern, names, types);
+            if (!isEmpty(defaults)) {
+                delegate.defaults = defaults;
+            }
+
+            return segments;
         }
 
         /**
@@ -337,22 +592,25 @@ namespace plat.routing {
          * @access protected
          *
          * @description
-         * Compiles a list of segments into a series of {@link plat.routing.State|states}.
+         * Compiles a list of segments into a series of {@link plat.routing.State|states}. An optional
+         * segment branches the compilation, so the states before and after it are both kept.
          *
          * @param {Array<plat.routing.BaseSegment>} segments The segments to compile.
-         * @param {plat.routing.State} state The initial state used to compile.
+         * @param {Array<plat.routing.State>} states The initial states used to compile.
          * @param {Array<string>} regex A regular expression string to build in order to match the segments.
          *
-         * @returns {plat.routing.State} The final state obtained from compilation.
+         * @returns {Array<plat.routing.State>} The final states obtained from compilation.
          */
         protected _compile(
             segments: BaseSegment[],
-            state: State,
+            states: State[],
             regex: string[]
-        ): State {
+        ): State[] {
             const length = segments.length;
             const compile = this._State.compile;
             let segment: BaseSegment;
+            let nextStates: State[];
+            let next: State;
 
             for (let i = 0; i < length; i += 1) {
                 segment = segments[i];
@@ -361,12 +619,25 @@ namespace plat.routing {
                     continue;
                 }
 
-                state = state.add({ validCharacters: '/' });
-                state = compile(segment, state);
-                regex.push(`/${segment.regex}`);
+                nextStates = segment.optional ? states.slice(0) : [];
+
+                for (const state of states) {
+                    next = compile(segment, state.add({ validCharacters: '/' }));
+
+                    if (nextStates.indexOf(next) === -1) {
+                        nextStates.push(next);
+                    }
+                }
+
+                states = nextStates;
+                regex.push(
+                    segment.optional
+                        ? `(?:/${segment.regex})?`
+                        : `/${segment.regex}`
+                );
             }
 
-            return state;
+            return states;
         }
 
         /**
@@ -447,22 +718,34 @@ namespace plat.routing {
          * @access protected
          *
          * @description
-         * Filters out states with no delegates, and sorts the states.
+         * Filters out states with no delegates, as well as states whose route constraints do not
+         * match the path, and sorts the states.
          *
          * @param {Array<plat.routing.State>} states The states to filter.
+         * @param {string} path? The path being recognized.
          *
          * @returns {Array<plat.routing.State>} The filtered and sorted states
          */
-        protected _filter(states: State[]): State[] {
+        protected _filter(states: State[], path?: string): State[] {
             const length = states.length;
             const solutions: State[] = [];
             let state: State;
 
             for (let i = 0; i < length; i += 1) {
                 state = states[i];
-                if (isArray(state.delegates)) {
-                    solutions.push(state);
+                if (!isArray(state.delegates)) {
+                    continue;
                 }
+
+                if (
+                    isString(path) &&
+                    state.types.constraints > 0 &&
+                    !state.regex.test(path)
+                ) {
+                    continue;
+                }
+
+                solutions.push(state);
             }
 
             return this._State.sort(solutions);
@@ -622,6 +905,320 @@ namespace plat.routing {
         delegates: IDelegateParameterNames[];
     }
 
+    /**
+     * @name IRegisteredRoute
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * A route registered with a {@link plat.routing.RouteRecognizer|RouteRecognizer}.
+     */
+    export interface IRegisteredRoute {
+        /**
+         * @name pattern
+         * @memberof plat.routing.IRegisteredRoute
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The full pattern of the route.
+         */
+        pattern: string;
+
+        /**
+         * @name name
+         * @memberof plat.routing.IRegisteredRoute
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the route, if it was registered with one.
+         */
+        name?: string;
+
+        /**
+         * @name regex
+         * @memberof plat.routing.IRegisteredRoute
+         * @kind property
+         *
+         * @type {RegExp}
+         *
+         * @description
+         * The regular expression used to link the route.
+         */
+        regex: RegExp;
+
+        /**
+         * @name delegates
+         * @memberof plat.routing.IRegisteredRoute
+         * @kind property
+         *
+         * @type {Array<plat.routing.IDelegateParameterNames>}
+         *
+         * @description
+         * The delegates for the route.
+         */
+        delegates: IDelegateParameterNames[];
+
+        /**
+         * @name states
+         * @memberof plat.routing.IRegisteredRoute
+         * @kind property
+         *
+         * @type {Array<plat.routing.State>}
+         *
+         * @description
+         * The final states compiled for the route.
+         */
+        states: State[];
+    }
+
+    /**
+     * @name IRouteDescription
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes a route registered with a {@link plat.routing.RouteRecognizer|RouteRecognizer}.
+     */
+    export interface IRouteDescription {
+        /**
+         * @name pattern
+         * @memberof plat.routing.IRouteDescription
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The full pattern of the route.
+         */
+        pattern: string;
+
+        /**
+         * @name name
+         * @memberof plat.routing.IRouteDescription
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the route, if it was registered with one.
+         */
+        name?: string;
+
+        /**
+         * @name regex
+         * @memberof plat.routing.IRouteDescription
+         * @kind property
+         *
+         * @type {RegExp}
+         *
+         * @description
+         * The regular expression used to link the route.
+         */
+        regex: RegExp;
+
+        /**
+         * @name delegates
+         * @memberof plat.routing.IRouteDescription
+         * @kind property
+         *
+         * @type {Array<any>}
+         *
+         * @description
+         * The delegates registered for the route.
+         */
+        delegates: any[];
+    }
+
+    /**
+     * @name IStateTransition
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes the {@link plat.routing.State|State} transitions tried for a character of a path.
+     */
+    export interface IStateTransition {
+        /**
+         * @name index
+         * @memberof plat.routing.IStateTransition
+         * @kind property
+         *
+         * @type {number}
+         *
+         * @description
+         * The index of the character in the path.
+         */
+        index: number;
+
+        /**
+         * @name character
+         * @memberof plat.routing.IStateTransition
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The character.
+         */
+        character: string;
+
+        /**
+         * @name tried
+         * @memberof plat.routing.IStateTransition
+         * @kind property
+         *
+         * @type {Array<plat.routing.ICharacterSpecification>}
+         *
+         * @description
+         * The specifications of the next states that were tried.
+         */
+        tried: ICharacterSpecification[];
+
+        /**
+         * @name matched
+         * @memberof plat.routing.IStateTransition
+         * @kind property
+         *
+         * @type {Array<plat.routing.ICharacterSpecification>}
+         *
+         * @description
+         * The specifications of the next states that accepted the character.
+         */
+        matched: ICharacterSpecification[];
+    }
+
+    /**
+     * @name IRouteCandidate
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Describes whether or not a registered route was matched for a path, and why.
+     */
+    export interface IRouteCandidate {
+        /**
+         * @name pattern
+         * @memberof plat.routing.IRouteCandidate
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The full pattern of the route.
+         */
+        pattern: string;
+
+        /**
+         * @name name
+         * @memberof plat.routing.IRouteCandidate
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the route, if it was registered with one.
+         */
+        name?: string;
+
+        /**
+         * @name matched
+         * @memberof plat.routing.IRouteCandidate
+         * @kind property
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the route was the one matched for the path.
+         */
+        matched: boolean;
+
+        /**
+         * @name reason
+         * @memberof plat.routing.IRouteCandidate
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * Why the route was or was not matched.
+         */
+        reason: string;
+    }
+
+    /**
+     * @name IRecognizeExplanation
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Explains how a {@link plat.routing.RouteRecognizer|RouteRecognizer} recognized a path.
+     */
+    export interface IRecognizeExplanation {
+        /**
+         * @name path
+         * @memberof plat.routing.IRecognizeExplanation
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The normalized path that was recognized.
+         */
+        path: string;
+
+        /**
+         * @name matched
+         * @memberof plat.routing.IRecognizeExplanation
+         * @kind property
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not a route was matched.
+         */
+        matched: boolean;
+
+        /**
+         * @name transitions
+         * @memberof plat.routing.IRecognizeExplanation
+         * @kind property
+         *
+         * @type {Array<plat.routing.IStateTransition>}
+         *
+         * @description
+         * The state transitions tried for each character of the path, up to the first character no state accepted.
+         */
+        transitions: IStateTransition[];
+
+        /**
+         * @name candidates
+         * @memberof plat.routing.IRecognizeExplanation
+         * @kind property
+         *
+         * @type {Array<plat.routing.IRouteCandidate>}
+         *
+         * @description
+         * Every registered route, with the reason it was or was not matched.
+         */
+        candidates: IRouteCandidate[];
+
+        /**
+         * @name result
+         * @memberof plat.routing.IRecognizeExplanation
+         * @kind property
+         *
+         * @type {plat.routing.IRecognizeResult}
+         *
+         * @description
+         * The result of recognizing the path, undefined if no route was matched.
+         */
+        result: IRecognizeResult;
+    }
+
     /**
      * @name IRouteDelegate
      * @memberof plat.routing
@@ -87,6 +87,19 @@ namespace plat.routing {
          */
         public regex: string = '';
 
+        /**
+         * @name optional
+         * @memberof plat.routing.BaseSegment
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the segment can be omitted from a path.
+         */
+        public optional: boolean = false;
+
         /**
          * @name regex
          * @memberof plat.routing.BaseSegment
@@ -114,13 +127,15 @@ namespace plat.routing {
          * @param {string} route The route to parse.
          * @param {Array<string>} names An array to populate with dynamic/splat segment names
          * @param {plat.routing.ISegmentTypeCount} types An object to use for counting segment types in the route.
+         * @param {plat.IObject<string>} defaults? An object to populate with the default values of optional dynamic segments.
          *
          * @returns {Array<plat.routing.BaseSegment>} The parsed segments.
          */
         public static parse(
             route: string,
             names: string[],
-            types: ISegmentTypeCount
+            types: ISegmentTypeCount,
+            defaults?: IObject<string>
         ): BaseSegment[] {
             if (!isString(route) || !isArray(names) || !isObject(types)) {
                 return [];
@@ -158,12 +173,26 @@ namespace plat.routing {
                         findSegment(
                             name,
                             __DynamicSegmentInstance,
-                            dynamicSegments
+                            dynamicSegments,
+                            segment,
+                            {
+                                constraint: match[2],
+                                optional: isString(match[3]),
+                                defaultValue: match[4],
+                            }
                         )
                     );
                     names.push(name);
                     types.dynamics += 1;
 
+                    if (isString(match[2])) {
+                        types.constraints += 1;
+                    }
+
+                    if (isString(match[4]) && isObject(defaults)) {
+                        defaults[name] = match[4];
+                    }
+
                     continue;
                 }
 
@@ -207,19 +236,23 @@ namespace plat.routing {
          * @param {string} name The name of the segment to look for.
          * @param {string} token The token used to {@link plat.acquire|acquire} a new segment if necessary.
          * @param {plat.IObject<plat.routing.BaseSegment>} cache The cache in which to look for/store the segment.
+         * @param {string} key? The key for the segment in the cache, defaults to the name.
+         * @param {plat.routing.ISegmentOptions} options? The options for initializing a new segment.
          *
          * @returns {plat.routing.BaseSegment} The located segment.
          */
         private static __findSegment(
             name: string,
             token: string,
-            cache: IObject<BaseSegment>
+            cache: IObject<BaseSegment>,
+            key: string = name,
+            options?: ISegmentOptions
         ): BaseSegment {
-            let segment = cache[name];
+            let segment = cache[key];
 
             if (!isObject(segment)) {
-                segment = cache[name] = <BaseSegment>acquire(token);
-                segment.initialize(name);
+                segment = cache[key] = <BaseSegment>acquire(token);
+                segment.initialize(name, options);
             }
 
             return segment;
@@ -235,10 +268,11 @@ namespace plat.routing {
          * Initializes the segment.
          *
          * @param {string} name? The name for the new segment.
+         * @param {plat.routing.ISegmentOptions} options? The options for the new segment.
          *
          * @returns {void}
          */
-        public initialize(name?: string): void {
+        public initialize(name?: string, options?: ISegmentOptions): void {
             this.name = name;
         }
 
@@ -286,6 +320,23 @@ namespace plat.routing {
         public generate(parameters?: IObject<string>): string {
             return this.name;
         }
+
+        /**
+         * @name isValid
+         * @memberof plat.routing.BaseSegment
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether or not a generated value satisfies the segment.
+         *
+         * @param {string} value The generated value.
+         *
+         * @returns {boolean}
+         */
+        public isValid(value: string): boolean {
+            return true;
+        }
     }
 
     /**
@@ -546,6 +597,173 @@ namespace plat.routing {
             invalidCharacters: '/',
             repeat: true,
         };
+
+        /**
+         * @name constraint
+         * @memberof plat.routing.DynamicSegment
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * A regular expression string the value of the segment must match.
+         */
+        public constraint: string;
+
+        /**
+         * @name defaultValue
+         * @memberof plat.routing.DynamicSegment
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The value to use for an optional segment that is omitted from a path.
+         */
+        public defaultValue: string;
+
+        /**
+         * @name _constraintRegex
+         * @memberof plat.routing.DynamicSegment
+         * @kind property
+         * @access protected
+         *
+         * @type {RegExp}
+         *
+         * @description
+         * A regular expression for validating generated values against the constraint.
+         */
+        protected _constraintRegex: RegExp;
+
+        /**
+         * @name initialize
+         * @memberof plat.routing.DynamicSegment
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Initializes the segment.
+         *
+         * @param {string} name? The name for the new segment.
+         * @param {plat.routing.ISegmentOptions} options? The options for the new segment.
+         *
+         * @returns {void}
+         */
+        public initialize(name?: string, options?: ISegmentOptions): void {
+            super.initialize(name);
+
+            if (!isObject(options)) {
+                return;
+            }
+
+            const constraint = options.constraint;
+
+            this.optional = options.optional === true;
+            this.defaultValue = options.defaultValue;
+
+            if (isString(constraint)) {
+                this.constraint = constraint;
+                this.regex = `(${this._nonCapturing(constraint)})`;
+                this._constraintRegex = new RegExp(`^(?:${constraint})$`);
+                this._specification = {
+                    invalidCharacters: '/',
+                    repeat: true,
+                    constraint: constraint,
+                };
+            }
+        }
+
+        /**
+         * @name generate
+         * @memberof plat.routing.DynamicSegment
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Generates a new segment, using the input parameters. An optional segment generates
+         * undefined when its parameter is missing or equal to its default value.
+         *
+         * @param {plat.IObject<string>} parameters? The input parameters for the segment.
+         *
+         * @returns {string} The generated segment.
+         */
+        public generate(parameters?: IObject<string>): string {
+            const value = super.generate(parameters);
+
+            if (this.optional && (isNull(value) || value === this.defaultValue)) {
+                return;
+            }
+
+            return value;
+        }
+
+        /**
+         * @name isValid
+         * @memberof plat.routing.DynamicSegment
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether or not a generated value satisfies the constraint of the segment.
+         *
+         * @param {string} value The generated value.
+         *
+         * @returns {boolean}
+         */
+        public isValid(value: string): boolean {
+            if (!isObject(this._constraintRegex)) {
+                return true;
+            }
+
+            return isString(value) && this._constraintRegex.test(value);
+        }
+
+        /**
+         * @name _nonCapturing
+         * @memberof plat.routing.DynamicSegment
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Converts the capturing groups in a constraint to non-capturing groups. The route regex
+         * maps its capturing groups to parameters by index, so a group in a constraint would
+         * shift the values of every later parameter.
+         *
+         * @param {string} constraint The constraint to convert.
+         *
+         * @returns {string} The converted constraint.
+         */
+        protected _nonCapturing(constraint: string): string {
+            const length = constraint.length;
+            let result = '';
+            let inClass = false;
+            let char: string;
+
+            for (let i = 0; i < length; i += 1) {
+                char = constraint[i];
+
+                if (char === '\\') {
+                    result += char + constraint.charAt(i + 1);
+                    i += 1;
+                    continue;
+                }
+
+                if (inClass) {
+                    inClass = char !== ']';
+                } else if (char === '[') {
+                    inClass = true;
+                } else if (char === '(' && constraint[i + 1] !== '?') {
+                    result += '(?:';
+                    continue;
+                }
+
+                result += char;
+            }
+
+            return result;
+        }
     }
 
     register.injectable(
@@ -599,6 +817,65 @@ namespace plat.routing {
          * Whether or not the character should repeat.
          */
         repeat?: boolean;
+
+        /**
+         * @name constraint
+         * @memberof plat.routing.ICharacterSpecification
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The constraint of a dynamic segment. Characters of segments with different constraints
+         * are compiled into separate states.
+         */
+        constraint?: string;
+    }
+
+    /**
+     * @name ISegmentOptions
+     * @memberof plat.routing
+     * @kind interface
+     *
+     * @description
+     * Contains the options parsed from a dynamic segment.
+     */
+    export interface ISegmentOptions {
+        /**
+         * @name constraint
+         * @memberof plat.routing.ISegmentOptions
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * A regular expression string the value of the segment must match (e.g. `:id(\d+)`).
+         */
+        constraint?: string;
+
+        /**
+         * @name optional
+         * @memberof plat.routing.ISegmentOptions
+         * @kind property
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the segment can be omitted from a path (e.g. `:page?`).
+         */
+        optional?: boolean;
+
+        /**
+         * @name defaultValue
+         * @memberof plat.routing.ISegmentOptions
+         * @kind property
+         *
+         * @type {string}
+         *
+         * @description
+         * The value to use when an optional segment is omitted (e.g. `:page?=1`).
+         */
+        defaultValue?: string;
     }
 
     /**
@@ -647,5 +924,17 @@ namespace plat.routing {
          * A count of how many splat segments exist in the route.
          */
         splats: number;
+
+        /**
+         * @name constraints
+         * @memberof plat.routing.ISegmentTypeCount
+         * @kind property
+         *
+         * @type {number}
+         *
+         * @description
+         * A count of how many dynamic segments in the route have a constraint.
+         */
+        constraints: number;
     }
 }
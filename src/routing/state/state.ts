@@ -126,7 +126,9 @@ namespace plat.routing {
             const result: IRecognizeResult = [];
             let matchIndex = 1;
             let names: string[];
+            let defaults: IObject<string>;
             let parameters: any;
+            let value: string;
             let j: number;
             let jLength: number;
             let delegate: IDelegateParameterNames;
@@ -134,12 +136,23 @@ namespace plat.routing {
             for (let i = 0; i < length; i += 1) {
                 delegate = delegates[i];
                 names = delegate.names;
+                defaults = delegate.defaults;
                 parameters = {};
                 jLength = names.length;
 
                 for (j = 0; j < jLength; j += 1) {
-                    parameters[names[j]] = matches[matchIndex];
+                    value = matches[matchIndex];
                     matchIndex += 1;
+
+                    if (isUndefined(value)) {
+                        if (!isObject(defaults) || !isString(defaults[names[j]])) {
+                            continue;
+                        }
+
+                        value = defaults[names[j]];
+                    }
+
+                    parameters[names[j]] = value;
                 }
 
                 result.push({
@@ -194,6 +207,7 @@ namespace plat.routing {
          * Favors less splat (*) segments
          * Favors less dynamic (:) segments
          * Favors more static segments
+         * Favors more constrained dynamic (:id(\d+)) segments
          *
          *
          * @param {Array<plat.routing.State>} states The states to sort.
@@ -247,7 +261,7 @@ namespace plat.routing {
                     return (bStatics = aStatics);
                 }
 
-                return 0;
+                return bTypes.constraints - aTypes.constraints;
             });
         }
 
@@ -378,6 +392,7 @@ namespace plat.routing {
         protected _find(spec: ICharacterSpecification): State {
             const validChars = spec.validCharacters;
             const invalidChars = spec.invalidCharacters;
+            const constraint = spec.constraint;
             let s: ICharacterSpecification;
             let found: State;
 
@@ -386,7 +401,8 @@ namespace plat.routing {
 
                 if (
                     s.validCharacters === validChars &&
-                    s.invalidCharacters === invalidChars
+                    s.invalidCharacters === invalidChars &&
+                    s.constraint === constraint
                 ) {
                     found = child;
 
@@ -470,5 +486,17 @@ namespace plat.routing {
          * Contains the parameter names for a given delegate
          */
         names: string[];
+
+        /**
+         * @name defaults
+         * @memberof plat.routing.IDelegateParameterNames
+         * @kind property
+         *
+         * @type {plat.IObject<string>}
+         *
+         * @description
+         * Contains the default values of optional parameters for a given delegate
+         */
+        defaults?: IObject<string>;
     }
 }
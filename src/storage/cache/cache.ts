@@ -269,6 +269,21 @@ namespace plat.storage {
             return internalCaches[this.__uid][key];
         }
 
+        /**
+         * @name keys
+         * @memberof plat.storage.Cache
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Retrieves the keys of all the objects stored in an {@link plat.storage.Cache|Cache}.
+         *
+         * @returns {Array<string>} The keys in the {@link plat.storage.Cache|Cache}.
+         */
+        public keys(): string[] {
+            return Object.keys(internalCaches[this.__uid]);
+        }
+
         /**
          * @name remove
          * @memberof plat.storage.Cache
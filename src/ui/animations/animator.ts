@@ -1470,6 +1470,23 @@ namespace plat.ui.animations {
         ): AnimationPromise {
             return <AnimationPromise>(<any>super.catch<U>(<any>onRejected));
         }
+
+        /**
+         * @name finally
+         * @memberof plat.ui.animations.AnimationPromise
+         * @kind function
+         * @access public
+         *
+         * @description
+         * A method called when the promise settles, whether it fulfills or rejects.
+         *
+         * @param {() => any} onFinally A method called when the promise settles.
+         *
+         * @returns {plat.ui.animations.AnimationPromise} A promise that settles the same way as this promise.
+         */
+        public finally?(onFinally?: (() => any) | undefined | null): AnimationPromise {
+            return <AnimationPromise>(<any>super.finally(onFinally));
+        }
     }
 
     /**
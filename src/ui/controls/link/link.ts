@@ -146,6 +146,45 @@ namespace plat.ui.controls {
          */
         protected _allowClick = false;
 
+        /**
+         * @name _removeVisibleListener
+         * @memberof plat.ui.controls.Link
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * A method for no longer waiting for the element to become visible in order to prefetch.
+         */
+        protected _removeVisibleListener: IRemoveListener = noop;
+
+        /**
+         * @name _prefetchedHref
+         * @memberof plat.ui.controls.Link
+         * @kind property
+         * @access protected
+         *
+         * @type {string}
+         *
+         * @description
+         * The last href that was prefetched.
+         */
+        protected _prefetchedHref: string;
+
+        /**
+         * @name _activeClasses
+         * @memberof plat.ui.controls.Link
+         * @kind property
+         * @access protected
+         *
+         * @type {Array<string>}
+         *
+         * @description
+         * The active classes currently applied to the element.
+         */
+        protected _activeClasses: string[] = [];
+
         /**
          * @name initialize
          * @memberof plat.ui.controls.Link
@@ -173,7 +212,8 @@ namespace plat.ui.controls {
          * @access public
          *
          * @description
-         * Calls to normalize the href for internal links and initializes the tap event.
+         * Calls to normalize the href for internal links, initializes the tap event,
+         * tracks whether the link is active and sets up prefetching if specified in the options.
          *
          * @returns {void}
          */
@@ -199,9 +239,29 @@ namespace plat.ui.controls {
             }
 
             this.addEventListener(this.element, __tap, this._handleTap, false);
+            this.on(__routeChanged, (ev: events.DispatchEvent, utils: web.UrlUtils): void => {
+                this._updateActive(utils);
+            });
 
             setHref();
             options.observe(setHref);
+
+            switch (options.value.prefetch) {
+                case 'hover':
+                    this.addEventListener(this.element, 'mouseenter', this._prefetch, false);
+                    this.addEventListener(this.element, 'focus', this._prefetch, false);
+                    break;
+                case 'visible':
+                    this._removeVisibleListener = this.dom.whenVisible(
+                        this._prefetch.bind(this),
+                        this.element
+                    );
+                    break;
+                case 'eager':
+                    this._prefetch();
+                    break;
+                default:
+            }
         }
 
         /**
@@ -211,7 +271,8 @@ namespace plat.ui.controls {
          * @access public
          *
          * @description
-         * Sets the element href to the one formed using the associated options.
+         * Sets the element href to the one formed using the associated options, and updates
+         * the active classes for the href.
          *
          * @returns {void}
          */
@@ -222,6 +283,8 @@ namespace plat.ui.controls {
                 const element = this.element;
                 element.href = href;
             }
+
+            this._updateActive();
         }
 
         /**
@@ -264,14 +327,178 @@ namespace plat.ui.controls {
          * @access public
          *
          * @description
-         * Calls to remove the click eater after a delay.
+         * Calls to remove the click eater after a delay and stops waiting to prefetch.
          *
          * @returns {void}
          */
         public dispose(): void {
+            this._removeVisibleListener();
             defer(this._removeClickListener, 3000);
         }
 
+        /**
+         * @name _prefetch
+         * @memberof plat.ui.controls.Link
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Prefetches the templates of the views for the href without navigating.
+         *
+         * @returns {void}
+         */
+        protected _prefetch(): void {
+            const href = this.getHref();
+            const _browser = this._browser;
+
+            if (
+                isEmpty(href) ||
+                href === this._prefetchedHref ||
+                _browser.isCrossDomain(href)
+            ) {
+                return;
+            }
+
+            this._prefetchedHref = href;
+            this._router.prefetch(_browser.urlUtils(href).pathname);
+        }
+
+        /**
+         * @name _updateActive
+         * @memberof plat.ui.controls.Link
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Adds or removes the active classes depending on whether the href matches the current url. The link
+         * is exact-active when its path equals the current path, and active when the current path equals or
+         * is nested under its path (or only when exact-active if the exact option is set). Query parameters
+         * are ignored unless the includeQuery option is set, and named outlets are never compared.
+         *
+         * @param {plat.web.UrlUtils} utils? The current url, defaults to the browser url.
+         *
+         * @returns {void}
+         */
+        protected _updateActive(utils?: web.UrlUtils): void {
+            const options = this.options;
+
+            if (!isObject(options) || !isObject(options.value)) {
+                return;
+            }
+
+            const value = options.value;
+            const _browser = this._browser;
+            const href = this.getHref();
+            const classes: string[] = [];
+
+            if (!isEmpty(href) && !_browser.isCrossDomain(href)) {
+                if (!isObject(utils)) {
+                    utils = _browser.urlUtils();
+                }
+
+                const target = _browser.urlUtils(href);
+                const path = this._normalizePath(target.pathname);
+                const current = this._normalizePath(utils.pathname);
+                const includeQuery = value.includeQuery === true;
+                const exactActive =
+                    path === current &&
+                    (!includeQuery || this._queryMatches(target.query, utils.query, true));
+                const active =
+                    value.exact === true
+                        ? exactActive
+                        : (path === current || path === '' || current.indexOf(`${path}/`) === 0) &&
+                          (!includeQuery || this._queryMatches(target.query, utils.query, false));
+
+                if (active) {
+                    classes.push(isString(value.activeClass) ? value.activeClass : `${__Link}-active`);
+                }
+
+                if (exactActive) {
+                    classes.push(
+                        isString(value.exactActiveClass) ? value.exactActiveClass : `${__Link}-exact-active`
+                    );
+                }
+            }
+
+            const dom = this.dom;
+            const element = this.element;
+
+            forEach((className: string): void => {
+                if (classes.indexOf(className) === -1) {
+                    dom.removeClass(element, className);
+                }
+            }, this._activeClasses);
+
+            forEach((className: string): void => {
+                dom.addClass(element, className);
+            }, classes);
+
+            this._activeClasses = classes;
+        }
+
+        /**
+         * @name _normalizePath
+         * @memberof plat.ui.controls.Link
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Removes the named outlets and the trailing slash from a path in order to compare it.
+         *
+         * @param {string} path The path.
+         *
+         * @returns {string} The normalized path.
+         */
+        protected _normalizePath(path: string): string {
+            if (!isString(path)) {
+                return '';
+            }
+
+            const start = path.indexOf('(');
+
+            if (start > -1 && path[path.length - 1] === ')') {
+                path = path.slice(0, start);
+            }
+
+            if (path[path.length - 1] === '/') {
+                path = path.slice(0, -1);
+            }
+
+            return path;
+        }
+
+        /**
+         * @name _queryMatches
+         * @memberof plat.ui.controls.Link
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines if the query of the href matches the current query.
+         *
+         * @param {plat.IObject<any>} query The query of the href.
+         * @param {plat.IObject<any>} current The current query.
+         * @param {boolean} exact Whether or not the current query can have additional parameters.
+         *
+         * @returns {boolean} Whether or not the queries match.
+         */
+        protected _queryMatches(
+            query: IObject<any>,
+            current: IObject<any>,
+            exact: boolean
+        ): boolean {
+            query = isObject(query) ? query : {};
+            current = isObject(current) ? current : {};
+
+            if (exact && Object.keys(query).length !== Object.keys(current).length) {
+                return false;
+            }
+
+            return !some((value: any, key: string): boolean => {
+                return JSON.stringify(value) !== JSON.stringify(current[key]);
+            }, query);
+        }
+
         /**
          * @name _handleClick
          * @memberof plat.ui.controls.Link
@@ -388,6 +615,81 @@ namespace plat.ui.controls {
          * registered name of the view, or the registered Constructor.
          */
         view: any;
+
+        /**
+         * @name prefetch
+         * @memberof plat.ui.controls.ILinkOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * Prefetches the templates of the views for the link without navigating. Can be 'hover' (when the
+         * link is hovered or focused), 'visible' (when the link becomes visible) or 'eager' (when the link
+         * is loaded). By default nothing is prefetched.
+         */
+        prefetch?: string;
+
+        /**
+         * @name activeClass
+         * @memberof plat.ui.controls.ILinkOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The class added while the current route equals or is nested under the href. Defaults
+         * to 'plat-link-active'.
+         */
+        activeClass?: string;
+
+        /**
+         * @name exactActiveClass
+         * @memberof plat.ui.controls.ILinkOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The class added while the current route equals the href. Defaults to 'plat-link-exact-active'.
+         */
+        exactActiveClass?: string;
+
+        /**
+         * @name exact
+         * @memberof plat.ui.controls.ILinkOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Only adds the active class when the current route equals the href, instead of also when
+         * it is nested under the href.
+         */
+        exact?: boolean;
+
+        /**
+         * @name includeQuery
+         * @memberof plat.ui.controls.ILinkOptions
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Compares the query parameters as well. The link is active when the current query contains
+         * the query of the href, and exact-active when the queries are equal.
+         */
+        includeQuery?: boolean;
     }
 
     register.control(__Link, Link);
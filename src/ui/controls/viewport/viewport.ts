@@ -54,6 +54,20 @@ namespace plat.ui.controls {
          */
         public options: observable.IObservableProperty<IViewportOptions>;
 
+        /**
+         * @name outlet
+         * @memberof plat.ui.controls.Viewport
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the outlet this Viewport shows, as specified in the options. A Viewport without an outlet
+         * shows the primary route.
+         */
+        public outlet: string;
+
         /**
          * @name _Router
          * @memberof plat.ui.controls.Viewport
@@ -223,6 +237,19 @@ namespace plat.ui.controls {
          */
         protected _animate: boolean;
 
+        /**
+         * @name _loadingElement
+         * @memberof plat.ui.controls.Viewport
+         * @kind property
+         * @access protected
+         *
+         * @type {HTMLElement}
+         *
+         * @description
+         * The element containing the loading template, while a lazy-loaded view is loading.
+         */
+        protected _loadingElement: HTMLElement;
+
         /**
          * @name initialize
          * @memberof plat.ui.controls.Viewport
@@ -261,8 +288,14 @@ namespace plat.ui.controls {
          * @returns {void}
          */
         public loaded(): void {
+            const options = isObject(this.options) ? this.options.value : undefined;
             const animate = (this._animate =
-                isObject(this.options) && this.options.value.animate === true);
+                isObject(options) && options.animate === true);
+
+            if (isObject(options) && isString(options.outlet)) {
+                this.outlet = options.outlet;
+            }
+
             if (animate) {
                 this.dom.addClass(this.element, `${__Viewport}-animate`);
             }
@@ -414,19 +447,19 @@ namespace plat.ui.controls {
             manager.initialize(nodeMap, viewportManager);
 
             if (isFunction(control.navigatedTo)) {
-                control.navigatedTo(routeInfo.parameters, query);
+                control.navigatedTo(routeInfo.parameters, query, routeInfo);
             }
 
             manager.setUiControlTemplate();
 
-            if (control.hasOwnContext) {
-                return manager.observeRootContext(
-                    control,
-                    manager.fulfillAndLoad
-                );
-            }
+            const navigator = this._navigator;
+            const promise = control.hasOwnContext
+                ? manager.observeRootContext(control, manager.fulfillAndLoad)
+                : manager.fulfillAndLoad();
 
-            return manager.fulfillAndLoad();
+            return promise.then((): void => {
+                navigator.restoreScrollPosition(control);
+            });
         }
 
         /**
@@ -443,10 +476,14 @@ namespace plat.ui.controls {
          * has finished navigating from the current state.
          */
         public navigateFrom(): async.Promise<void> {
-            const view = this.controls[0];
+            const view = <ViewControl>this.controls[0];
             let promise: async.Promise<void>;
             const viewExists = isObject(view);
 
+            if (viewExists) {
+                this._navigator.saveScrollPosition(view);
+            }
+
             if (viewExists && isFunction(view.navigatingFrom)) {
                 promise = this._Promise.resolve(view.navigatingFrom());
             } else {
@@ -492,6 +529,58 @@ namespace plat.ui.controls {
                 });
         }
 
+        /**
+         * @name showLoading
+         * @memberof plat.ui.controls.Viewport
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The router is lazy-loading the next view, so show the loading template if one is
+         * specified in the options.
+         *
+         * @param {plat.routing.IRouteInfo} routeInfo The information for the route being loaded.
+         *
+         * @returns {void}
+         */
+        public showLoading(routeInfo: routing.IRouteInfo): void {
+            const template = isObject(this.options)
+                ? this.options.value.loadingTemplate
+                : undefined;
+
+            if (!isString(template) || isObject(this._loadingElement)) {
+                return;
+            }
+
+            const element = (this._loadingElement = this._document.createElement(
+                'div'
+            ));
+
+            element.className = `${__Viewport}-loading`;
+            element.insertBefore(serializeHtml(template), null);
+            this.element.insertBefore(element, null);
+        }
+
+        /**
+         * @name hideLoading
+         * @memberof plat.ui.controls.Viewport
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The router has finished lazy-loading the next view, so remove the loading template.
+         *
+         * @returns {void}
+         */
+        public hideLoading(): void {
+            const element = this._loadingElement;
+
+            if (isObject(element)) {
+                this._loadingElement = undefined;
+                removeNode(element);
+            }
+        }
+
         /**
          * @name dispose
          * @memberof plat.ui.controls.Viewport
@@ -505,6 +594,7 @@ namespace plat.ui.controls {
          * @returns {void}
          */
         public dispose(): void {
+            this.hideLoading();
             this._router.unregister(this);
             this._navigator.dispose();
         }
@@ -602,5 +692,32 @@ namespace plat.ui.controls {
          * Will allow for page transition animations if set to true.
          */
         animate: boolean;
+
+        /**
+         * @name loadingTemplate
+         * @memberof plat.ui.controls.IViewportOptions
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * An HTML template to show while the view for a route is lazy-loaded.
+         */
+        loadingTemplate?: string;
+
+        /**
+         * @name outlet
+         * @memberof plat.ui.controls.IViewportOptions
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The name of the outlet to show. Only routes configured with the same outlet are shown, and
+         * the outlet is navigated independently of the primary route (i.e. '/inbox(panel:details/42)').
+         */
+        outlet?: string;
     }
 }
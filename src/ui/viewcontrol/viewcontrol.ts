@@ -133,9 +133,29 @@ namespace plat.ui {
          * This method is called when the ViewControl has come into scope as a result of navigation. It can
          * receive the route parameters and query in order to set its context.
          *
+         * @param {any} parameters The route parameters.
+         * @param {any} query The query parameters.
+         * @param {plat.routing.IRouteInfo} routeInfo? The route information, containing the results of the
+         * route resolvers.
+         *
          * @returns {any}
          */
-        public navigatedTo(parameters: any, query: any): any {}
+        public navigatedTo(parameters: any, query: any, routeInfo?: routing.IRouteInfo): any {}
+
+        /**
+         * @name getScrollTarget
+         * @memberof plat.ui.ViewControl
+         * @kind function
+         * @access public
+         *
+         * @description
+         * This method is called when the scroll position of the ViewControl is saved or restored during navigation.
+         * By default the scroll position of the window is used.
+         *
+         * @returns {any} The element whose scroll position should be saved and restored, or false to opt out of
+         * scroll restoration.
+         */
+        public getScrollTarget(): any {}
     }
 
     /**
@@ -217,8 +237,28 @@ namespace plat.ui {
          * This method is called when the control has come into scope as a result of navigation. It can
          * receive the route parameters and query in order to set its context.
          *
+         * @param {any} parameters The route parameters.
+         * @param {any} query The query parameters.
+         * @param {plat.routing.IRouteInfo} routeInfo? The route information, containing the results of the
+         * route resolvers.
+         *
          * @returns {any}
          */
-        navigatedTo(parameters: any, query: any): any;
+        navigatedTo(parameters: any, query: any, routeInfo?: routing.IRouteInfo): any;
+
+        /**
+         * @name getScrollTarget
+         * @memberof plat.ui.ISupportNavigation
+         * @kind function
+         * @access public
+         * @optional
+         *
+         * @description
+         * This method is called when the scroll position of the control is saved or restored during navigation.
+         *
+         * @returns {any} The element whose scroll position should be saved and restored, or false to opt out of
+         * scroll restoration.
+         */
+        getScrollTarget?(): any;
     }
 }
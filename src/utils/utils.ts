@@ -965,6 +965,45 @@ namespace plat {
         public delimit(str: string, delimiter: string): string {
             return delimit(str, delimiter);
         }
+
+        /**
+         * @name serializeQuery
+         * @memberof plat.Utils
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Serializes an object into a query string. Nested objects are serialized with brackets (e.g. a[b]=c).
+         *
+         * @param {plat.IObject<any>} query The query object.
+         * @param {string} style? How Arrays are serialized: 'repeat' (a=1&a=2, the default), 'bracket' (a[]=1&a[]=2)
+         * or 'comma' (a=1,2).
+         *
+         * @returns {string} The query string, including the leading '?', or an empty string.
+         */
+        public serializeQuery(query: IObject<any>, style?: string): string {
+            return serializeQuery(query, style);
+        }
+
+        /**
+         * @name deserializeQuery
+         * @memberof plat.Utils
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Deserializes a query string into an object. Repeated keys and keys ending with [] are read as Arrays, and
+         * bracketed keys are read as nested objects.
+         *
+         * @param {string} search The query string.
+         * @param {string} style? The style used to serialize the query string. With 'comma', values containing
+         * commas are read as Arrays.
+         *
+         * @returns {plat.IObject<any>} The query object.
+         */
+        public deserializeQuery(search: string, style?: string): IObject<any> {
+            return deserializeQuery(search, style);
+        }
     }
     register.injectable(__Utils, Utils);
 
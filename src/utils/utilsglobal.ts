@@ -719,7 +719,7 @@ function access(obj: any, property: number | string): any {
     return obj[property];
 }
 
-function deserializeQuery(search: string): plat.IObject<string> {
+function deserializeQuery(search: string, style?: string): plat.IObject<any> {
     if (isEmpty(search)) {
         return;
     }
@@ -727,31 +727,120 @@ function deserializeQuery(search: string): plat.IObject<string> {
     search = search.replace(/^\?+/, '');
 
     const split = search.split('&');
-    const query: plat.IObject<string> = {};
+    const query: plat.IObject<any> = {};
     const length = split.length;
     let item: string[];
+    let value: any;
 
     for (let i = 0; i < length; i += 1) {
+        if (isEmpty(split[i])) {
+            continue;
+        }
+
         item = split[i].split('=');
+        value = item.length > 1 ? item.slice(1).join('=') : undefined;
 
-        query[item[0]] = item[1];
+        if (style === 'comma' && isString(value) && value.indexOf(',') > -1) {
+            value = value.split(',').map(_decodeQueryComponent);
+        } else if (isString(value)) {
+            value = _decodeQueryComponent(value);
+        }
+
+        _setQueryValue(query, _decodeQueryComponent(item[0]), value);
     }
 
     return query;
 }
 
-function serializeQuery(query: plat.IObject<string>): string {
-    let q = '';
+function serializeQuery(query: plat.IObject<any>, style?: string): string {
+    const pairs: string[] = [];
+
+    if (isObject(query)) {
+        forEach((value, key): void => {
+            _serializeQueryValue(pairs, encodeURIComponent(key), value, style);
+        }, query);
+    }
+
+    const q = pairs.join('&');
 
-    q += map((value, key): string => {
-        return `${key}=${value}`;
-    }, query).join('&');
+    return isEmpty(q) ? q : `?${q}`;
+}
 
-    if (!isEmpty(q)) {
-        q = `?${q}`;
+function _decodeQueryComponent(str: string): string {
+    str = str.replace(/\+/g, ' ');
+
+    try {
+        return decodeURIComponent(str);
+    } catch (e) {
+        return str;
     }
+}
+
+function _setQueryValue(query: plat.IObject<any>, key: string, value: any): void {
+    const index = key.indexOf('[');
+    let keys = [key];
 
-    return q;
+    // a[b][]=c is read as { a: { b: ['c'] } }
+    if (index > 0 && key[key.length - 1] === ']') {
+        keys = [key.slice(0, index)].concat(key.slice(index + 1, -1).split(']['));
+    }
+
+    // keys that would reach an object's prototype are ignored
+    if (keys.some((k: string): boolean => k === '__proto__' || k === 'constructor' || k === 'prototype')) {
+        return;
+    }
+
+    const last = keys.length - 1;
+    let obj = query;
+
+    for (let i = 0; i < last; i += 1) {
+        if (!isObject(obj[keys[i]])) {
+            obj[keys[i]] = keys[i + 1] === '' ? [] : {};
+        }
+
+        obj = obj[keys[i]];
+    }
+
+    key = keys[last];
+
+    if (key === '' && isArray(obj)) {
+        obj.push.apply(obj, isArray(value) ? value : [value]);
+    } else if (Object.prototype.hasOwnProperty.call(obj, key)) {
+        // repeated keys are read as an Array
+        obj[key] = [].concat(obj[key], value);
+    } else {
+        obj[key] = value;
+    }
+}
+
+function _serializeQueryValue(pairs: string[], key: string, value: any, style: string): void {
+    if (isUndefined(value)) {
+        return;
+    } else if (isNull(value)) {
+        pairs.push(`${key}=`);
+    } else if (isArray(value)) {
+        if (style === 'comma') {
+            if (value.length > 0) {
+                pairs.push(`${key}=${value.map((item: any): string => encodeURIComponent(String(item))).join(',')}`);
+            }
+
+            return;
+        }
+
+        const itemKey = style === 'bracket' ? `${key}[]` : key;
+
+        for (const item of value) {
+            _serializeQueryValue(pairs, itemKey, item, style);
+        }
+    } else if (isDate(value)) {
+        pairs.push(`${key}=${encodeURIComponent(value.toISOString())}`);
+    } else if (isObject(value)) {
+        forEach((item, name): void => {
+            _serializeQueryValue(pairs, `${key}[${encodeURIComponent(name)}]`, item, style);
+        }, value);
+    } else {
+        pairs.push(`${key}=${encodeURIComponent(String(value))}`);
+    }
 }
 
 function booleanReduce(values: boolean[]): boolean {
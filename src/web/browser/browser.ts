@@ -26,6 +26,7 @@ namespace plat.web {
             _window: __Window,
             _location: __Location,
             _history: __History,
+            _memoryHistory: __MemoryHistory,
             _dom: __Dom,
         };
 
@@ -44,9 +45,12 @@ namespace plat.web {
         public static config: IBrowserConfig = {
             HASH: 'hash',
             STATE: 'state',
+            MEMORY: 'memory',
             routingType: 'hash',
             hashPrefix: '!',
             baseUrl: '',
+            mountPath: undefined,
+            queryStyle: 'repeat',
         };
 
         /**
@@ -127,6 +131,19 @@ namespace plat.web {
          */
         protected _history: History;
 
+        /**
+         * @name _memoryHistory
+         * @memberof plat.web.Browser
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.web.MemoryHistory}
+         *
+         * @description
+         * Reference to the {@link plat.web.MemoryHistory|MemoryHistory} injectable.
+         */
+        protected _memoryHistory: MemoryHistory;
+
         /**
          * @name _dom
          * @memberof plat.web.Browser
@@ -219,6 +236,19 @@ namespace plat.web {
          */
         private __initializing: boolean = false;
 
+        /**
+         * @name __removeMemoryListener
+         * @memberof plat.web.Browser
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * Removes the listener for changes to the in-process history stack.
+         */
+        private __removeMemoryListener: IRemoveListener;
+
         /**
          * @name constructor
          * @memberof plat.web.Browser
@@ -251,7 +281,8 @@ namespace plat.web {
          *
          * @description
          * Initializes the {@link plat.web.Browser|Browser} instance, trims the url, and
-         * adds events for popstate and hashchange.
+         * adds events for popstate and hashchange. In MEMORY mode the in-process history
+         * stack is seeded with the base url and observed instead.
          *
          * @returns {void}
          */
@@ -260,10 +291,31 @@ namespace plat.web {
 
             this._EventManager.dispose(this.uid);
 
+            if (isFunction(this.__removeMemoryListener)) {
+                this.__removeMemoryListener();
+                this.__removeMemoryListener = null;
+            }
+
             this.__initializing = true;
 
             acquire(__UrlUtilsInstance);
 
+            if (this._isMemory()) {
+                const _memoryHistory = this._memoryHistory;
+
+                if (_memoryHistory.length === 0) {
+                    _memoryHistory.replaceState({}, '', Browser.config.baseUrl);
+                }
+
+                this.__lastUrl = this._trimSlashes(this.urlUtils().href);
+                this.__removeMemoryListener = _memoryHistory.listen(
+                    this._urlChanged.bind(this)
+                );
+                this.__initializing = false;
+
+                return;
+            }
+
             const url = this.url();
             const trimmedUrl = url;
             const changed = this._urlChanged.bind(this);
@@ -300,15 +352,20 @@ namespace plat.web {
          */
         public url(url?: string, replace?: boolean): string {
             const location = this._location;
+            const isMemory = this._isMemory();
 
             if (isString(url) && !this._isLastUrl(url)) {
-                if (!replace && isArray(this._stack)) {
+                if (!replace && !isMemory && isArray(this._stack)) {
                     this._stack.push(location.href);
                 }
 
                 this._setUrl(url, replace);
             }
 
+            if (isMemory && isString(this._memoryHistory.url)) {
+                return this._memoryHistory.url;
+            }
+
             if (!isEmpty(this.__currentUrl)) {
                 return this.__currentUrl;
             }
@@ -336,7 +393,7 @@ namespace plat.web {
 
             let _stack = this._stack;
 
-            if (isArray(_stack) && _stack.length > 1) {
+            if (!this._isMemory() && isArray(_stack) && _stack.length > 1) {
                 this._stack = _stack = _stack.slice(
                     0,
                     _stack.length - (length - 1)
@@ -347,7 +404,7 @@ namespace plat.web {
                 return;
             }
 
-            this._history.go(-length);
+            this.history().go(-length);
         }
 
         /**
@@ -368,7 +425,27 @@ namespace plat.web {
                 length = 1;
             }
 
-            this._history.go(length);
+            this.history().go(length);
+        }
+
+        /**
+         * @name history
+         * @memberof plat.web.Browser
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Returns the history object that is currently used for routing. In MEMORY mode this is the
+         * {@link plat.web.MemoryHistory|MemoryHistory} injectable, otherwise it is window.history.
+         *
+         * @returns {History} The history object.
+         */
+        public history(): History {
+            if (this._isMemory()) {
+                return this._memoryHistory;
+            }
+
+            return this._history;
         }
 
         /**
@@ -403,7 +480,7 @@ namespace plat.web {
                 url = url.replace(new RegExp(`#${hashPrefix}/?`), '');
             }
 
-            _urlUtils.initialize(url);
+            _urlUtils.initialize(this._stripMountPath(url));
 
             return _urlUtils;
         }
@@ -444,7 +521,9 @@ namespace plat.web {
          * @access public
          *
          * @description
-         * Formats the URL in the case of HASH routing.
+         * Formats the URL in the case of HASH routing, and makes local URLs absolute
+         * with the base URL. Root-relative URLs that already contain the mount path are
+         * not mounted twice.
          *
          * @param url The URL to format.
          *
@@ -462,9 +541,13 @@ namespace plat.web {
                 return url;
             }
 
-            const isLocal =
-                !this._regex.fullUrlRegex.test(url) ||
-                url.indexOf(baseUrl) > -1;
+            const isFullUrl = this._regex.fullUrlRegex.test(url);
+            const isLocal = !isFullUrl || this._hasBaseUrl(url);
+
+            if (!isFullUrl) {
+                url = this._stripMountPath(url);
+            }
+
             if (url[0] === '/') {
                 url = url.slice(1);
             }
@@ -499,7 +582,7 @@ namespace plat.web {
                     }
                 }
 
-                if (url.indexOf(baseUrl) === -1) {
+                if (!this._hasBaseUrl(url)) {
                     url = baseUrl + url;
                 }
             }
@@ -568,10 +651,11 @@ namespace plat.web {
 
             const utils = this.urlUtils(url);
             const baseUrl = Browser.config.baseUrl;
-            const _history = this._history;
+            const _history = this.history();
             const _location = this._location;
+            const isMemory = this._isMemory();
 
-            if (utils.href.indexOf(baseUrl) === -1) {
+            if (!isMemory && !this._hasBaseUrl(utils.href)) {
                 _location.href = url;
 
                 return;
@@ -582,7 +666,7 @@ namespace plat.web {
                 url = baseUrl + url;
             }
 
-            if (this._compat.pushState) {
+            if (isMemory || this._compat.pushState) {
                 if (replace) {
                     let state = _history.state;
 
@@ -620,6 +704,101 @@ namespace plat.web {
             }
         }
 
+        /**
+         * @name _hasBaseUrl
+         * @memberof plat.web.Browser
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines if a URL is within the base URL. The base URL is matched case-insensitively,
+         * with or without its trailing slash.
+         *
+         * @param {string} url The URL to check.
+         *
+         * @returns {boolean} Whether or not the URL is within the base URL.
+         */
+        protected _hasBaseUrl(url: string): boolean {
+            return this._startsWithPath(url, this._trimSlashes(Browser.config.baseUrl));
+        }
+
+        /**
+         * @name _stripMountPath
+         * @memberof plat.web.Browser
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Removes the mount path from a root-relative URL (i.e. '/apps/portal/posts' becomes '/posts'
+         * when the app is mounted at '/apps/portal'), so routes are always relative to the mount path.
+         *
+         * @param {string} url The URL.
+         *
+         * @returns {string} The URL without the mount path.
+         */
+        protected _stripMountPath(url: string): string {
+            const mountPath = Browser.config.mountPath;
+
+            if (
+                !isString(url) ||
+                url[0] !== '/' ||
+                url.indexOf('//') === 0 ||
+                isEmpty(mountPath) ||
+                !this._startsWithPath(url, mountPath)
+            ) {
+                return url;
+            }
+
+            url = url.slice(mountPath.length);
+
+            return url[0] === '/' ? url : `/${url}`;
+        }
+
+        /**
+         * @name _startsWithPath
+         * @memberof plat.web.Browser
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines if a URL starts with a path, ignoring case. The path has to be followed by
+         * a slash, a query, a hash or the end of the URL.
+         *
+         * @param {string} url The URL.
+         * @param {string} path The path, without a trailing slash.
+         *
+         * @returns {boolean} Whether or not the URL starts with the path.
+         */
+        protected _startsWithPath(url: string, path: string): boolean {
+            if (!isString(url) || isEmpty(path)) {
+                return false;
+            }
+
+            const next = url[path.length];
+
+            return (
+                url.slice(0, path.length).toLowerCase() === path.toLowerCase() &&
+                (isUndefined(next) || next === '/' || next === '?' || next === '#')
+            );
+        }
+
+        /**
+         * @name _isMemory
+         * @memberof plat.web.Browser
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines if the routingType is MEMORY.
+         *
+         * @returns {boolean} Whether or not routing uses the in-process history stack.
+         */
+        protected _isMemory(): boolean {
+            const config = Browser.config;
+
+            return config.routingType === config.MEMORY;
+        }
+
         /**
          * @name _isLastUrl
          * @memberof plat.web.Browser
@@ -627,14 +806,17 @@ namespace plat.web {
          * @access protected
          *
          * @description
-         * Determines if the url is equal to the last url
+         * Determines if the url is equal to the last url. In MEMORY mode the last url
+         * is the url of the current entry in the in-process history stack.
          *
          * @param {string} url The URL to match
          *
          * @returns {boolean} Whether or not the url is the last url.
          */
         protected _isLastUrl(url: string): boolean {
-            const last = this.__lastUrl;
+            const last = this._isMemory()
+                ? this._trimSlashes(this.urlUtils().href)
+                : this.__lastUrl;
 
             if (isString(url)) {
                 if (isEmpty(url)) {
@@ -723,6 +905,21 @@ namespace plat.web {
          */
         STATE: string;
 
+        /**
+         * @name MEMORY
+         * @memberof plat.web.IBrowserConfig
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * Specifies that the application wants to route using an
+         * in-process history stack. The real URL never changes, which
+         * is useful for embedded apps and tests.
+         */
+        MEMORY?: string;
+
         /**
          * @name routingType
          * @memberof plat.web.IBrowserConfig
@@ -733,7 +930,7 @@ namespace plat.web {
          *
          * @description
          * Allows you to define how your app will route. There are
-         * three modes, NONE ('none'), HASH ('hash'), and STATE ('state').
+         * four modes, NONE ('none'), HASH ('hash'), STATE ('state'), and MEMORY ('memory').
          *
          * In NONE, the application will not be responding to
          * url changes.
@@ -746,6 +943,9 @@ namespace plat.web {
          * must be configured to route every URL to the root URL if
          * using STATE mode.
          *
+         * In MEMORY mode, the application will keep its own history
+         * stack and the URL in the address bar will not change.
+         *
          * The default mode is NONE.
          */
         routingType: string;
@@ -774,8 +974,42 @@ namespace plat.web {
          * @type {string}
          *
          * @description
-         * Specifies the base URL used to normalize URL routing.
+         * Specifies the base URL used to normalize URL routing. A full URL is used as is, while a
+         * relative URL is used as the mount path.
          */
         baseUrl: string;
+
+        /**
+         * @name mountPath
+         * @memberof plat.web.IBrowserConfig
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {string}
+         *
+         * @description
+         * The path the app is deployed under (i.e. '/apps/portal'), appended to the origin to form
+         * the base URL. If not specified, the path of the document's base element is used. Routes
+         * and generated URLs are relative to the mount path, and the mount path is matched
+         * case-insensitively. Once the base URL is determined, this is normalized to start with a
+         * slash and have no trailing slash, or to an empty string.
+         */
+        mountPath?: string;
+
+        /**
+         * @name queryStyle
+         * @memberof plat.web.IBrowserConfig
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * Specifies how Arrays in query strings are serialized and deserialized. Can be
+         * 'repeat' (a=1&a=2), 'bracket' (a[]=1&a[]=2) or 'comma' (a=1,2).
+         * The default is 'repeat'.
+         */
+        queryStyle?: string;
     }
 }
@@ -0,0 +1,320 @@
+namespace plat.web {
+    'use strict';
+
+    /**
+     * @name MemoryHistory
+     * @memberof plat.web
+     * @kind class
+     *
+     * @description
+     * An in-process history stack with the same interface as window.history. Used by the
+     * {@link plat.web.Browser|Browser} when the routingType is 'memory', so the app can route
+     * without changing the real URL.
+     */
+    export class MemoryHistory implements History {
+        /**
+         * @name scrollRestoration
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * Always 'manual', scroll positions are restored by the {@link plat.routing.Navigator|Navigator}.
+         */
+        public scrollRestoration: ScrollRestoration = 'manual';
+
+        /**
+         * @name _entries
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access protected
+         *
+         * @type {Array<plat.web.IMemoryHistoryEntry>}
+         *
+         * @description
+         * The entries in the history stack.
+         */
+        protected _entries: IMemoryHistoryEntry[] = [];
+
+        /**
+         * @name _index
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access protected
+         *
+         * @type {number}
+         *
+         * @description
+         * The index of the current entry.
+         */
+        protected _index: number = -1;
+
+        /**
+         * @name _listeners
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access protected
+         *
+         * @type {Array<() => void>}
+         *
+         * @description
+         * The listeners to call when the current entry changes as a result of go, back or forward.
+         */
+        protected _listeners: (() => void)[] = [];
+
+        /**
+         * @name length
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {number}
+         *
+         * @description
+         * The number of entries in the history stack.
+         */
+        public get length(): number {
+            return this._entries.length;
+        }
+
+        /**
+         * @name state
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {any}
+         *
+         * @description
+         * The state of the current entry.
+         */
+        public get state(): any {
+            const entry = this._entries[this._index];
+
+            return isObject(entry) ? entry.state : null;
+        }
+
+        /**
+         * @name url
+         * @memberof plat.web.MemoryHistory
+         * @kind property
+         * @access public
+         * @readonly
+         *
+         * @type {string}
+         *
+         * @description
+         * The url of the current entry.
+         */
+        public get url(): string {
+            const entry = this._entries[this._index];
+
+            return isObject(entry) ? entry.url : undefined;
+        }
+
+        /**
+         * @name back
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Moves back one entry.
+         *
+         * @returns {void}
+         */
+        public back(): void {
+            this.go(-1);
+        }
+
+        /**
+         * @name forward
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Moves forward one entry.
+         *
+         * @returns {void}
+         */
+        public forward(): void {
+            this.go(1);
+        }
+
+        /**
+         * @name go
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Moves through the history stack, calling the listeners if the current entry changed. The
+         * index is clamped to the bounds of the stack.
+         *
+         * @param {number} delta? The number of entries to move, negative numbers move back.
+         *
+         * @returns {void}
+         */
+        public go(delta?: number): void {
+            if (!isNumber(delta)) {
+                delta = 0;
+            }
+
+            const index = Math.max(
+                0,
+                Math.min(this._entries.length - 1, this._index + delta)
+            );
+
+            if (index === this._index) {
+                return;
+            }
+
+            this._index = index;
+
+            for (const listener of this._listeners.slice(0)) {
+                listener();
+            }
+        }
+
+        /**
+         * @name pushState
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Adds an entry after the current entry, discarding any forward entries.
+         *
+         * @param {any} data The state for the entry.
+         * @param {string} title Ignored, exists for parity with window.history.
+         * @param {string} url? The url for the entry, defaults to the current url.
+         *
+         * @returns {void}
+         */
+        public pushState(data: any, title: string, url?: string): void {
+            const entries = this._entries;
+
+            entries.splice(this._index + 1, entries.length - this._index - 1, {
+                state: data,
+                url: isString(url) ? url : this.url,
+            });
+
+            this._index = entries.length - 1;
+        }
+
+        /**
+         * @name replaceState
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Replaces the current entry, or adds one if the stack is empty.
+         *
+         * @param {any} data The state for the entry.
+         * @param {string} title Ignored, exists for parity with window.history.
+         * @param {string} url? The url for the entry, defaults to the current url.
+         *
+         * @returns {void}
+         */
+        public replaceState(data: any, title: string, url?: string): void {
+            if (this._index === -1) {
+                this.pushState(data, title, url);
+
+                return;
+            }
+
+            this._entries[this._index] = {
+                state: data,
+                url: isString(url) ? url : this.url,
+            };
+        }
+
+        /**
+         * @name listen
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers a listener to call when the current entry changes as a result of go, back or forward,
+         * similar to the popstate event.
+         *
+         * @param {() => void} listener The listener.
+         *
+         * @returns {plat.IRemoveListener} A method for removing the listener.
+         */
+        public listen(listener: () => void): IRemoveListener {
+            const listeners = this._listeners;
+
+            listeners.push(listener);
+
+            return (): void => {
+                const index = listeners.indexOf(listener);
+
+                if (index > -1) {
+                    listeners.splice(index, 1);
+                }
+            };
+        }
+
+        /**
+         * @name clear
+         * @memberof plat.web.MemoryHistory
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Removes all the entries from the history stack.
+         *
+         * @returns {void}
+         */
+        public clear(): void {
+            this._entries = [];
+            this._index = -1;
+        }
+    }
+
+    register.injectable(__MemoryHistory, MemoryHistory);
+
+    /**
+     * @name IMemoryHistoryEntry
+     * @memberof plat.web
+     * @kind interface
+     *
+     * @description
+     * An entry in a {@link plat.web.MemoryHistory|MemoryHistory} stack.
+     */
+    export interface IMemoryHistoryEntry {
+        /**
+         * @name state
+         * @memberof plat.web.IMemoryHistoryEntry
+         * @kind property
+         * @access public
+         *
+         * @type {any}
+         *
+         * @description
+         * The state for the entry.
+         */
+        state: any;
+
+        /**
+         * @name url
+         * @memberof plat.web.IMemoryHistoryEntry
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The url for the entry.
+         */
+        url: string;
+    }
+}
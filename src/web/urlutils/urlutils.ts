@@ -266,12 +266,35 @@ namespace plat.web {
          * Creates a query object out of the URL's query search string.
          *
          * @param {string} search The URL's query search string.
+         * @param {string} style? The style used to serialize Arrays in the query string.
          *
-         * @returns {plat.IObject<string>} An object consisting of key-value pairs
+         * @returns {plat.IObject<any>} An object consisting of key-value pairs
          * representing the query string.
          */
-        private static __getQuery(search: string): IObject<string> {
-            return deserializeQuery(search);
+        private static __getQuery(search: string, style?: string): IObject<any> {
+            return deserializeQuery(search, style);
+        }
+
+        /**
+         * @name __trimSlashes
+         * @memberof plat.web.UrlUtils
+         * @kind function
+         * @access private
+         * @static
+         *
+         * @description
+         * Removes the trailing slashes from a URL.
+         *
+         * @param {string} url The URL.
+         *
+         * @returns {string} The URL without trailing slashes.
+         */
+        private static __trimSlashes(url: string): string {
+            while (url[url.length - 1] === '/') {
+                url = url.slice(0, -1);
+            }
+
+            return url;
         }
 
         /**
@@ -318,7 +341,9 @@ namespace plat.web {
          *
          * @description
          * The constructor for a {@link plat.web.UrlUtils|UrlUtils} instance.
-         * Handles parsing the initial URL and obtain the base URL if necessary.
+         * Handles parsing the initial URL and obtain the base URL if necessary. The base URL
+         * is the origin followed by the mount path, which is taken from a relative baseUrl, the
+         * mountPath or the document's base element, in that order.
          *
          * @returns {plat.web.UrlUtils}
          */
@@ -326,29 +351,37 @@ namespace plat.web {
             const config = this._browserConfig;
             let baseUrl = config.baseUrl;
 
-            if (isEmpty(baseUrl) || !this._regex.fullUrlRegex.test(baseUrl)) {
-                const url = this._window.location.href;
-                const trimmedUrl = url.replace(
-                    this._regex.initialUrlRegex,
-                    '/'
+            if (isString(baseUrl) && this._regex.fullUrlRegex.test(baseUrl)) {
+                baseUrl = UrlUtils.__trimSlashes(baseUrl);
+                config.baseUrl = `${baseUrl}/`;
+                config.mountPath = UrlUtils.__trimSlashes(
+                    this._getPathname(config.baseUrl)
                 );
 
-                if (isString(baseUrl)) {
-                    if (baseUrl.indexOf('/') === 0) {
-                        baseUrl = baseUrl.slice(1);
-                    }
-                } else {
-                    baseUrl = '';
-                }
-
-                baseUrl = UrlUtils.__getBaseUrl(trimmedUrl) + baseUrl;
+                return;
+            }
 
-                while (baseUrl[baseUrl.length - 1] === '/') {
-                    baseUrl = baseUrl.slice(0, -1);
-                }
+            const url = this._window.location.href;
+            const trimmedUrl = url.replace(this._regex.initialUrlRegex, '/');
+            let mountPath = isEmpty(baseUrl) ? config.mountPath : baseUrl;
 
-                config.baseUrl = `${baseUrl}/`;
+            if (!isString(mountPath)) {
+                mountPath = this._getBaseHref();
             }
+
+            mountPath = UrlUtils.__trimSlashes(
+                mountPath
+                    .split('/')
+                    .filter((segment: string): boolean => !isEmpty(segment))
+                    .join('/')
+            );
+
+            baseUrl = UrlUtils.__trimSlashes(
+                `${UrlUtils.__getBaseUrl(trimmedUrl)}${mountPath}`
+            );
+
+            config.baseUrl = `${baseUrl}/`;
+            config.mountPath = isEmpty(mountPath) ? '' : `/${mountPath}`;
         }
 
         /**
@@ -408,10 +441,18 @@ namespace plat.web {
             this.hostname = element.hostname;
             this.port = element.port;
 
+            const baseUrl = UrlUtils.__trimSlashes(_browserConfig.baseUrl);
+            const next = url[baseUrl.length];
             let path: string;
 
-            if (!isEmpty(_browserConfig.baseUrl)) {
-                path = url.replace(_browserConfig.baseUrl, '/');
+            // the base url is matched case-insensitively, with or without its trailing slash
+            if (
+                !isEmpty(baseUrl) &&
+                url.slice(0, baseUrl.length).toLowerCase() === baseUrl.toLowerCase() &&
+                (isUndefined(next) || next === '/' || next === '?' || next === '#')
+            ) {
+                path = url.slice(baseUrl.length);
+                path = path[0] === '/' ? path : `/${path}`;
             } else {
                 path =
                     element.pathname.charAt(0) === '/'
@@ -419,10 +460,10 @@ namespace plat.web {
                         : `/${element.pathname}`;
             }
 
-            path = path.replace(this._regex.initialUrlRegex, '/');
+            path = path.replace(this._regex.initialPathRegex, '/');
 
             this.pathname = path.split('?')[0].split('#')[0];
-            this.query = UrlUtils.__getQuery(this.search);
+            this.query = UrlUtils.__getQuery(this.search, _browserConfig.queryStyle);
         }
 
         /**
@@ -439,6 +480,58 @@ namespace plat.web {
         public toString(): string {
             return this.href;
         }
+
+        /**
+         * @name _getBaseHref
+         * @memberof plat.web.UrlUtils
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the path of the document's base element, if it has one on the same origin.
+         *
+         * @returns {string} The path of the base element, or an empty string.
+         */
+        protected _getBaseHref(): string {
+            const location = this._window.location;
+            const base: HTMLBaseElement = <HTMLBaseElement>this._document.querySelector('base[href]');
+
+            if (!isObject(base) || !/^https?:$/.test(location.protocol)) {
+                return '';
+            }
+
+            const origin = `${location.protocol}//${location.host}`;
+            const href = base.href;
+
+            if (!isString(href) || href.indexOf(origin) !== 0) {
+                return '';
+            }
+
+            return this._getPathname(href);
+        }
+
+        /**
+         * @name _getPathname
+         * @memberof plat.web.UrlUtils
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Gets the pathname of a full URL.
+         *
+         * @param {string} url The full URL.
+         *
+         * @returns {string} The pathname.
+         */
+        protected _getPathname(url: string): string {
+            const element = this._document.createElement('a');
+
+            element.setAttribute('href', url);
+
+            const pathname = element.pathname;
+
+            return pathname.charAt(0) === '/' ? pathname : `/${pathname}`;
+        }
     }
     register.injectable(__UrlUtilsInstance, UrlUtils, null, __INSTANCE);
 }
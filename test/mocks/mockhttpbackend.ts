@@ -0,0 +1,1009 @@
+const __MockHttpBackend = `${__prefix}MockHttpBackend`;
+
+namespace plat.async {
+    'use strict';
+
+    /**
+     * @name MockHttpBackend
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * An in-memory {@link plat.async.IHttpTransport|transport} for unit testing code that uses
+     * {@link plat.async.Http|Http}. Once installed, requests are matched against expectations and
+     * definitions instead of being sent, and are held until {@link plat.async.MockHttpBackend.flush|flush}
+     * is called. The backend is part of the test build and is not included in the platypus bundle.
+     */
+    export class MockHttpBackend implements IHttpTransport {
+        protected static _inject: any = {
+            _http: __Http,
+            _browser: __Browser,
+            _Promise: __Promise,
+        };
+
+        /**
+         * @name _http
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.Http}
+         *
+         * @description
+         * Reference to the {@link plat.async.Http|Http} injectable.
+         */
+        protected _http: Http;
+
+        /**
+         * @name _browser
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.web.Browser}
+         *
+         * @description
+         * Reference to the {@link plat.web.Browser|Browser} injectable.
+         */
+        protected _browser: web.Browser;
+
+        /**
+         * @name _Promise
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access protected
+         *
+         * @type {plat.async.IPromise}
+         *
+         * @description
+         * Reference to the {@link plat.async.IPromise|IPromise} injectable.
+         */
+        protected _Promise: IPromise;
+
+        /**
+         * @name __expectations
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access private
+         *
+         * @type {Array<plat.async.MockHttpDefinition>}
+         *
+         * @description
+         * The requests that are expected to be made, in order.
+         */
+        private __expectations: MockHttpDefinition[] = [];
+
+        /**
+         * @name __definitions
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access private
+         *
+         * @type {Array<plat.async.MockHttpDefinition>}
+         *
+         * @description
+         * The definitions for requests that can be made any number of times.
+         */
+        private __definitions: MockHttpDefinition[] = [];
+
+        /**
+         * @name __pending
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access private
+         *
+         * @type {Array<plat.async.IMockHttpPendingRequest>}
+         *
+         * @description
+         * The requests that have been made but not yet flushed.
+         */
+        private __pending: IMockHttpPendingRequest[] = [];
+
+        /**
+         * @name __errors
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access private
+         *
+         * @type {Array<Error>}
+         *
+         * @description
+         * The errors for unexpected requests.
+         */
+        private __errors: Error[] = [];
+
+        /**
+         * @name __uninstall
+         * @memberof plat.async.MockHttpBackend
+         * @kind property
+         * @access private
+         *
+         * @type {plat.IRemoveListener}
+         *
+         * @description
+         * Removes the backend as the registered 'xhr' and 'fetch' transport.
+         */
+        private __uninstall: IRemoveListener = noop;
+
+        /**
+         * @name install
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Registers the backend in place of the 'xhr' and 'fetch' transports.
+         *
+         * @returns {plat.IRemoveListener} A method for uninstalling the backend.
+         */
+        public install(): IRemoveListener {
+            this.__uninstall();
+
+            const removeXhr = this._http.registerTransport('xhr', this);
+            const removeFetch = this._http.registerTransport('fetch', this);
+
+            this.__uninstall = (): void => {
+                removeXhr();
+                removeFetch();
+                this.__uninstall = noop;
+            };
+
+            return this.uninstall.bind(this);
+        }
+
+        /**
+         * @name uninstall
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Restores the 'xhr' and 'fetch' transports.
+         *
+         * @returns {void}
+         */
+        public uninstall(): void {
+            this.__uninstall();
+        }
+
+        /**
+         * @name when
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Defines a response for any number of matching requests. Use 'JSONP' as the method to
+         * match JSONP requests.
+         *
+         * @param {string} method The request method.
+         * @param {string | RegExp | ((url: string) => boolean)} url The request url.
+         * @param {any} data? The expected request data. Can be a RegExp or a predicate.
+         * @param {plat.IObject<string> | ((headers: plat.IObject<string>) => boolean)} headers? The expected
+         * request headers.
+         *
+         * @returns {plat.async.MockHttpDefinition} The definition, used to define the response.
+         */
+        public when(
+            method: string,
+            url: string | RegExp | ((url: string) => boolean),
+            data?: any,
+            headers?: IObject<string> | ((headers: IObject<string>) => boolean)
+        ): MockHttpDefinition {
+            const definition = new MockHttpDefinition(method, url, data, headers);
+
+            this.__definitions.push(definition);
+
+            return definition;
+        }
+
+        /**
+         * @name expect
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Expects a request to be made. Expectations must be met in the order in which they are
+         * defined, and each is met at most once. If no response is defined for the expectation,
+         * the response from a matching {@link plat.async.MockHttpBackend.when|when} definition is used.
+         *
+         * @param {string} method The request method.
+         * @param {string | RegExp | ((url: string) => boolean)} url The request url.
+         * @param {any} data? The expected request data. Can be a RegExp or a predicate.
+         * @param {plat.IObject<string> | ((headers: plat.IObject<string>) => boolean)} headers? The expected
+         * request headers.
+         *
+         * @returns {plat.async.MockHttpDefinition} The expectation, used to define the response.
+         */
+        public expect(
+            method: string,
+            url: string | RegExp | ((url: string) => boolean),
+            data?: any,
+            headers?: IObject<string> | ((headers: IObject<string>) => boolean)
+        ): MockHttpDefinition {
+            const expectation = new MockHttpDefinition(method, url, data, headers);
+
+            this.__expectations.push(expectation);
+
+            return expectation;
+        }
+
+        /**
+         * @name send
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Queues a request until it is flushed.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.HttpRequest} request The request being sent.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {plat.async.Promise<plat.async.IAjaxResponse<R>>} A promise that fulfills or rejects when the
+         * request is flushed.
+         */
+        public send<R>(
+            request: HttpRequest,
+            options: IHttpConfig
+        ): Promise<IAjaxResponse<R>> {
+            const method = isString(options.method) ? options.method : 'GET';
+
+            return this._queue<R>(request, options, method.toUpperCase());
+        }
+
+        /**
+         * @name jsonp
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Queues a JSONP request until it is flushed. JSONP requests are matched using the 'JSONP' method.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.HttpRequest} request The request being sent.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {plat.async.Promise<plat.async.IAjaxResponse<R>>} A promise that fulfills or rejects when the
+         * request is flushed.
+         */
+        public jsonp<R>(
+            request: HttpRequest,
+            options: IHttpConfig
+        ): Promise<IAjaxResponse<R>> {
+            return this._queue<R>(request, options, 'JSONP');
+        }
+
+        /**
+         * @name flush
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Responds to pending requests in the order in which they were made.
+         *
+         * @param {number} count? The number of requests to flush. Defaults to all pending requests.
+         *
+         * @returns {void}
+         */
+        public flush(count?: number): void {
+            const pending = this.__pending;
+
+            if (pending.length === 0) {
+                throw new Error('No pending requests to flush.');
+            }
+
+            if (!isNumber(count)) {
+                count = pending.length;
+            } else if (count > pending.length) {
+                throw new Error(
+                    `Cannot flush ${count} requests, only ${pending.length} pending.`
+                );
+            }
+
+            while (count > 0) {
+                count -= 1;
+                this._respond(pending.shift());
+            }
+        }
+
+        /**
+         * @name verifyNoOutstandingExpectations
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Throws if an unexpected request was made or if any expectations were not met.
+         *
+         * @returns {void}
+         */
+        public verifyNoOutstandingExpectations(): void {
+            if (this.__errors.length > 0) {
+                throw this.__errors[0];
+            }
+
+            const expectations = this.__expectations;
+
+            if (expectations.length > 0) {
+                throw new Error(
+                    `Unsatisfied requests: ${expectations
+                        .map((expectation): string => expectation.toString())
+                        .join(', ')}`
+                );
+            }
+        }
+
+        /**
+         * @name verifyNoOutstandingRequests
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Throws if any requests have not been flushed.
+         *
+         * @returns {void}
+         */
+        public verifyNoOutstandingRequests(): void {
+            const pending = this.__pending;
+
+            if (pending.length > 0) {
+                throw new Error(
+                    `Unflushed requests: ${pending
+                        .map((request): string => `${request.method} ${request.url}`)
+                        .join(', ')}`
+                );
+            }
+        }
+
+        /**
+         * @name reset
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Clears all expectations, definitions, pending requests and errors.
+         *
+         * @returns {void}
+         */
+        public reset(): void {
+            this.__expectations = [];
+            this.__definitions = [];
+            this.__pending = [];
+            this.__errors = [];
+        }
+
+        /**
+         * @name _queue
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Finds the expectation or definition matching a request and queues the request until it is flushed.
+         * Rejects if the request is unexpected.
+         *
+         * @typeparam {any} R The response type for the request.
+         *
+         * @param {plat.async.HttpRequest} request The request being sent.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         * @param {string} method The uppercase request method.
+         *
+         * @returns {plat.async.Promise<plat.async.IAjaxResponse<R>>} A promise that fulfills or rejects when the
+         * request is flushed.
+         */
+        protected _queue<R>(
+            request: HttpRequest,
+            options: IHttpConfig,
+            method: string
+        ): Promise<IAjaxResponse<R>> {
+            const url = options.url;
+            const expectation = this.__expectations[0];
+            const expected =
+                !isUndefined(expectation) &&
+                this._matches(expectation, method, options);
+            let definition: MockHttpDefinition;
+
+            if (expected) {
+                this.__expectations.shift();
+            }
+
+            if (expected && expectation.hasResponse()) {
+                definition = expectation;
+            } else {
+                some((when: MockHttpDefinition): boolean => {
+                    if (this._matches(when, method, options)) {
+                        definition = when;
+
+                        return true;
+                    }
+
+                    return false;
+                }, this.__definitions);
+            }
+
+            if (isUndefined(definition)) {
+                let message = `Unexpected request: ${method} ${url}`;
+
+                if (expected) {
+                    message = `No response defined for ${method} ${url}`;
+                } else if (!isUndefined(expectation)) {
+                    message += `, expected ${expectation.toString()}`;
+                }
+
+                const error = new Error(message);
+
+                this.__errors.push(error);
+
+                return this._Promise.reject(error);
+            }
+
+            return new this._Promise<IAjaxResponse<R>>((resolve, reject): void => {
+                const pending: IMockHttpPendingRequest = {
+                    method: method,
+                    url: url,
+                    options: options,
+                    definition: definition,
+                    resolve: resolve,
+                    reject: reject,
+                };
+
+                this.__pending.push(pending);
+
+                request.abort = (): void => {
+                    const index = this.__pending.indexOf(pending);
+
+                    if (index > -1) {
+                        this.__pending.splice(index, 1);
+                    }
+                };
+            });
+        }
+
+        /**
+         * @name _respond
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Resolves or rejects a pending request with the response from its definition. Requests that
+         * time out are left without a response.
+         *
+         * @param {plat.async.IMockHttpPendingRequest} pending The pending request.
+         *
+         * @returns {void}
+         */
+        protected _respond(pending: IMockHttpPendingRequest): void {
+            const options = pending.options;
+            const definition = pending.definition;
+
+            // the response never arrives, the request is rejected when its own timeout elapses
+            if (definition.timedOut) {
+                return;
+            }
+
+            const mock = definition.response(options);
+            const status = isNumber(mock.status) ? mock.status : 200;
+            const headers = mock.headers;
+            const response: IAjaxResponse<any> = {
+                response: mock.response,
+                status: status,
+                getAllResponseHeaders: (): string => {
+                    if (!isObject(headers)) {
+                        return '';
+                    }
+
+                    return Object.keys(headers)
+                        .map((key): string => `${key}: ${headers[key]}`)
+                        .join('\r\n');
+                },
+            };
+
+            // 304 is not modified
+            if ((status >= 200 && status < 300) || status === 304) {
+                pending.resolve(response);
+            } else {
+                pending.reject(
+                    status === 0 ? new NetworkError(response) : new HttpStatusError(response)
+                );
+            }
+        }
+
+        /**
+         * @name _matches
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Determines whether a request matches a definition.
+         *
+         * @param {plat.async.MockHttpDefinition} definition The definition.
+         * @param {string} method The uppercase request method.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {boolean} Whether or not the request matches.
+         */
+        protected _matches(
+            definition: MockHttpDefinition,
+            method: string,
+            options: IHttpConfig
+        ): boolean {
+            return (
+                definition.method === method &&
+                this._matchUrl(definition.url, options.url) &&
+                this._matchData(definition.data, options.data) &&
+                this._matchHeaders(definition.headers, options)
+            );
+        }
+
+        /**
+         * @name _matchUrl
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Matches a request url. String urls are resolved the same way the request url is.
+         *
+         * @param {string | RegExp | ((url: string) => boolean)} expected The expected url.
+         * @param {string} url The request url.
+         *
+         * @returns {boolean} Whether or not the url matches.
+         */
+        protected _matchUrl(
+            expected: string | RegExp | ((url: string) => boolean),
+            url: string
+        ): boolean {
+            if (isFunction(expected)) {
+                return expected(url);
+            } else if (isRegExp(expected)) {
+                return expected.test(url);
+            }
+
+            return (
+                expected === url ||
+                this._browser.urlUtils(expected).toString() === url
+            );
+        }
+
+        /**
+         * @name _matchData
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Matches request data. Objects are compared by their JSON representation.
+         *
+         * @param {any} expected The expected data.
+         * @param {any} data The request data.
+         *
+         * @returns {boolean} Whether or not the data matches.
+         */
+        protected _matchData(expected: any, data: any): boolean {
+            if (isUndefined(expected)) {
+                return true;
+            } else if (isFunction(expected)) {
+                return expected(data);
+            }
+
+            const serialized = isString(data) ? data : JSON.stringify(data);
+
+            if (isRegExp(expected)) {
+                return expected.test(serialized);
+            } else if (isString(expected)) {
+                return expected === serialized;
+            }
+
+            return JSON.stringify(expected) === serialized;
+        }
+
+        /**
+         * @name _matchHeaders
+         * @memberof plat.async.MockHttpBackend
+         * @kind function
+         * @access protected
+         *
+         * @description
+         * Matches request headers, including the Content-Type header set from the contentType option.
+         * Header names are compared case-insensitively.
+         *
+         * @param {plat.IObject<string> | ((headers: plat.IObject<string>) => boolean)} expected The expected headers.
+         * @param {plat.async.IHttpConfig} options The options for the request.
+         *
+         * @returns {boolean} Whether or not the headers match.
+         */
+        protected _matchHeaders(
+            expected: IObject<string> | ((headers: IObject<string>) => boolean),
+            options: IHttpConfig
+        ): boolean {
+            if (isUndefined(expected)) {
+                return true;
+            }
+
+            const headers: IObject<string> = {};
+            const lower: IObject<string> = {};
+
+            if (isString(options.contentType) && !isEmpty(options.contentType)) {
+                headers['Content-Type'] = options.contentType;
+            }
+
+            _extend(false, false, headers, options.headers);
+
+            if (isFunction(expected)) {
+                return expected(headers);
+            }
+
+            forEach((value: string, key: string): void => {
+                lower[key.toLowerCase()] = value;
+            }, headers);
+
+            return !some(
+                (value: string, key: string): boolean =>
+                    lower[key.toLowerCase()] !== value,
+                expected
+            );
+        }
+    }
+
+    register.injectable(__MockHttpBackend, MockHttpBackend);
+
+    /**
+     * @name MockHttpDefinition
+     * @memberof plat.async
+     * @kind class
+     *
+     * @description
+     * Describes a request for the {@link plat.async.MockHttpBackend|MockHttpBackend}, along with the
+     * response for the request.
+     */
+    export class MockHttpDefinition {
+        /**
+         * @name method
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The uppercase request method.
+         */
+        public method: string;
+
+        /**
+         * @name url
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {string | RegExp | ((url: string) => boolean)}
+         *
+         * @description
+         * The request url.
+         */
+        public url: string | RegExp | ((url: string) => boolean);
+
+        /**
+         * @name data
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {any}
+         *
+         * @description
+         * The expected request data.
+         */
+        public data: any;
+
+        /**
+         * @name headers
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {plat.IObject<string> | ((headers: plat.IObject<string>) => boolean)}
+         *
+         * @description
+         * The expected request headers.
+         */
+        public headers: IObject<string> | ((headers: IObject<string>) => boolean);
+
+        /**
+         * @name timedOut
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {boolean}
+         *
+         * @description
+         * Whether or not the request will never receive a response, so that it times out.
+         */
+        public timedOut: boolean = false;
+
+        /**
+         * @name response
+         * @memberof plat.async.MockHttpDefinition
+         * @kind property
+         * @access public
+         *
+         * @type {(options: plat.async.IHttpConfig) => plat.async.IMockHttpResponse}
+         *
+         * @description
+         * Creates the response for a request.
+         */
+        public response: (options: IHttpConfig) => IMockHttpResponse;
+
+        /**
+         * @name constructor
+         * @memberof plat.async.MockHttpDefinition
+         * @kind function
+         * @access public
+         *
+         * @description
+         * The constructor for a {@link plat.async.MockHttpDefinition|MockHttpDefinition}.
+         *
+         * @param {string} method The request method.
+         * @param {string | RegExp | ((url: string) => boolean)} url The request url.
+         * @param {any} data? The expected request data.
+         * @param {plat.IObject<string> | ((headers: plat.IObject<string>) => boolean)} headers? The expected
+         * request headers.
+         *
+         * @returns {plat.async.MockHttpDefinition}
+         */
+        constructor(
+            method: string,
+            url: string | RegExp | ((url: string) => boolean),
+            data?: any,
+            headers?: IObject<string> | ((headers: IObject<string>) => boolean)
+        ) {
+            this.method = isString(method) ? method.toUpperCase() : 'GET';
+            this.url = url;
+            this.data = data;
+            this.headers = headers;
+        }
+
+        /**
+         * @name respond
+         * @memberof plat.async.MockHttpDefinition
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Defines the response for the request. Responses with a status outside of the 2xx range (other
+         * than 304) reject with an {@link plat.async.AjaxError|AjaxError}.
+         *
+         * @param {number | ((options: plat.async.IHttpConfig) => plat.async.IMockHttpResponse)} status The
+         * response status, or a function that creates the response from the request options.
+         * @param {any} response? The response body.
+         * @param {plat.IObject<string>} headers? The response headers.
+         *
+         * @returns {plat.async.MockHttpDefinition} The definition, for chaining.
+         */
+        public respond(
+            status: number | ((options: IHttpConfig) => IMockHttpResponse),
+            response?: any,
+            headers?: IObject<string>
+        ): MockHttpDefinition {
+            this.timedOut = false;
+
+            if (isFunction(status)) {
+                this.response = status;
+            } else {
+                this.response = (): IMockHttpResponse => ({
+                    status: status,
+                    response: response,
+                    headers: headers,
+                });
+            }
+
+            return this;
+        }
+
+        /**
+         * @name timeout
+         * @memberof plat.async.MockHttpDefinition
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Causes the request to never receive a response, so it is rejected with a 408
+         * {@link plat.async.TimeoutError|TimeoutError} by {@link plat.async.Http|Http} once the timeout specified
+         * in its options elapses. Flushing the request does not respond to it.
+         *
+         * @returns {plat.async.MockHttpDefinition} The definition, for chaining.
+         */
+        public timeout(): MockHttpDefinition {
+            this.timedOut = true;
+            this.response = null;
+
+            return this;
+        }
+
+        /**
+         * @name hasResponse
+         * @memberof plat.async.MockHttpDefinition
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Determines whether a response or a timeout has been defined.
+         *
+         * @returns {boolean}
+         */
+        public hasResponse(): boolean {
+            return this.timedOut || isFunction(this.response);
+        }
+
+        /**
+         * @name toString
+         * @memberof plat.async.MockHttpDefinition
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Outputs the method and url of the definition.
+         *
+         * @returns {string}
+         */
+        public toString(): string {
+            return `${this.method} ${this.url}`;
+        }
+    }
+
+    /**
+     * @name IMockHttpResponse
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes a canned response for the {@link plat.async.MockHttpBackend|MockHttpBackend}.
+     */
+    export interface IMockHttpResponse {
+        /**
+         * @name status
+         * @memberof plat.async.IMockHttpResponse
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {number}
+         *
+         * @description
+         * The response status. Defaults to 200.
+         */
+        status?: number;
+
+        /**
+         * @name response
+         * @memberof plat.async.IMockHttpResponse
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {any}
+         *
+         * @description
+         * The response body.
+         */
+        response?: any;
+
+        /**
+         * @name headers
+         * @memberof plat.async.IMockHttpResponse
+         * @kind property
+         * @access public
+         * @optional
+         *
+         * @type {plat.IObject<string>}
+         *
+         * @description
+         * The response headers.
+         */
+        headers?: IObject<string>;
+    }
+
+    /**
+     * @name IMockHttpPendingRequest
+     * @memberof plat.async
+     * @kind interface
+     *
+     * @description
+     * Describes a request held by the {@link plat.async.MockHttpBackend|MockHttpBackend} until it is flushed.
+     */
+    export interface IMockHttpPendingRequest {
+        /**
+         * @name method
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The uppercase request method, or 'JSONP'.
+         */
+        method: string;
+
+        /**
+         * @name url
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind property
+         * @access public
+         *
+         * @type {string}
+         *
+         * @description
+         * The request url.
+         */
+        url: string;
+
+        /**
+         * @name options
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.IHttpConfig}
+         *
+         * @description
+         * The options for the request.
+         */
+        options: IHttpConfig;
+
+        /**
+         * @name definition
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind property
+         * @access public
+         *
+         * @type {plat.async.MockHttpDefinition}
+         *
+         * @description
+         * The definition the request matched.
+         */
+        definition: MockHttpDefinition;
+
+        /**
+         * @name resolve
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Fulfills the request.
+         *
+         * @param {plat.async.IAjaxResponse<any>} response The response.
+         *
+         * @returns {void}
+         */
+        resolve(response: IAjaxResponse<any>): void;
+
+        /**
+         * @name reject
+         * @memberof plat.async.IMockHttpPendingRequest
+         * @kind function
+         * @access public
+         *
+         * @description
+         * Rejects the request.
+         *
+         * @param {plat.async.AjaxError} error The error.
+         *
+         * @returns {void}
+         */
+        reject(error: AjaxError): void;
+    }
+}
@@ -1,8 +1,12 @@
 ﻿/// <reference path="../src/references.d.ts" />
+/// <reference path="mocks/mockhttpbackend.ts" />
 /// <reference path="unit/acquire/acquire.test.ts" />
 /// <reference path="unit/app/app.test.ts" />
 /// <reference path="unit/app/appstatic.test.ts" />
+/// <reference path="unit/async/ajax.test.ts" />
+/// <reference path="unit/async/mockhttpbackend.test.ts" />
 /// <reference path="unit/async/promise.test.ts" />
+/// <reference path="unit/async/resource.test.ts" />
 /// <reference path="unit/control/control.test.ts" />
 /// <reference path="unit/control/controlfactory.test.ts" />
 /// <reference path="unit/controls/attributecontrol/attributecontrol.test.ts" />
@@ -21,4 +25,7 @@
 /// <reference path="unit/routing/router.test.ts" />
 /// <reference path="unit/routing/routerecognizer.test.ts" />
 /// <reference path="unit/storage/cache.test.ts" />
+/// <reference path="unit/ui/controls/link/link.test.ts" />
 /// <reference path="unit/utils/utils.test.ts" />
+/// <reference path="unit/web/browser.test.ts" />
+/// <reference path="unit/web/memoryhistory.test.ts" />
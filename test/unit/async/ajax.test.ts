@@ -0,0 +1,918 @@
+module tests.async.ajax {
+    const Promise = plat.acquire(plat.async.IPromise);
+    const _window: any = window;
+    let XMLHttpRequest: any;
+    let xhrs: any[];
+
+    function installXhr(): void {
+        XMLHttpRequest = _window.XMLHttpRequest;
+        xhrs = [];
+        _window.XMLHttpRequest = function (): void {
+            this.upload = {};
+            this.headers = {};
+            xhrs.push(this);
+        };
+        _window.XMLHttpRequest.prototype = {
+            open: function (method: string, url: string): void {
+                this.method = method;
+                this.url = url;
+            },
+            setRequestHeader: function (name: string, value: string): void {
+                this.headers[name] = value;
+            },
+            send: function (data?: any): void {
+                this.data = data;
+            },
+            abort: function (): void {
+                this.aborted = true;
+            },
+            getAllResponseHeaders: (): string => '',
+        };
+    }
+
+    function uninstallXhr(): void {
+        _window.XMLHttpRequest = XMLHttpRequest;
+        xhrs = null;
+    }
+
+    function respond(xhr: any, status: number, response?: any): void {
+        xhr.readyState = 4;
+        xhr.status = status;
+        xhr.response = response;
+        xhr.onreadystatechange();
+    }
+
+    describe('Http Interceptor Tests', () => {
+        let http: plat.async.Http;
+        let removers: plat.IRemoveListener[];
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            removers = [];
+            installXhr();
+        });
+
+        afterEach(() => {
+            removers.forEach((remove) => {
+                remove();
+            });
+            uninstallXhr();
+        });
+
+        function intercept(interceptor: plat.async.IHttpInterceptor): plat.IRemoveListener {
+            const remove = http.intercept(interceptor);
+
+            removers.push(remove);
+
+            return remove;
+        }
+
+        it('should call request hooks by priority and response hooks in reverse', (done: Function) => {
+            const calls: string[] = [];
+            const interceptor = (name: string, priority?: number): plat.async.IHttpInterceptor => ({
+                priority: priority,
+                request: (config: plat.async.IHttpConfig) => {
+                    calls.push(`request ${name}`);
+                    config.headers = { 'X-Interceptor': name };
+                },
+                response: () => {
+                    calls.push(`response ${name}`);
+                },
+            });
+
+            intercept(interceptor('low'));
+            intercept(interceptor('high', 10));
+            intercept(interceptor('last'));
+
+            http.ajax({ url: '/users' }).then(() => {
+                expect(calls).toEqual([
+                    'request high',
+                    'request low',
+                    'request last',
+                    'response last',
+                    'response low',
+                    'response high',
+                ]);
+                expect(xhrs[0].headers['X-Interceptor']).toBe('last');
+                done();
+            });
+
+            setTimeout(() => {
+                respond(xhrs[0], 200, '[]');
+            }, 0);
+        });
+
+        it('should remove an interceptor with the returned function', (done: Function) => {
+            const request = jasmine.createSpy('request');
+            const remove = intercept({ request: request });
+
+            remove();
+            remove();
+
+            http.ajax({ url: '/users' }).then(() => {
+                expect(request).not.toHaveBeenCalled();
+                expect(plat.async.Http.interceptors.length).toBe(0);
+                done();
+            });
+
+            respond(xhrs[0], 200, '[]');
+        });
+
+        it('should recover from failed requests in the response error hook', (done: Function) => {
+            const response = jasmine.createSpy('response');
+
+            intercept({ response: response });
+            intercept({
+                priority: 10,
+                responseError: (error: plat.async.AjaxError) => ({
+                    response: `recovered from ${error.status}`,
+                    status: 200,
+                }),
+            });
+
+            http.ajax<string>({ url: '/users' }).then((result) => {
+                expect(response).not.toHaveBeenCalled();
+                expect(result.status).toBe(200);
+                expect(result.response).toBe('recovered from 500');
+                done();
+            });
+
+            setTimeout(() => {
+                respond(xhrs[0], 500, 'Internal Server Error');
+            }, 0);
+        });
+
+        it('should not send a request cancelled while a request hook is pending', (done: Function) => {
+            const response = jasmine.createSpy('response');
+            let resume: (config: plat.async.IHttpConfig) => void;
+
+            intercept({
+                request: (config: plat.async.IHttpConfig) =>
+                    new Promise<plat.async.IHttpConfig>((resolve) => {
+                        resume = () => {
+                            resolve(config);
+                        };
+                    }),
+                response: response,
+            });
+
+            const promise = http.ajax({ url: '/users' });
+
+            setTimeout(() => {
+                promise.cancel();
+                resume(null);
+
+                setTimeout(() => {
+                    expect(xhrs.length).toBe(0);
+                    expect(response).not.toHaveBeenCalled();
+                    done();
+                }, 10);
+            }, 0);
+        });
+    });
+
+    describe('Http Retry Tests', () => {
+        let http: plat.async.Http;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            installXhr();
+        });
+
+        afterEach(() => {
+            uninstallXhr();
+        });
+
+        function createRequest(options: plat.async.IHttpConfig): any {
+            const request: any = plat.acquire(plat.async.HttpRequest);
+
+            request.initialize(options);
+
+            return request;
+        }
+
+        function createError(status: number): plat.async.AjaxError {
+            return new plat.async.AjaxError({ response: '', status: status });
+        }
+
+        it('should back off exponentially up to the max delay', () => {
+            const request = createRequest({ url: '/users', retry: { delay: 100, factor: 3, maxDelay: 500 } });
+
+            expect(request._retryDelay(1)).toBe(100);
+            expect(request._retryDelay(2)).toBe(300);
+            expect(request._retryDelay(3)).toBe(500);
+            expect(createRequest({ url: '/users', retry: {} })._retryDelay(2)).toBe(2000);
+        });
+
+        it('should randomize the delay by the jitter', () => {
+            const request = createRequest({ url: '/users', retry: { delay: 100, jitter: 0.2 } });
+            const random = spyOn(Math, 'random');
+
+            random.and.returnValue(1);
+            expect(request._retryDelay(1)).toBe(120);
+            random.and.returnValue(0);
+            expect(request._retryDelay(1)).toBe(80);
+        });
+
+        it('should only retry idempotent methods with retryable statuses', () => {
+            const get = createRequest({ url: '/users', retry: {} });
+            const post = createRequest({ url: '/users', method: 'POST', retry: {} });
+            const patch = createRequest({ url: '/users', method: 'patch', retry: { methods: ['PATCH'], statuses: [409] } });
+            const networkError = new plat.async.AjaxError({ response: '', status: 404, xhr: <any>{ status: 0 } });
+
+            expect(get._shouldRetry(createError(503), 1)).toBe(true);
+            expect(get._shouldRetry(networkError, 1)).toBe(true);
+            expect(get._shouldRetry(createError(404), 1)).toBe(false);
+            expect(get._shouldRetry(createError(503), 3)).toBe(false);
+            expect(post._shouldRetry(createError(503), 1)).toBe(false);
+            expect(patch._shouldRetry(createError(409), 1)).toBe(true);
+            expect(patch._shouldRetry(createError(503), 1)).toBe(false);
+        });
+
+        it('should send failed requests again until they succeed', (done: Function) => {
+            _window.XMLHttpRequest.prototype.send = function (): void {
+                const count = xhrs.length;
+
+                setTimeout(() => {
+                    respond(this, count < 3 ? 503 : 200, count < 3 ? '' : 'ok');
+                }, 0);
+            };
+
+            http.ajax<string>({ url: '/flaky', retry: { delay: 1 } }).then((response) => {
+                expect(xhrs.length).toBe(3);
+                expect(response.response).toBe('ok');
+                done();
+            });
+        });
+
+        it('should not retry requests with non-idempotent methods', (done: Function) => {
+            http.ajax({ url: '/users', method: 'POST', retry: { delay: 1 } }).catch((error: plat.async.AjaxError) => {
+                expect(error.status).toBe(503);
+
+                setTimeout(() => {
+                    expect(xhrs.length).toBe(1);
+                    done();
+                }, 10);
+            });
+
+            respond(xhrs[0], 503);
+        });
+
+        it('should not send the request again when cancelled while waiting to retry', (done: Function) => {
+            const promise = http.ajax({ url: '/flaky', retry: { delay: 20 } });
+
+            respond(xhrs[0], 503);
+
+            setTimeout(() => {
+                promise.cancel();
+
+                setTimeout(() => {
+                    expect(xhrs.length).toBe(1);
+                    done();
+                }, 40);
+            }, 5);
+        });
+    });
+
+    describe('Http Transport Tests', () => {
+        let http: plat.async.Http;
+        let removeTransport: plat.IRemoveListener;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            removeTransport = () => { };
+        });
+
+        afterEach(() => {
+            removeTransport();
+        });
+
+        it('should select the fetch transport only when it is supported', () => {
+            const request: any = plat.acquire(plat.async.HttpRequest);
+
+            request.initialize({ url: '/users', transport: 'fetch' });
+            request.__fetchSupported = true;
+            expect(request._getTransport()).toBe('fetch');
+
+            request.__fetchSupported = false;
+            expect(request._getTransport()).toBe('xhr');
+        });
+
+        it('should send requests with fetch', (done: Function) => {
+            const _window: any = window;
+            const fetch = _window.fetch;
+            const request: any = plat.acquire(plat.async.HttpRequest);
+            const spy = jasmine.createSpy('fetch').and.returnValue(Promise.resolve({
+                status: 200,
+                body: null,
+                headers: { forEach: (): void => { } },
+                text: () => Promise.resolve('Platypus'),
+            }));
+
+            _window.fetch = spy;
+            request.initialize({ url: '/users', method: 'post', transport: 'fetch' });
+            request.__fetchSupported = true;
+
+            request.execute().then((response: plat.async.IAjaxResponse<string>) => {
+                expect(spy.calls.argsFor(0)[0]).toContain('/users');
+                expect(spy.calls.argsFor(0)[1].method).toBe('POST');
+                expect(response.status).toBe(200);
+                expect(response.response).toBe('Platypus');
+            }).then(() => {
+                _window.fetch = fetch;
+                done();
+            }, (error: any) => {
+                _window.fetch = fetch;
+                done.call(null, error);
+            });
+        });
+
+        it('should let transforms set headers on fetch requests', (done: Function) => {
+            const _window: any = window;
+            const fetch = _window.fetch;
+            const request: any = plat.acquire(plat.async.HttpRequest);
+            const spy = jasmine.createSpy('fetch').and.returnValue(Promise.resolve({
+                status: 200,
+                body: null,
+                headers: { forEach: (): void => { } },
+                text: () => Promise.resolve(''),
+            }));
+
+            _window.fetch = spy;
+            request.initialize({
+                url: '/users',
+                method: 'post',
+                data: { name: 'Platypus' },
+                transport: 'fetch',
+                transforms: [
+                    (data: any, xhr: XMLHttpRequest) => {
+                        xhr.setRequestHeader('X-Transform', 'name');
+
+                        return data.name;
+                    },
+                ],
+            });
+            request.__fetchSupported = true;
+
+            request.execute().then(() => {
+                const init = spy.calls.argsFor(0)[1];
+
+                expect(init.headers['X-Transform']).toBe('name');
+                expect(init.body).toBe('Platypus');
+            }).then(() => {
+                _window.fetch = fetch;
+                done();
+            }, (error: any) => {
+                _window.fetch = fetch;
+                done.call(null, error);
+            });
+        });
+
+        it('should send requests with a registered transport', (done: Function) => {
+            const transport = {
+                send: jasmine.createSpy('send').and.returnValue(Promise.resolve({
+                    response: 'Platypus',
+                    status: 200,
+                    getAllResponseHeaders: (): string => '',
+                })),
+            };
+
+            removeTransport = http.registerTransport('custom', transport);
+
+            http.ajax<string>({ url: '/users', transport: 'custom' }).then((response) => {
+                const args = transport.send.calls.argsFor(0);
+
+                expect(args[0] instanceof plat.async.HttpRequest).toBe(true);
+                expect(args[1].url).toContain('/users');
+                expect(response.response).toBe('Platypus');
+                done();
+            });
+        });
+
+        describe('with a timeout', () => {
+            beforeEach(() => {
+                jasmine.clock().install();
+            });
+
+            afterEach(() => {
+                jasmine.clock().uninstall();
+            });
+
+            it('should time out and abort requests sent with a registered transport', (done: Function) => {
+                const abort = jasmine.createSpy('abort');
+                let resolveLate: (response: plat.async.IAjaxResponse<any>) => void;
+
+                removeTransport = http.registerTransport('custom', {
+                    send: (request: plat.async.HttpRequest) => {
+                        request.abort = abort;
+
+                        return new Promise<plat.async.IAjaxResponse<any>>((resolve) => {
+                            resolveLate = resolve;
+                        });
+                    },
+                });
+
+                http.ajax({ url: '/slow', transport: 'custom', timeout: 100 }).then(null, (error: plat.async.AjaxError) => {
+                    expect(error instanceof plat.async.TimeoutError).toBe(true);
+                    expect(error.status).toBe(408);
+                    expect(error.response).toContain('100ms');
+                    expect(abort).toHaveBeenCalled();
+                    resolveLate({ response: 'late', status: 200 });
+                    done();
+                });
+
+                jasmine.clock().tick(50);
+                expect(abort).not.toHaveBeenCalled();
+                jasmine.clock().tick(51);
+            });
+        });
+    });
+
+    describe('Http Progress Tests', () => {
+        let fetch: any;
+
+        beforeEach(() => {
+            fetch = _window.fetch;
+            installXhr();
+        });
+
+        afterEach(() => {
+            _window.fetch = fetch;
+            uninstallXhr();
+        });
+
+        it('should report xhr upload and download progress', (done: Function) => {
+            const http = plat.acquire(plat.async.Http);
+            const onUploadProgress = jasmine.createSpy('onUploadProgress');
+            const onDownloadProgress = jasmine.createSpy('onDownloadProgress');
+
+            http.ajax({
+                url: '/upload',
+                method: 'POST',
+                data: 'Platypus',
+                onUploadProgress: onUploadProgress,
+                onDownloadProgress: onDownloadProgress,
+            }).then(() => {
+                expect(onUploadProgress).toHaveBeenCalledWith({
+                    type: 'upload',
+                    loaded: 25,
+                    total: 100,
+                    percent: 25,
+                    lengthComputable: true,
+                });
+                expect(onDownloadProgress).toHaveBeenCalledWith({
+                    type: 'download',
+                    loaded: 10,
+                    total: 0,
+                    percent: null,
+                    lengthComputable: false,
+                });
+                done();
+            });
+
+            xhrs[0].upload.onprogress({ loaded: 25, total: 100, lengthComputable: true });
+            xhrs[0].onprogress({ loaded: 10, total: 0, lengthComputable: false });
+            respond(xhrs[0], 200, 'ok');
+        });
+
+        it('should not listen for upload progress without a progress callback', (done: Function) => {
+            const http = plat.acquire(plat.async.Http);
+
+            http.ajax({ url: '/upload', method: 'POST', data: 'Platypus' }).then(() => {
+                done();
+            });
+
+            expect(xhrs[0].upload.onprogress).toBeUndefined();
+            expect(xhrs[0].onprogress).toEqual(jasmine.any(Function));
+            respond(xhrs[0], 200, 'ok');
+        });
+
+        it('should report fetch download progress', (done: Function) => {
+            const request: any = plat.acquire(plat.async.HttpRequest);
+            const onDownloadProgress = jasmine.createSpy('onDownloadProgress');
+
+            _window.fetch = (): any => Promise.resolve(new _window.Response('Platypus', {
+                status: 200,
+                headers: { 'Content-Length': '8' },
+            }));
+
+            request.initialize({ url: '/download', transport: 'fetch', onDownloadProgress: onDownloadProgress });
+            request.__fetchSupported = true;
+
+            request.execute().then((response: plat.async.IAjaxResponse<string>) => {
+                const event = onDownloadProgress.calls.mostRecent().args[0];
+
+                expect(response.response).toBe('Platypus');
+                expect(event.type).toBe('download');
+                expect(event.loaded).toBe(8);
+                expect(event.total).toBe(8);
+                expect(event.percent).toBe(100);
+                done();
+            });
+        });
+    });
+
+    describe('Http Cache Tests', () => {
+        let http: plat.async.Http;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+            http.invalidate();
+        });
+
+        afterEach(() => {
+            uninstall();
+            backend.reset();
+            http.invalidate();
+        });
+
+        it('should serve fresh responses from the cache', (done: Function) => {
+            backend
+                .expect('GET', '/users')
+                .respond(200, ['Platypus'], { 'Cache-Control': 'max-age=60' });
+
+            const first = http.ajax<string[]>({ url: '/users', cache: true });
+
+            backend.flush();
+
+            first
+                .then(() => http.ajax<string[]>({ url: '/users', cache: true }))
+                .then((response) => {
+                    expect(response.response).toEqual(['Platypus']);
+                    backend.verifyNoOutstandingExpectations();
+                    backend.verifyNoOutstandingRequests();
+                    done();
+                });
+        });
+
+        it('should revalidate with If-None-Match and serve 304s from the cache', (done: Function) => {
+            backend.expect('GET', '/users').respond(200, ['Platypus'], { ETag: '"v1"' });
+            backend
+                .expect('GET', '/users', undefined, { 'If-None-Match': '"v1"' })
+                .respond(304);
+
+            const first = http.ajax<string[]>({ url: '/users', cache: true });
+
+            backend.flush();
+
+            first
+                .then(() => {
+                    const second = http.ajax<string[]>({ url: '/users', cache: true });
+
+                    backend.flush();
+
+                    return second;
+                })
+                .then((response) => {
+                    expect(response.status).toBe(200);
+                    expect(response.response).toEqual(['Platypus']);
+                    backend.verifyNoOutstandingExpectations();
+                    done();
+                });
+        });
+
+        it('should invalidate cached responses by url prefix', (done: Function) => {
+            backend
+                .when('GET', /\/users$/)
+                .respond(200, ['Platypus'], { 'Cache-Control': 'max-age=60' });
+
+            const first = http.ajax<string[]>({ url: '/users', cache: true });
+
+            backend.flush();
+
+            first
+                .then(() => {
+                    http.invalidate('/other');
+
+                    return http.ajax<string[]>({ url: '/users', cache: true });
+                })
+                .then(() => {
+                    backend.verifyNoOutstandingRequests();
+                    http.invalidate('/us');
+
+                    const refetched = http.ajax<string[]>({ url: '/users', cache: true });
+
+                    expect(() => {
+                        backend.verifyNoOutstandingRequests();
+                    }).toThrow();
+                    backend.flush();
+
+                    return refetched;
+                })
+                .then(() => {
+                    done();
+                });
+        });
+
+        it('should dedupe concurrent identical requests', (done: Function) => {
+            backend.expect('GET', '/users').respond(200, ['Platypus']);
+
+            const first = http.ajax<string[]>({ url: '/users', dedupe: true });
+            const second = http.ajax<string[]>({ url: '/users', dedupe: true });
+
+            expect(second).not.toBe(first);
+            backend.flush();
+            backend.verifyNoOutstandingExpectations();
+
+            Promise.all([first, second]).then((responses) => {
+                expect(responses[0].response).toEqual(['Platypus']);
+                expect(responses[1].response).toEqual(['Platypus']);
+                done();
+            });
+        });
+
+        it('should not dedupe requests with different headers', () => {
+            backend.expect('GET', '/users', undefined, { Authorization: 'a' }).respond(200, []);
+            backend.expect('GET', '/users', undefined, { Authorization: 'b' }).respond(200, []);
+
+            http.ajax({ url: '/users', dedupe: true, headers: { Authorization: 'a' } });
+            http.ajax({ url: '/users', dedupe: true, headers: { Authorization: 'b' } });
+
+            backend.flush();
+            backend.verifyNoOutstandingExpectations();
+        });
+
+        it('should only abort a deduped request once every request is cancelled', (done: Function) => {
+            backend.when('GET', '/users').respond(200, ['Platypus']);
+
+            const first = http.ajax<string[]>({ url: '/users', dedupe: true });
+            const second = http.ajax<string[]>({ url: '/users', dedupe: true });
+            const third = http.ajax<string[]>({ url: '/users', dedupe: true });
+
+            second.cancel();
+            third.cancel();
+
+            first.then((response) => {
+                expect(response.response).toEqual(['Platypus']);
+
+                const fourth = http.ajax({ url: '/users', dedupe: true });
+                const fifth = http.ajax({ url: '/users', dedupe: true });
+
+                fourth.cancel();
+                expect(() => {
+                    backend.verifyNoOutstandingRequests();
+                }).toThrow();
+                fifth.cancel();
+                backend.verifyNoOutstandingRequests();
+                done();
+            });
+
+            backend.flush();
+        });
+
+        it('should dispatch one ErrorEvent for a failed deduped request', (done: Function) => {
+            const spy = spyOn(plat.events.ErrorEvent, 'dispatch');
+
+            backend.expect('GET', '/broken').respond(500, 'Internal Server Error');
+
+            const first = http.ajax({ url: '/broken', dedupe: true });
+            const second = http.ajax({ url: '/broken', dedupe: true });
+
+            Promise.allSettled([first, second]).then((results) => {
+                expect(results[0].status).toBe('rejected');
+                expect(results[1].status).toBe('rejected');
+
+                setTimeout(() => {
+                    expect(spy.calls.count()).toBe(1);
+                    done();
+                }, 0);
+            });
+
+            backend.flush();
+        });
+    });
+
+    describe('Http Scheduler Tests', () => {
+        const config = plat.async.HttpScheduler.config;
+        let http: plat.async.Http;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+            config.maxConcurrent = 1;
+        });
+
+        afterEach(() => {
+            config.maxConcurrent = 0;
+            uninstall();
+            backend.reset();
+        });
+
+        it('should queue requests over the limit by priority', (done: Function) => {
+            backend.when('GET', /\/(first|low|high)$/).respond(200, {});
+
+            const first = http.ajax({ url: '/first' });
+            const low = http.ajax({ url: '/low', priority: http.priority.LOW });
+            const high = http.ajax({ url: '/high', priority: http.priority.HIGH });
+
+            expect(first.queuePosition()).toBe(-1);
+            expect(high.queuePosition()).toBe(0);
+            expect(low.queuePosition()).toBe(1);
+            expect(() => {
+                backend.flush(2);
+            }).toThrow();
+
+            backend.flush();
+
+            first
+                .then(() => {
+                    expect(high.queuePosition()).toBe(-1);
+                    expect(low.queuePosition()).toBe(0);
+                    backend.flush();
+
+                    return high;
+                })
+                .then(() => {
+                    backend.flush();
+
+                    return low;
+                })
+                .then(() => {
+                    backend.verifyNoOutstandingRequests();
+                    done();
+                });
+        });
+
+        it('should remove cancelled requests from the queue', (done: Function) => {
+            backend.expect('GET', /\/first$/).respond(200, {});
+            backend.expect('GET', /\/third$/).respond(200, {});
+
+            const first = http.ajax({ url: '/first' });
+            const second = http.ajax({ url: '/second' });
+            const third = http.ajax({ url: '/third' });
+
+            second.cancel();
+
+            expect(second.queuePosition()).toBe(-1);
+            expect(third.queuePosition()).toBe(0);
+
+            backend.flush();
+
+            first
+                .then(() => {
+                    backend.flush();
+
+                    return third;
+                })
+                .then(() => {
+                    backend.verifyNoOutstandingExpectations();
+                    done();
+                });
+        });
+    });
+
+    describe('Http Error Tests', () => {
+        let http: plat.async.Http;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+        });
+
+        afterEach(() => {
+            uninstall();
+            backend.reset();
+        });
+
+        it('should reject with an HttpStatusError with parsed problem details', (done: Function) => {
+            backend.expect('GET', '/users/1').respond(
+                404,
+                '{"type":"/errors/not-found","title":"Not Found","detail":"No user with id 1"}',
+                { 'Content-Type': 'application/problem+json' }
+            );
+
+            http.ajax({ url: '/users/1' }).catch((error: plat.async.HttpStatusError) => {
+                expect(error instanceof plat.async.HttpStatusError).toBe(true);
+                expect(error.name).toBe('HttpStatusError');
+                expect(error.isClientError()).toBe(true);
+                expect(error.isServerError()).toBe(false);
+                expect(error.problem.type).toBe('/errors/not-found');
+                expect(error.message).toBe('No user with id 1');
+                done();
+            });
+
+            backend.flush();
+        });
+
+        it('should reject with NetworkErrors and TimeoutErrors', (done: Function) => {
+            jasmine.clock().install();
+            backend.expect('GET', '/offline').respond(0);
+            backend.expect('GET', '/slow').timeout();
+
+            const offline = http.ajax({ url: '/offline' }).catch((error: plat.async.AjaxError) => {
+                expect(error instanceof plat.async.NetworkError).toBe(true);
+                expect(error.status).toBe(0);
+            });
+            const slow = http.ajax({ url: '/slow', timeout: 500 }).catch((error: plat.async.AjaxError) => {
+                expect(error instanceof plat.async.TimeoutError).toBe(true);
+                expect(error.status).toBe(408);
+            });
+
+            backend.flush(1);
+            jasmine.clock().tick(501);
+            jasmine.clock().uninstall();
+
+            offline
+                .then(() => slow)
+                .then(() => {
+                    done();
+                });
+        });
+
+        it('should only match AjaxErrors with instanceof', () => {
+            const response = { response: 'Not Found', status: 404 };
+            const error = new plat.async.HttpStatusError(response);
+
+            expect(error instanceof plat.async.HttpStatusError).toBe(true);
+            expect(error instanceof plat.async.AjaxError).toBe(true);
+            expect(error instanceof Error).toBe(true);
+            expect(error instanceof plat.async.NetworkError).toBe(false);
+            expect(new Error('error') instanceof plat.async.AjaxError).toBe(false);
+            expect(new plat.async.CancellationError() instanceof plat.async.AjaxError).toBe(false);
+            expect(error.toString()).toBe('Request failed with status: 404 and response: Not Found');
+        });
+
+        it('should create a ParseError for successful responses with invalid JSON', () => {
+            const request: any = plat.acquire(plat.async.HttpRequest);
+
+            request.initialize({ url: '/users', responseType: 'json' });
+
+            const error = request._createError({ response: '{bad', status: 200 }, true);
+            const response: any = { response: '{"a":1}', status: 200 };
+
+            expect(error instanceof plat.async.ParseError).toBe(true);
+            expect(error.response).toBe('{bad');
+            expect(request._createError(response, true)).toBe(null);
+            expect(response.response).toEqual({ a: 1 });
+        });
+
+        it('should dispatch an ErrorEvent for failed requests', (done: Function) => {
+            const spy = spyOn(plat.events.ErrorEvent, 'dispatch');
+
+            backend.expect('GET', '/broken').respond(500, 'Internal Server Error');
+
+            http.ajax({ url: '/broken' }).catch((error: plat.async.HttpStatusError) => {
+                expect(error.isServerError()).toBe(true);
+
+                setTimeout(() => {
+                    expect(spy).toHaveBeenCalled();
+                    expect(spy.calls.mostRecent().args[2]).toBe(error);
+                    done();
+                }, 0);
+            });
+
+            backend.flush();
+        });
+    });
+
+    describe('Http Cancellation Tests', () => {
+        let http: plat.async.Http;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+        let token: plat.async.CancellationToken;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+            token = new plat.async.CancellationToken();
+        });
+
+        afterEach(() => {
+            uninstall();
+            backend.reset();
+        });
+
+        it('should cancel the request and reject with a CancellationError', (done: Function) => {
+            backend.expect('GET', '/users').respond(200, []);
+
+            http.ajax({ url: '/users', token: token }).catch((error) => {
+                expect(plat.async.CancellationToken.isCancellation(error)).toBe(true);
+                backend.verifyNoOutstandingRequests();
+                done();
+            });
+
+            token.cancel();
+        });
+
+        it('should not send requests with a cancelled token', (done: Function) => {
+            token.cancel();
+
+            http.ajax({ url: '/users', token: token }).catch((error: any) => {
+                expect(error).toBe(token.reason);
+                backend.verifyNoOutstandingRequests();
+                done();
+            });
+        });
+    });
+}
@@ -0,0 +1,115 @@
+module tests.async.mockhttpbackend {
+    describe('MockHttpBackend Tests', () => {
+        let http: plat.async.Http;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+
+        beforeEach(() => {
+            http = plat.acquire(plat.async.Http);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+        });
+
+        afterEach(() => {
+            uninstall();
+            backend.reset();
+        });
+
+        it('should respond to an expected request when flushed', (done: Function) => {
+            let responded = false;
+
+            backend
+                .expect('GET', '/users', undefined, { Accept: 'application/json' })
+                .respond(200, [{ name: 'Platypus' }], { ETag: 'abc' });
+
+            http
+                .json<any[]>({
+                    url: '/users',
+                    headers: { accept: 'application/json' },
+                })
+                .then((response) => {
+                    responded = true;
+                    expect(response.status).toBe(200);
+                    expect(response.response).toEqual([{ name: 'Platypus' }]);
+                    expect(response.getAllResponseHeaders()).toBe('ETag: abc');
+                    backend.verifyNoOutstandingExpectations();
+                    backend.verifyNoOutstandingRequests();
+                    done();
+                });
+
+            setTimeout(() => {
+                expect(responded).toBe(false);
+                expect(() => {
+                    backend.verifyNoOutstandingRequests();
+                }).toThrow();
+                backend.flush();
+            }, 0);
+        });
+
+        it('should reject with an AjaxError for error statuses', (done: Function) => {
+            backend.when('POST', '/users', { name: 'Platypus' }).respond(409, 'Conflict');
+
+            http
+                .ajax({
+                    url: '/users',
+                    method: 'POST',
+                    data: { name: 'Platypus' },
+                })
+                .catch((error: plat.async.AjaxError) => {
+                    expect(error instanceof plat.async.AjaxError).toBe(true);
+                    expect(error.status).toBe(409);
+                    expect(error.response).toBe('Conflict');
+                    done();
+                });
+
+            setTimeout(() => {
+                backend.flush();
+            }, 0);
+        });
+
+        it('should leave timed out requests for the request timeout to reject', (done: Function) => {
+            jasmine.clock().install();
+            backend.expect('GET', /\/slow$/).timeout();
+
+            http.ajax({ url: '/slow', timeout: 500 }).catch((error: plat.async.AjaxError) => {
+                expect(error instanceof plat.async.TimeoutError).toBe(true);
+                expect(error.status).toBe(408);
+                expect(error.response).toContain('500ms');
+                backend.verifyNoOutstandingRequests();
+                done();
+            });
+
+            jasmine.clock().tick(498);
+            expect(() => {
+                backend.verifyNoOutstandingRequests();
+            }).toThrow();
+            jasmine.clock().tick(2);
+            jasmine.clock().uninstall();
+        });
+
+        it('should handle jsonp requests', (done: Function) => {
+            backend.expect('JSONP', '/data').respond(200, { a: 1 });
+
+            http.jsonp<any>({ url: '/data' }).then((response) => {
+                expect(response.response).toEqual({ a: 1 });
+                done();
+            });
+
+            setTimeout(() => {
+                backend.flush();
+            }, 0);
+        });
+
+        it('should reject unexpected requests', (done: Function) => {
+            backend.expect('GET', '/users');
+
+            http.ajax({ url: '/other' }).catch((error: Error) => {
+                expect(error.message).toContain('Unexpected request: GET');
+                expect(() => {
+                    backend.verifyNoOutstandingExpectations();
+                }).toThrow();
+                done();
+            });
+        });
+    });
+}
@@ -76,4 +76,256 @@ module tests.async.promise {
                 });
         });
     });
+
+    describe('Promise API Tests', () => {
+        const AsyncPromise = plat.async.Promise;
+
+        it('should call finally when fulfilled or rejected', (done: Function) => {
+            const calls: string[] = [];
+
+            AsyncPromise.resolve(2)
+                .finally(() => {
+                    calls.push('fulfilled');
+                })
+                .then((value) => {
+                    expect(value).toBe(2);
+
+                    return AsyncPromise.reject(4).finally(() => {
+                        calls.push('rejected');
+                    });
+                })
+                .catch((error) => {
+                    expect(error).toBe(4);
+                    expect(calls).toEqual(['fulfilled', 'rejected']);
+                    done();
+                });
+        });
+
+        it('should keep the subclass when calling finally', () => {
+            const promise = new plat.async.AjaxPromise<number>((resolve) => {
+                resolve(2);
+            });
+
+            expect(promise.finally(() => undefined) instanceof plat.async.AjaxPromise).toBe(true);
+        });
+
+        it('should test allSettled', (done: Function) => {
+            AsyncPromise.allSettled<number>([1, AsyncPromise.reject(2), AsyncPromise.resolve(3)]).then(
+                (results) => {
+                    expect(results).toEqual([
+                        { status: 'fulfilled', value: 1 },
+                        { status: 'rejected', reason: 2 },
+                        { status: 'fulfilled', value: 3 },
+                    ]);
+                    done();
+                }
+            );
+        });
+
+        it('should test any', (done: Function) => {
+            AsyncPromise.any<number>([AsyncPromise.reject(1), AsyncPromise.resolve(2)])
+                .then((value) => {
+                    expect(value).toBe(2);
+
+                    return AsyncPromise.any<number>([AsyncPromise.reject(1), AsyncPromise.reject(2)]);
+                })
+                .catch((error: plat.async.AggregateError) => {
+                    expect(error.name).toBe('AggregateError');
+                    expect(error.errors).toEqual([1, 2]);
+                    done();
+                });
+        });
+
+        it('should reject with a PromiseTimeoutError and cancel the promise', (done: Function) => {
+            const promise: any = new AsyncPromise<number>(() => undefined);
+            const spy = promise.cancel = jasmine.createSpy('cancel');
+
+            AsyncPromise.timeout(promise, 10).catch((error: plat.async.PromiseTimeoutError) => {
+                expect(error.name).toBe('PromiseTimeoutError');
+                expect(error.timeout).toBe(10);
+                expect(spy).toHaveBeenCalled();
+                done();
+            });
+        });
+
+        it('should only match the typed errors with instanceof', () => {
+            const aggregate = new plat.async.AggregateError([1]);
+            const timeout = new plat.async.PromiseTimeoutError(10);
+            const error = new Error('Platypus');
+
+            expect(aggregate instanceof plat.async.AggregateError).toBe(true);
+            expect(aggregate instanceof Error).toBe(true);
+            expect(timeout instanceof plat.async.PromiseTimeoutError).toBe(true);
+            expect(timeout instanceof Error).toBe(true);
+            expect(error instanceof plat.async.AggregateError).toBe(false);
+            expect(error instanceof plat.async.PromiseTimeoutError).toBe(false);
+            expect(timeout instanceof plat.async.AggregateError).toBe(false);
+            expect(aggregate instanceof plat.async.PromiseTimeoutError).toBe(false);
+        });
+
+        it('should settle with the promise before the timeout', (done: Function) => {
+            AsyncPromise.timeout(AsyncPromise.resolve(2), 100).then((value) => {
+                expect(value).toBe(2);
+                done();
+            });
+        });
+    });
+
+    describe('CancellationToken Tests', () => {
+        const AsyncPromise = plat.async.Promise;
+        let token: plat.async.CancellationToken;
+
+        beforeEach(() => {
+            token = new plat.async.CancellationToken();
+        });
+
+        it('should reject derived promises when the token is cancelled', (done: Function) => {
+            const source: any = new AsyncPromise<number>(() => undefined);
+            const onFulfilled = jasmine.createSpy('onFulfilled');
+
+            source.cancel = jasmine.createSpy('cancel');
+
+            AsyncPromise.withToken(source, token)
+                .then(onFulfilled)
+                .catch((error) => {
+                    expect(plat.async.CancellationToken.isCancellation(error)).toBe(true);
+                    expect(error.message).toBe('stop');
+                    expect(onFulfilled).not.toHaveBeenCalled();
+                    expect(source.cancel).toHaveBeenCalled();
+                    done();
+                });
+
+            token.cancel('stop');
+        });
+
+        it('should propagate the token through all', (done: Function) => {
+            const bound = AsyncPromise.withToken(new AsyncPromise<number>(() => undefined), token);
+
+            AsyncPromise.all([1, bound]).catch((error) => {
+                expect(error).toBe(token.reason);
+                done();
+            });
+
+            token.cancel();
+        });
+
+        it('should immediately reject promises bound to a cancelled token', (done: Function) => {
+            token.cancel();
+
+            expect(() => {
+                token.throwIfCancelled();
+            }).toThrow(token.reason);
+
+            AsyncPromise.withToken(AsyncPromise.resolve(2), token).catch((error) => {
+                expect(error.name).toBe('CancellationError');
+                done();
+            });
+        });
+
+        it('should not treat other errors as cancellations', () => {
+            const error = new Error('The operation was cancelled');
+
+            token.cancel();
+
+            expect(token.reason instanceof plat.async.CancellationError).toBe(true);
+            expect(token.reason instanceof Error).toBe(true);
+            expect(error instanceof plat.async.CancellationError).toBe(false);
+            expect(plat.async.CancellationToken.isCancellation(error)).toBe(false);
+            expect(plat.async.CancellationToken.isCancellation(token.reason)).toBe(true);
+        });
+
+        it('should not affect promises that settle before cancellation', (done: Function) => {
+            AsyncPromise.withToken(AsyncPromise.resolve(2), token).then((value) => {
+                token.cancel();
+                expect(value).toBe(2);
+                done();
+            });
+        });
+    });
+
+    describe('Unhandled Rejection Tests', () => {
+        const AsyncPromise = plat.async.Promise;
+        let spy: jasmine.Spy;
+
+        beforeEach(() => {
+            spy = spyOn(plat.events.ErrorEvent, 'dispatch');
+        });
+
+        it('should report rejections without handlers and their late handlers', (done: Function) => {
+            const error = new Error('unhandled');
+            const promise = AsyncPromise.reject(error);
+
+            setTimeout(() => {
+                expect(spy.calls.count()).toBe(1);
+                expect(spy.calls.mostRecent().args[0]).toBe('error');
+                expect(spy.calls.mostRecent().args[2]).toBe(error);
+
+                promise.catch(() => {
+                    expect(spy.calls.count()).toBe(2);
+                    expect(spy.calls.mostRecent().args[0]).toBe('rejectionhandled');
+                    expect(spy.calls.mostRecent().args[2]).toBe(error);
+                    done();
+                });
+            }, 0);
+        });
+
+        describe('for native promises', () => {
+            const config = AsyncPromise.config;
+            const InjectedPromise = plat.acquire(plat.async.IPromise);
+            const error = new Error('unhandled');
+            let promise: Promise<any>;
+
+            beforeEach(() => {
+                promise = InjectedPromise.reject(error);
+                // jasmine reports unhandledrejection events through window.onerror
+                spyOn(window, 'onerror');
+            });
+
+            afterEach(() => {
+                config.reportNativeRejections = false;
+                promise.catch(() => undefined);
+            });
+
+            function dispatch(type: string): Event {
+                const ev: any = document.createEvent('Event');
+
+                ev.initEvent(type, false, true);
+                ev.promise = promise;
+                ev.reason = error;
+                window.dispatchEvent(ev);
+
+                return ev;
+            }
+
+            it('should not report or suppress their rejections by default', () => {
+                expect(dispatch('unhandledrejection').defaultPrevented).toBe(false);
+                dispatch('rejectionhandled');
+                expect(spy).not.toHaveBeenCalled();
+            });
+
+            it('should report their rejections through the window when opted in', () => {
+                config.reportNativeRejections = true;
+                expect(dispatch('unhandledrejection').defaultPrevented).toBe(true);
+                expect(spy.calls.count()).toBe(1);
+                expect(spy.calls.mostRecent().args[0]).toBe('error');
+                expect(spy.calls.mostRecent().args[2]).toBe(error);
+
+                dispatch('rejectionhandled');
+                expect(spy.calls.count()).toBe(2);
+                expect(spy.calls.mostRecent().args[0]).toBe('rejectionhandled');
+                expect(spy.calls.mostRecent().args[2]).toBe(error);
+            });
+        });
+
+        it('should not report rejections that are handled', (done: Function) => {
+            AsyncPromise.reject(2)
+                .then(() => undefined)
+                .catch(() => undefined);
+
+            setTimeout(() => {
+                expect(spy).not.toHaveBeenCalled();
+                done();
+            }, 0);
+        });
+    });
 }
@@ -0,0 +1,116 @@
+module tests.async.resource {
+    interface IUser {
+        id?: number;
+        name: string;
+    }
+
+    describe('Resource Tests', () => {
+        let ResourceFactory: plat.async.IResourceFactory;
+        let backend: plat.async.MockHttpBackend;
+        let uninstall: plat.IRemoveListener;
+        let users: plat.async.Resource<IUser>;
+
+        beforeEach(() => {
+            ResourceFactory = plat.acquire(plat.async.IResourceFactory);
+            backend = plat.acquire(plat.async.MockHttpBackend);
+            uninstall = backend.install();
+            users = ResourceFactory.create<IUser>('/api/users/:id', {
+                headers: { 'X-Api-Key': 'key' },
+                transforms: [
+                    (data: any) => (Array.isArray(data) ? data : [data]),
+                ],
+                actions: {
+                    activate: { method: 'POST', url: '/api/users/:id/activate' },
+                },
+            });
+        });
+
+        afterEach(() => {
+            uninstall();
+            backend.reset();
+        });
+
+        it('should interpolate url parameters and serialize the rest as a query', (done: Function) => {
+            backend
+                .expect('GET', /\/api\/users\/1\?expand=roles$/, undefined, { 'X-Api-Key': 'key' })
+                .respond(200, { id: 1, name: 'Platypus' });
+
+            users.get({ id: 1, expand: 'roles' }).then((response) => {
+                expect(response.response).toEqual(<any>[{ id: 1, name: 'Platypus' }]);
+                done();
+            });
+
+            backend.flush();
+        });
+
+        it('should encode query keys and values once', (done: Function) => {
+            backend.expect('GET', /\/api\/users\?q=x%20y%26z&a%20b=%2F$/).respond(200, []);
+
+            users.query({ q: 'x y&z', 'a b': '/' }).then(() => {
+                backend.verifyNoOutstandingExpectations();
+                done();
+            });
+
+            backend.flush();
+        });
+
+        it('should serialize arrays and objects in the configured query style', (done: Function) => {
+            const config = plat.web.Browser.config;
+            const queryStyle = config.queryStyle;
+
+            backend.expect('GET', /\/api\/users\?ids\[\]=1&ids\[\]=2&filter\[name\]=Platypus$/).respond(200, []);
+            config.queryStyle = 'bracket';
+
+            users.query({ ids: [1, 2], filter: { name: 'Platypus' } }).then(() => {
+                backend.verifyNoOutstandingExpectations();
+                done();
+            });
+
+            config.queryStyle = queryStyle;
+            backend.flush();
+        });
+
+        it('should omit missing url parameters', (done: Function) => {
+            backend.expect('GET', /\/api\/users$/).respond(200, []);
+
+            users.query().then((response) => {
+                expect(response.response).toEqual([]);
+                done();
+            });
+
+            backend.flush();
+        });
+
+        it('should read url parameters from the payload', (done: Function) => {
+            backend.expect('PUT', /\/api\/users\/2$/, { id: 2, name: 'Duck' }).respond(200, {});
+            backend.expect('DELETE', /\/api\/users\/2$/).respond(204);
+
+            users
+                .update({ id: 2, name: 'Duck' })
+                .then(() => {
+                    const removed = users.remove({ id: 2 });
+
+                    backend.flush();
+
+                    return removed;
+                })
+                .then(() => {
+                    backend.verifyNoOutstandingExpectations();
+                    done();
+                });
+
+            backend.flush();
+        });
+
+        it('should perform custom actions', (done: Function) => {
+            backend.expect('POST', /\/api\/users\/3\/activate$/).respond(200, {});
+
+            users.action('activate', { id: 3 }).then(() => {
+                backend.verifyNoOutstandingExpectations();
+                done();
+            });
+
+            backend.flush();
+        });
+    });
+}
@@ -83,6 +83,122 @@ module tests.routing.router {
                     done();
                 });
             });
+
+            it('should follow redirects and settle the pending navigation', (done) => {
+                const Promise = plat.acquire(plat.async.IPromise);
+                const spy = spyOn(<any>navigator, '_navigate').and.returnValue(Promise.resolve());
+                const resolveSpy = (<any>navigator)._resolveNavigate = jasmine.createSpy('resolve');
+                const redirect = new plat.routing.RedirectError({
+                    url: '/login',
+                    query: { next: 'admin' },
+                });
+
+                expect(redirect instanceof plat.routing.RedirectError).toBe(true);
+                expect(new Error('Redirected to /login') instanceof plat.routing.RedirectError).toBe(false);
+
+                (<any>navigator)._redirect(redirect).then(() => {
+                    expect(spy).toHaveBeenCalledWith('/login?next=admin', true);
+                    expect(resolveSpy).toHaveBeenCalled();
+                    done();
+                });
+            });
+
+            it('should reject navigations that redirect too many times', (done) => {
+                const Promise = plat.acquire(plat.async.IPromise);
+                const EventManager = plat.acquire(plat.events.IEventManagerStatic);
+                const Navigator = plat.routing.Navigator;
+                const root = (<any>Navigator)._root;
+                const maxRedirects = Navigator.maxRedirects;
+                const go = jasmine.createSpy('go');
+                const changeUrl = (): void => {
+                    EventManager.dispatch('urlChanged', browser, EventManager.DIRECT, [{ pathname: '/loop', query: {} }]);
+                };
+                const spy = spyOn(<any>navigator, '_navigate').and.callFake(() => {
+                    changeUrl();
+
+                    return Promise.resolve();
+                });
+
+                spyOn(browser, 'history').and.returnValue({ state: { key: 'history_1' }, go: go });
+                spyOn((<any>navigator)._log, 'warn');
+                (<any>Navigator)._root = navigator;
+                Navigator.maxRedirects = 3;
+                (<any>navigator)._router = {
+                    navigating: false,
+                    navigate: () => Promise.reject(new plat.routing.RedirectError({ url: '/loop' })),
+                };
+                (<any>navigator)._observeUrl();
+
+                (<any>navigator)._rejectNavigate = (e: Error): void => {
+                    (<any>Navigator)._root = root;
+                    Navigator.maxRedirects = maxRedirects;
+                    expect(plat.routing.RedirectError.isRedirect(e)).toBe(false);
+                    expect(e.message).toBe('Exceeded 3 redirects while navigating to /loop.');
+                    expect(spy.calls.count()).toBe(3);
+                    expect(go).toHaveBeenCalled();
+                    expect((<any>navigator)._redirects).toBe(0);
+                    done();
+                };
+
+                changeUrl();
+            });
+
+            describe('scroll restoration', () => {
+                let root: plat.routing.Navigator;
+
+                beforeEach(() => {
+                    root = (<any>plat.routing.Navigator)._root;
+                    (<any>plat.routing.Navigator)._root = navigator;
+                });
+
+                afterEach(() => {
+                    (<any>plat.routing.Navigator)._root = root;
+                });
+
+                it('should save and restore the scroll position of a custom scroll target', () => {
+                    const target = { scrollLeft: 0, scrollTop: 150 };
+                    const view: any = {
+                        type: 'posts',
+                        getScrollTarget: () => target,
+                    };
+
+                    (<any>navigator)._previousHistoryKey = 'history_1';
+                    navigator.saveScrollPosition(view);
+                    expect((<any>navigator)._scrollPositions['history_1|posts']).toEqual({ x: 0, y: 150 });
+
+                    target.scrollTop = 0;
+                    (<any>navigator)._historyKey = 'history_1';
+                    navigator.restoreScrollPosition(view);
+                    expect(target.scrollTop).toBe(150);
+                    expect((<any>navigator)._scrollRestored).toBe(true);
+                });
+
+                it('should not save the scroll position of a view that opts out', () => {
+                    const view: any = {
+                        type: 'posts',
+                        getScrollTarget: () => false,
+                    };
+
+                    (<any>navigator)._previousHistoryKey = 'history_2';
+                    navigator.saveScrollPosition(view);
+                    expect((<any>navigator)._scrollPositions['history_2|posts']).toBeUndefined();
+                });
+
+                it('should scroll to the element referenced by the hash', () => {
+                    const spy = jasmine.createSpy('scrollIntoView');
+                    const getSpy = spyOn(document, 'getElementById').and.returnValue({ scrollIntoView: spy });
+
+                    (<any>navigator)._scrollToHash('comments');
+                    expect(getSpy).toHaveBeenCalledWith('comments');
+                    expect(spy).toHaveBeenCalled();
+
+                    spy.calls.reset();
+                    (<any>navigator)._scrollRestored = true;
+                    (<any>navigator)._scrollToHash('comments');
+                    expect(spy).not.toHaveBeenCalled();
+                    expect((<any>navigator)._scrollRestored).toBe(false);
+                });
+            });
         });
     });
 }
@@ -10,11 +10,26 @@ module tests.routing.router {
     class CreatePostViewControl extends plat.ui.ViewControl { }
     class EditPostViewControl extends plat.ui.ViewControl { }
     class CustomersViewControl extends plat.ui.ViewControl { }
+    class LazyViewControl extends plat.ui.ViewControl { }
+    class PrefetchViewControl extends plat.ui.ViewControl {
+        static templateUrl: string = 'prefetch.vc.html';
+    }
+    class InstanceTemplateViewControl extends plat.ui.ViewControl {
+        static instances: number = 0;
+        templateUrl: string = 'instance.vc.html';
+
+        constructor() {
+            super();
+            InstanceTemplateViewControl.instances += 1;
+        }
+    }
 
     plat.register.viewControl('posts', PostsViewControl);
     plat.register.viewControl('createpost', CreatePostViewControl);
     plat.register.viewControl('editpost', EditPostViewControl);
     plat.register.viewControl('customers', CustomersViewControl);
+    plat.register.viewControl('prefetch', PrefetchViewControl);
+    plat.register.viewControl('instancetemplate', InstanceTemplateViewControl);
 
     describe('Router Tests', () => {
         let router: plat.routing.Router;
@@ -95,6 +110,24 @@ module tests.routing.router {
                     }).then(<any>done, <any>done);
             });
 
+            it('should not navigate when the token is cancelled', (done: Function) => {
+                const token = new plat.async.CancellationToken();
+
+                viewport.canNavigateFrom = <any>jasmine.createSpy('root canNavigateFrom').and.returnValue(
+                    new Promise<boolean>(() => undefined)
+                );
+
+                router.navigate('/posts', undefined, false, undefined, token)
+                    .catch((e) => {
+                        expect(e).toBe(token.reason);
+                        expect(router.navigating).toBe(false);
+                        expect(viewport.navigateFrom).not.toHaveBeenCalled();
+                        expect(viewport.navigateTo).not.toHaveBeenCalled();
+                    }).then(<any>done, <any>done);
+
+                token.cancel();
+            });
+
             it('should navigate viewports registered after navigation', (done: Function) => {
                 router = plat.acquire(plat.routing.Router);
                 viewport = createViewport('root');
@@ -187,6 +220,36 @@ module tests.routing.router {
                         expect(child.generate('editpost', {})).toBe('/posts/edit');
                     }).then(<any>done, <any>done);
                 });
+
+                it('should describe the route tree and explain urls', () => {
+                    router.queryParam((value: string) => value, 'page', 'posts');
+                    router.intercept(() => true);
+
+                    const tree = router.routeTree();
+
+                    expect(tree.routes).toEqual([{
+                        pattern: '/posts',
+                        view: 'posts',
+                        alias: 'posts',
+                        redirectTo: undefined,
+                        lazy: false,
+                        paramTransforms: [],
+                        queryTransforms: ['page'],
+                        interceptors: 0,
+                    }]);
+                    expect(tree.interceptors).toBe(1);
+                    expect(tree.children.length).toBe(1);
+                    expect(tree.children[0].uid).toBe(child.uid);
+                    expect(tree.children[0].routes.map((route) => route.pattern)).toEqual(['/new', '/edit']);
+
+                    const explanation = router.explain('/posts/edit');
+
+                    expect(explanation.routes.matched).toBe(false);
+                    expect(explanation.childRoutes.matched).toBe(true);
+                    expect(explanation.children.length).toBe(1);
+                    expect(explanation.children[0].url).toBe('/edit');
+                    expect(explanation.children[0].routes.candidates.map((candidate) => candidate.matched)).toEqual([false, true]);
+                });
             });
         });
 
@@ -353,6 +416,41 @@ module tests.routing.router {
                 });
             });
 
+            it('should coerce query parameters with the route query schema', (done) => {
+                let page: any;
+
+                router.configure({
+                    pattern: '/search',
+                    view: 'customers',
+                    querySchema: {
+                        page: 'number',
+                        ids: 'number',
+                        tags: 'array',
+                        archived: 'boolean',
+                        sort: (value: string) => value.toUpperCase(),
+                    },
+                }, false);
+                router.queryParam((value: any) => {
+                    page = value;
+                }, 'page', 'customers');
+
+                router.navigate('/search', { page: '2', ids: ['1', '2'], archived: 'false', sort: 'asc', other: 'x' })
+                    .then(() => {
+                        const routeInfo: plat.routing.IRouteInfo = viewport.navigateTo.calls.argsFor(0)[0];
+
+                        expect(page).toBe(2);
+                        expect(routeInfo.query).toEqual({
+                            page: 2,
+                            ids: [1, 2],
+                            tags: [],
+                            archived: false,
+                            sort: 'ASC',
+                            other: 'x',
+                        });
+                    })
+                    .then(<any>done, <any>done);
+            });
+
             it('should test * query/param/interceptors', (done) => {
                 router.configure({
                     pattern: '/customers/:id',
@@ -395,6 +493,478 @@ module tests.routing.router {
                     });
             });
         });
+
+        describe('with guards and resolvers', () => {
+            let allow: any;
+            let calls: string[];
+
+            beforeEach(() => {
+                allow = true;
+                calls = [];
+
+                plat.register.injectable('$TestAuthGuard', class {
+                    public canActivate(info: plat.routing.IRouteInfo): any {
+                        calls.push('auth');
+
+                        return resolve(allow);
+                    }
+                });
+                plat.register.injectable('$TestAdminGuard', class {
+                    public canActivate(info: plat.routing.IRouteInfo): any {
+                        calls.push('admin');
+
+                        return true;
+                    }
+                });
+                plat.register.injectable('$TestUserResolver', class {
+                    public resolve(info: plat.routing.IRouteInfo): any {
+                        return resolve({ id: info.parameters.id });
+                    }
+                });
+
+                router.configure({
+                    pattern: '/users/:id',
+                    view: 'posts',
+                    guards: ['$TestAuthGuard', '$TestAdminGuard'],
+                    resolve: { user: '$TestUserResolver' },
+                }, false);
+            });
+
+            it('should deliver resolved data through the route info', (done: Function) => {
+                router.navigate('/users/3')
+                    .then(() => {
+                        const routeInfo: plat.routing.IRouteInfo = viewport.navigateTo.calls.argsFor(0)[0];
+
+                        expect(calls).toEqual(['auth', 'admin']);
+                        expect(routeInfo.resolved).toEqual({ user: { id: '3' } });
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should stop at the first guard that rejects the navigation', (done: Function) => {
+                allow = false;
+
+                router.navigate('/users/3')
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, () => {
+                        expect(calls).toEqual(['auth']);
+                        expect(viewport.canNavigateTo).not.toHaveBeenCalled();
+                        expect(viewport.navigateTo).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should reject with a RedirectError when a guard redirects', (done: Function) => {
+                allow = '/login';
+
+                router.navigate('/users/3')
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: plat.routing.RedirectError) => {
+                        expect(plat.routing.RedirectError.isRedirect(e)).toBe(true);
+                        expect(e.url).toBe('/login');
+                        expect(e.replace).toBe(true);
+                        expect(router.navigating).toBe(false);
+                        expect(viewport.navigateTo).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            describe('and the navigation lifecycle', () => {
+                const EventManager = plat.acquire(plat.events.IEventManagerStatic);
+                const uid = 'routerlifecycletest';
+                let events: plat.routing.INavigationInfo[];
+
+                beforeEach(() => {
+                    events = [];
+
+                    [
+                        'navigationStarted',
+                        'navigationGuardsChecked',
+                        'navigationResolved',
+                        'navigationViewsActivated',
+                        'navigationCompleted',
+                        'navigationCancelled',
+                        'navigationErrored',
+                    ].forEach((name: string) => {
+                        EventManager.on(uid, name, (ev: plat.events.DispatchEvent, info: plat.routing.INavigationInfo) => {
+                            if (ev.sender === router) {
+                                events.push(info);
+                            }
+                        });
+                    });
+                });
+
+                afterEach(() => {
+                    EventManager.dispose(uid);
+                });
+
+                it('should dispatch every phase of a successful navigation', (done: Function) => {
+                    router.navigate('/users/3')
+                        .then(() => {
+                            const first = events[0];
+
+                            expect(events.map((info) => info.phase)).toEqual([
+                                'navigationStarted',
+                                'navigationGuardsChecked',
+                                'navigationResolved',
+                                'navigationViewsActivated',
+                                'navigationCompleted',
+                            ]);
+                            expect(events.every((info) => info.id === first.id)).toBe(true);
+                            expect(first.previous).toBeUndefined();
+                            expect(first.next.parameters).toEqual({ id: '3' });
+
+                            return router.navigate('/users/4');
+                        })
+                        .then(() => {
+                            const last = events[events.length - 1];
+
+                            expect(last.id).not.toBe(events[0].id);
+                            expect(last.previous.parameters).toEqual({ id: '3' });
+                            expect(last.next.parameters).toEqual({ id: '4' });
+                        })
+                        .then(<any>done, <any>done);
+                });
+
+                it('should dispatch navigationCancelled when a guard rejects the navigation', (done: Function) => {
+                    allow = false;
+
+                    router.navigate('/users/3')
+                        .catch(() => {
+                            expect(events.map((info) => info.phase)).toEqual([
+                                'navigationStarted',
+                                'navigationCancelled',
+                            ]);
+                            expect(events[1].error.message).toBe('Not cleared to navigate');
+                        })
+                        .then(<any>done, <any>done);
+                });
+
+                it('should dispatch navigationErrored when a step fails', (done: Function) => {
+                    const error = new Error('resolver failed');
+
+                    plat.register.injectable('$TestUserResolver', class {
+                        public resolve(): any {
+                            return Promise.reject(error);
+                        }
+                    });
+
+                    router.navigate('/users/3')
+                        .catch(() => {
+                            const last = events[events.length - 1];
+
+                            expect(last.phase).toBe('navigationErrored');
+                            expect(last.error).toBe(error);
+                        })
+                        .then(<any>done, <any>done);
+                });
+            });
+        });
+
+        describe('with redirect routes', () => {
+            it('should redirect with parameter substitution and the query', (done: Function) => {
+                router.configure({
+                    pattern: '/old-path/:id',
+                    redirectTo: '/new/:id',
+                }, false);
+
+                router.navigate('/old-path/5', { tab: 'info' })
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: plat.routing.RedirectError) => {
+                        expect(plat.routing.RedirectError.isRedirect(e)).toBe(true);
+                        expect(e.url).toBe('/new/5');
+                        expect(e.query).toEqual({ tab: 'info' });
+                        expect(e.replace).toBe(true);
+                        expectAllNot(viewport);
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should drop the query and keep the child route', (done: Function) => {
+                router.configure({
+                    pattern: '/archive/:year',
+                    redirectTo: '/posts/:year',
+                    preserveQuery: false,
+                }, false);
+
+                router.navigate('/archive/2015/12', { tab: 'info' })
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: plat.routing.RedirectError) => {
+                        expect(e.url).toBe('/posts/2015/12');
+                        expect(e.query).toEqual({});
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should reject redirects with missing parameters', (done: Function) => {
+                router.configure([{
+                    pattern: '/old-posts/:id',
+                    redirectTo: '/posts/:slug',
+                }, {
+                    pattern: '/old-users/:id',
+                    redirectTo: '/users/:id/:tab?',
+                }], false);
+
+                router.navigate('/old-posts/5')
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: Error) => {
+                        expect(plat.routing.RedirectError.isRedirect(e)).toBe(false);
+                        expect(e.message).toBe('Parameter slug for the redirect of /old-posts/:id does not exist.');
+
+                        return router.navigate('/old-users/5');
+                    })
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: plat.routing.RedirectError) => {
+                        expect(e.url).toBe('/users/5');
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should redirect to the result of a redirect function', (done: Function) => {
+                router.configure({
+                    pattern: '/me',
+                    redirectTo: (info: plat.routing.IRouteInfo) => ({ url: '/users/1', replace: false }),
+                }, false);
+
+                router.navigate('/me')
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: plat.routing.RedirectError) => {
+                        expect(e.url).toBe('/users/1');
+                        expect(e.replace).toBe(false);
+                    })
+                    .then(<any>done, <any>done);
+            });
+        });
+
+        describe('with named outlets', () => {
+            let panel: IViewport;
+
+            beforeEach(() => {
+                panel = createViewport('panel');
+                (<any>panel).outlet = 'panel';
+                router.register(<any>panel);
+                router.configure([{
+                    pattern: '/posts',
+                    view: 'posts',
+                }, {
+                    pattern: '/details/:id',
+                    view: 'editpost',
+                    outlet: 'panel',
+                }]);
+                resetAll(viewport);
+                resetAll(panel);
+            });
+
+            it('should navigate outlets independently of the primary route', (done: Function) => {
+                router.navigate('/posts(panel:details/42)')
+                    .then(() => {
+                        expectAllTo(viewport);
+                        expect(panel.navigateTo.calls.mostRecent().args[0].parameters).toEqual({ id: '42' });
+                        resetAll(viewport);
+                        resetAll(panel);
+
+                        return router.navigate('/posts(panel:details/43)');
+                    })
+                    .then(() => {
+                        expectAllNot(viewport);
+                        expectAllTo(panel);
+                        resetAll(panel);
+
+                        return router.navigate('/posts');
+                    })
+                    .then(() => {
+                        expectAllNot(viewport);
+                        expect(panel.canNavigateFrom).toHaveBeenCalled();
+                        expect(panel.navigateFrom).toHaveBeenCalled();
+                        expect(panel.navigateTo).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should only poll the ports of the changed outlet', (done: Function) => {
+                router.navigate('/posts(panel:details/42)')
+                    .then(() => {
+                        resetAll(viewport);
+                        resetAll(panel);
+                        panel.canNavigateFrom.and.returnValue(resolve(false));
+
+                        return router.navigate('/posts(panel:details/43)');
+                    })
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, () => {
+                        expectAllNot(viewport);
+                        expect(panel.canNavigateFrom).toHaveBeenCalled();
+                        expect(panel.navigateTo).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should generate urls that update one outlet', (done: Function) => {
+                router.navigate('/posts(panel:details/42)')
+                    .then(() => {
+                        expect(router.generateOutlet('panel', 'editpost', { id: '7' })).toBe('/posts(panel:details/7)');
+                        expect(router.generateOutlet('panel', null)).toBe('/posts');
+                        expect(() => router.generateOutlet('modal', 'editpost')).toThrow();
+                    })
+                    .then(<any>done, <any>done);
+            });
+        });
+
+        describe('with prefetching', () => {
+            it('should fetch the templates of matched views without navigating', (done: Function) => {
+                const dom = plat.acquire(plat.ui.Dom);
+                const spy = spyOn(dom, 'getTemplate').and.returnValue(resolve());
+                const guard = jasmine.createSpy('guard');
+
+                router.intercept(guard);
+                router.configure([{
+                    pattern: '/prefetch/:id',
+                    view: 'prefetch',
+                }, {
+                    pattern: '/posts',
+                    view: 'posts',
+                }, {
+                    pattern: '/instance',
+                    view: 'instancetemplate',
+                }], false);
+
+                router.prefetch('/prefetch/3')
+                    .then(() => {
+                        expect(spy).toHaveBeenCalledWith('prefetch.vc.html');
+                        expect(guard).not.toHaveBeenCalled();
+                        expect(router.currentRouteInfo).toBeUndefined();
+                        expectAllNot(viewport);
+                        spy.calls.reset();
+
+                        return router.prefetch('/posts');
+                    })
+                    .then(() => {
+                        expect(spy).not.toHaveBeenCalled();
+
+                        return router.prefetch('/instance');
+                    })
+                    .then(() => {
+                        expect(spy).not.toHaveBeenCalled();
+                        expect(InstanceTemplateViewControl.instances).toBe(0);
+
+                        return router.prefetch('/unknown');
+                    })
+                    .then(() => {
+                        expect(spy).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+        });
+
+        describe('with lazy-loaded views', () => {
+            let showLoading: jasmine.Spy;
+            let hideLoading: jasmine.Spy;
+
+            beforeEach(() => {
+                showLoading = (<any>viewport).showLoading = jasmine.createSpy('showLoading');
+                hideLoading = (<any>viewport).hideLoading = jasmine.createSpy('hideLoading');
+            });
+
+            it('should load and register the view on first navigation', (done: Function) => {
+                const load = jasmine.createSpy('load').and.callFake(() => {
+                    expect(showLoading).toHaveBeenCalled();
+                    expect(viewport.canNavigateTo).not.toHaveBeenCalled();
+
+                    return resolve(LazyViewControl);
+                });
+
+                router.configure({
+                    pattern: '/lazy',
+                    view: load,
+                    alias: 'lazy',
+                }, false);
+
+                router.navigate('/lazy')
+                    .then(() => {
+                        const routeInfo: plat.routing.IRouteInfo = viewport.navigateTo.calls.argsFor(0)[0];
+
+                        expectAllTo(viewport);
+                        expect(hideLoading).toHaveBeenCalled();
+                        expect(routeInfo.delegate.view).toBe('lazy');
+                        expect(plat.dependency.Injector.getDependency('lazy').Constructor).toBe(LazyViewControl);
+
+                        return router.navigate('/lazy', { page: 2 });
+                    })
+                    .then(() => {
+                        expect(load.calls.count()).toBe(1);
+                        expect(showLoading.calls.count()).toBe(1);
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should use the token of a registered view', (done: Function) => {
+                router.configure({
+                    pattern: '/lazy-posts',
+                    view: () => resolve(PostsViewControl),
+                }, false);
+
+                router.navigate('/lazy-posts')
+                    .then(() => {
+                        const routeInfo: plat.routing.IRouteInfo = viewport.navigateTo.calls.argsFor(0)[0];
+
+                        expect(routeInfo.delegate.view).toBe('posts');
+                        expect(routeInfo.delegate.alias).toBe('/lazy-posts');
+                        expect(router.generate('/lazy-posts')).toBe('/lazy-posts');
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should call the unknown handler when the view fails to load', (done: Function) => {
+                const error = new Error('chunk failed');
+
+                router.configure({
+                    pattern: '/broken',
+                    view: () => Promise.reject(error),
+                }, false);
+
+                router.unknown((info: plat.routing.IUnknownRouteInfo) => {
+                    expect(info.segment).toBe('/broken');
+                    expect(info.error).toBe(error);
+                    expect(hideLoading).toHaveBeenCalled();
+                    info.view = EditPostViewControl;
+                });
+
+                router.navigate('/broken')
+                    .then(() => {
+                        const routeInfo: plat.routing.IRouteInfo = viewport.navigateTo.calls.argsFor(0)[0];
+
+                        expect(routeInfo.delegate.view).toBe('editpost');
+                    })
+                    .then(<any>done, <any>done);
+            });
+
+            it('should reject when the view fails to load without an unknown handler', (done: Function) => {
+                const error = new Error('chunk failed');
+
+                router.configure({
+                    pattern: '/broken',
+                    view: () => Promise.reject(error),
+                }, false);
+
+                router.navigate('/broken')
+                    .then(() => {
+                        expect(true).toBe(false);
+                    }, (e: any) => {
+                        expect(e).toBe(error);
+                        expect(router.navigating).toBe(false);
+                        expect(viewport.canNavigateTo).not.toHaveBeenCalled();
+                    })
+                    .then(<any>done, <any>done);
+            });
+        });
     });
 
     function expectAllNot(viewport: IViewport) {
@@ -491,6 +491,72 @@ module tests.routing.routeRecognizer {
             }]);
         });
 
+        it('should test constrained dynamic segments', () => {
+            router.register([{ pattern: '/users/:id(\\d+)', delegate: delegate1 }]);
+
+            expect(router.recognize('/users/42')).toEqual([
+                { delegate: delegate1, parameters: { id: '42' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/users/abc')).toBeUndefined();
+
+            router.register([{ pattern: '/users/:slug([a-z-]+)', delegate: delegate2 }]);
+            router.register([{ pattern: '/users/:name', delegate: delegate3 }]);
+
+            expect(router.recognize('/users/42')).toEqual([
+                { delegate: delegate1, parameters: { id: '42' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/users/john-doe')).toEqual([
+                { delegate: delegate2, parameters: { slug: 'john-doe' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/users/John_Doe')).toEqual([
+                { delegate: delegate3, parameters: { name: 'John_Doe' }, isDynamic: true },
+            ]);
+        });
+
+        it('should test optional dynamic segments with default values', () => {
+            router.register([{ pattern: '/items/:page?', delegate: delegate1 }]);
+            router.register([{ pattern: '/posts/:page(\\d+)?=1/list', delegate: delegate2 }]);
+
+            expect(router.recognize('/items')).toEqual([
+                { delegate: delegate1, parameters: {}, isDynamic: true },
+            ]);
+            expect(router.recognize('/items/2')).toEqual([
+                { delegate: delegate1, parameters: { page: '2' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/posts/list')).toEqual([
+                { delegate: delegate2, parameters: { page: '1' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/posts/3/list')).toEqual([
+                { delegate: delegate2, parameters: { page: '3' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/posts/x/list')).toBeUndefined();
+        });
+
+        it('should test constraints with groups followed by other parameters', () => {
+            router.register([{ pattern: '/posts/:id(\\d+|(new|draft))/:tab([a-z(]+)/:page', delegate: delegate1 }], { name: 'post' });
+
+            expect(router.recognize('/posts/42/comments/2')).toEqual([
+                { delegate: delegate1, parameters: { id: '42', tab: 'comments', page: '2' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/posts/new/(details/3')).toEqual([
+                { delegate: delegate1, parameters: { id: 'new', tab: '(details', page: '3' }, isDynamic: true },
+            ]);
+            expect(router.recognize('/posts/abc/comments/2')).toBeUndefined();
+            expect(router.generate('post', { id: 'draft', tab: 'info', page: '1' })).toEqual('/posts/draft/info/1');
+        });
+
+        it('should test generation with constraints and optional segments', () => {
+            router.register([{ pattern: '/users/:id(\\d+)', delegate: delegate1 }], { name: 'user' });
+            router.register([{ pattern: '/items/:page(\\d+)?=1', delegate: delegate2 }], { name: 'items' });
+
+            expect(router.generate('user', { id: '42' })).toEqual('/users/42');
+            expect(router.generate('user', { id: 'abc' })).toBeUndefined();
+            expect(router.generate('items')).toEqual('/items');
+            expect(router.generate('items', { page: '1' })).toEqual('/items');
+            expect(router.generate('items', { page: '2' })).toEqual('/items/2');
+            expect(router.generate('items', { page: 'x' })).toBeUndefined();
+        });
+
         it('should test generation', () => {
             router.register([{ pattern: '/', delegate: delegate1 }], { name: 'index' });
             router.register([{ pattern: '/posts/:id', delegate: delegate2 }], { name: 'post' });
@@ -517,6 +583,52 @@ module tests.routing.routeRecognizer {
             expect(router.generate('splat', { splat: 'foo/bar/baz/quux' })).toEqual('/splat/foo/bar/baz/quux');
         });
 
+        it('should test routes', () => {
+            router.register([{ pattern: '/posts/:id', delegate: delegate1 }], { name: 'post' });
+            router.register([{ pattern: '/admin', delegate: delegate2 }, { pattern: '/users', delegate: delegate3 }]);
+
+            const routes = router.routes();
+
+            expect(routes.length).toBe(2);
+            expect(routes[0].pattern).toBe('/posts/:id');
+            expect(routes[0].name).toBe('post');
+            expect(routes[0].delegates).toEqual([delegate1]);
+            expect(routes[1].pattern).toBe('/admin/users');
+            expect(routes[1].name).toBeUndefined();
+            expect(routes[1].delegates).toEqual([delegate2, delegate3]);
+        });
+
+        it('should explain why routes were or were not matched', () => {
+            router.register([{ pattern: '/posts/:id(\\d+)', delegate: delegate1 }], { name: 'post' });
+            router.register([{ pattern: '/posts/:slug', delegate: delegate2 }], { name: 'slug' });
+            router.register([{ pattern: '/posts/new', delegate: delegate3 }], { name: 'new' });
+
+            let explanation = router.explain('/posts/abc');
+
+            expect(explanation.matched).toBe(true);
+            expect(explanation.result).toEqual(router.recognize('/posts/abc'));
+            expect(explanation.candidates).toEqual([
+                { pattern: '/posts/:id(\\d+)', name: 'post', matched: false, reason: 'The path does not satisfy the route constraints.' },
+                { pattern: '/posts/:slug', name: 'slug', matched: true, reason: 'Matched.' },
+                { pattern: '/posts/new', name: 'new', matched: false, reason: 'The path does not match the segments of the route.' },
+            ]);
+
+            explanation = router.explain('/posts/1');
+
+            expect(explanation.candidates[0].matched).toBe(true);
+            expect(explanation.candidates[1].reason).toBe('The more specific route /posts/:id(\\d+) was preferred.');
+
+            explanation = router.explain('/users');
+
+            expect(explanation.matched).toBe(false);
+            expect(explanation.result).toBeUndefined();
+            expect(explanation.transitions.length).toBe(2);
+            expect(explanation.transitions[1].character).toBe('u');
+            expect(explanation.transitions[1].tried).toEqual([{ validCharacters: 'p' }]);
+            expect(explanation.transitions[1].matched).toEqual([]);
+            expect(explanation.candidates[2].reason).toBe('No state accepts \'u\' at index 1.');
+        });
+
         it('should test delegatesFor', () => {
             router.register([{ pattern: '/', delegate: delegate1 }], { name: 'index' });
             router.register([{ pattern: '/posts/:id', delegate: delegate2 }], { name: 'post' });
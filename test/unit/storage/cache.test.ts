@@ -41,6 +41,13 @@ module tests.storage.cache {
             expect(cache.read('item')).toEqual('Hello');
         });
 
+        it(`should test retrieving the keys in ${id}`, () => {
+            cache.put('foo', 1);
+            cache.put('bar', 2);
+
+            expect(cache.keys()).toEqual(['foo', 'bar']);
+        });
+
         it(`should test clearing ${id}`, () => {
             cache.put('item', 1);
 
@@ -0,0 +1,93 @@
+/// <reference path="../../../../references.d.ts" />
+
+module tests.ui.controls.link {
+    'use strict';
+
+    const browser = plat.acquire(plat.web.Browser);
+    const ControlFactory = plat.acquire(plat.IControlFactory);
+
+    describe('Link Tests', () => {
+        let link: plat.ui.controls.Link;
+
+        function setOptions(options: plat.ui.controls.ILinkOptions): void {
+            link.options = <any>{
+                value: options,
+                observe: (): plat.IRemoveListener => () => { },
+            };
+        }
+
+        function urlUtils(url: string): plat.web.UrlUtils {
+            return browser.urlUtils(browser.formatUrl(url));
+        }
+
+        function update(url: string): void {
+            (<any>link)._updateActive(urlUtils(url));
+        }
+
+        function hasClass(className: string): boolean {
+            return link.element.className.split(' ').indexOf(className) > -1;
+        }
+
+        beforeEach(() => {
+            link = plat.acquire(plat.ui.controls.Link);
+            link.type = 'plat-link';
+            link.element = document.createElement('a');
+            setOptions({ view: '/posts', isUrl: true });
+        });
+
+        afterEach(() => {
+            ControlFactory.dispose(link);
+        });
+
+        it('should add the active classes for the current and nested routes', () => {
+            update('/posts/5');
+            expect(hasClass('plat-link-active')).toBe(true);
+            expect(hasClass('plat-link-exact-active')).toBe(false);
+
+            update('/posts');
+            expect(hasClass('plat-link-active')).toBe(true);
+            expect(hasClass('plat-link-exact-active')).toBe(true);
+
+            update('/postscript');
+            expect(hasClass('plat-link-active')).toBe(false);
+            expect(hasClass('plat-link-exact-active')).toBe(false);
+        });
+
+        it('should use the exact and includeQuery options and custom class names', () => {
+            setOptions({
+                view: '/posts?tab=1',
+                isUrl: true,
+                includeQuery: true,
+                activeClass: 'on',
+                exactActiveClass: 'here',
+            });
+
+            update('/posts?tab=1&page=2');
+            expect(hasClass('on')).toBe(true);
+            expect(hasClass('here')).toBe(false);
+
+            update('/posts?tab=2');
+            expect(hasClass('on')).toBe(false);
+
+            update('/posts?tab=1');
+            expect(hasClass('on')).toBe(true);
+            expect(hasClass('here')).toBe(true);
+
+            link.options.value.exact = true;
+            update('/posts/5?tab=1');
+            expect(hasClass('on')).toBe(false);
+            expect(hasClass('here')).toBe(false);
+        });
+
+        it('should update the active classes when the route changes', () => {
+            const EventManager = plat.acquire(plat.events.IEventManagerStatic);
+
+            link.loaded();
+            EventManager.dispatch('routeChanged', {}, EventManager.DIRECT, [urlUtils('/posts')]);
+            expect(hasClass('plat-link-exact-active')).toBe(true);
+
+            EventManager.dispatch('routeChanged', {}, EventManager.DIRECT, [urlUtils('/users')]);
+            expect(hasClass('plat-link-active')).toBe(false);
+        });
+    });
+}
@@ -790,6 +790,36 @@ namespace tests.utils {
             expect(uid).toBe(`${rand}00`);
         });
 
+        it('should test serializeQuery with each style', () => {
+            const query = { tags: ['a', 'b c'], page: 2, filter: { owner: 'me' }, empty: <any>undefined };
+
+            expect(utils.serializeQuery(query)).toBe('?tags=a&tags=b%20c&page=2&filter[owner]=me');
+            expect(utils.serializeQuery(query, 'bracket')).toBe('?tags[]=a&tags[]=b%20c&page=2&filter[owner]=me');
+            expect(utils.serializeQuery(query, 'comma')).toBe('?tags=a,b%20c&page=2&filter[owner]=me');
+            expect(utils.serializeQuery({})).toBe('');
+        });
+
+        it('should test deserializeQuery with each style', () => {
+            expect(utils.deserializeQuery('?tags=a&tags=b%20c&page=2&filter[owner]=me')).toEqual({
+                tags: ['a', 'b c'],
+                page: '2',
+                filter: { owner: 'me' },
+            });
+            expect(utils.deserializeQuery('tags[]=a&flag', 'bracket')).toEqual({
+                tags: ['a'],
+                flag: undefined,
+            });
+            expect(utils.deserializeQuery('tags=a,b%2Cc', 'comma')).toEqual({ tags: ['a', 'b,c'] });
+            expect(utils.deserializeQuery('tags=a,b')).toEqual({ tags: 'a,b' });
+        });
+
+        it('should test deserializeQuery with keys found on the Object prototype', () => {
+            const query = utils.deserializeQuery('?__proto__[polluted]=yes&a[constructor][prototype][polluted]=yes&hasOwnProperty=1&x=2');
+
+            expect((<any>{}).polluted).toBeUndefined();
+            expect(query).toEqual({ hasOwnProperty: '1', x: '2' });
+        });
+
         it('should test mapAsync', (done: Function) => {
             const array = [1, 2, 3, 4, 5];
             let temp: number;
@@ -0,0 +1,78 @@
+/// <reference path="../../references.d.ts" />
+
+module tests.web.browser {
+    'use strict';
+
+    const browser = plat.acquire(plat.web.Browser);
+    const config = plat.web.Browser.config;
+
+    describe('Browser Tests', () => {
+        let baseUrl: string;
+        let mountPath: string;
+        let routingType: string;
+
+        beforeEach(() => {
+            baseUrl = config.baseUrl;
+            mountPath = config.mountPath;
+            routingType = config.routingType;
+            config.routingType = config.STATE;
+        });
+
+        afterEach(() => {
+            config.baseUrl = baseUrl;
+            config.mountPath = mountPath;
+            config.routingType = routingType;
+        });
+
+        describe('with a mount path', () => {
+            beforeEach(() => {
+                config.baseUrl = 'http://localhost:9876/apps/portal/';
+                config.mountPath = '/apps/portal';
+            });
+
+            it('should mount local urls once, ignoring case', () => {
+                expect(browser.formatUrl('/posts')).toBe('http://localhost:9876/apps/portal/posts');
+                expect(browser.formatUrl('/Apps/Portal/posts')).toBe('http://localhost:9876/apps/portal/posts');
+                expect(browser.formatUrl('/apps/portalx')).toBe('http://localhost:9876/apps/portal/apps/portalx');
+            });
+
+            it('should make paths relative to the mount path', () => {
+                const utils = browser.urlUtils('http://localhost:9876/APPS/portal/posts/5?tab=1');
+
+                expect(utils.pathname).toBe('/posts/5');
+                expect(utils.query).toEqual({ tab: '1' });
+                expect(browser.urlUtils('http://localhost:9876/apps/portal').pathname).toBe('/');
+                expect(browser.urlUtils('/apps/portal/posts').pathname).toBe('/posts');
+                expect(browser.urlUtils('/docs/page.html').pathname).toBe('/docs/page.html');
+                expect(browser.isCrossDomain('http://localhost:9876/apps/portalx/a')).toBe(false);
+                expect(browser.urlUtils('http://localhost:9876/apps/portalx/a').pathname).toBe('/apps/portalx/a');
+            });
+        });
+
+        it('should detect the mount path from the base element', () => {
+            const base = document.createElement('base');
+
+            base.setAttribute('href', '/apps/portal/');
+            document.head.appendChild(base);
+            config.baseUrl = '';
+            config.mountPath = undefined;
+
+            try {
+                plat.acquire(plat.web.UrlUtils);
+                expect(config.baseUrl).toBe('http://localhost:9876/apps/portal/');
+                expect(config.mountPath).toBe('/apps/portal');
+            } finally {
+                document.head.removeChild(base);
+            }
+        });
+
+        it('should prefer the configured mount path and normalize its slashes', () => {
+            config.baseUrl = '';
+            config.mountPath = 'apps//portal/';
+
+            plat.acquire(plat.web.UrlUtils);
+            expect(config.baseUrl).toBe('http://localhost:9876/apps/portal/');
+            expect(config.mountPath).toBe('/apps/portal');
+        });
+    });
+}
@@ -0,0 +1,67 @@
+/// <reference path="../../references.d.ts" />
+
+module tests.web.memoryhistory {
+    'use strict';
+
+    const browser = plat.acquire(plat.web.Browser);
+    const memoryHistory = plat.acquire(plat.web.MemoryHistory);
+    const config = plat.web.Browser.config;
+
+    describe('MemoryHistory Tests', () => {
+        let routingType: string;
+
+        beforeEach(() => {
+            routingType = config.routingType;
+            memoryHistory.clear();
+        });
+
+        afterEach(() => {
+            config.routingType = routingType;
+            memoryHistory.clear();
+        });
+
+        it('should push, go back and discard forward entries', () => {
+            const spy = jasmine.createSpy('listener');
+            const remove = memoryHistory.listen(spy);
+
+            memoryHistory.pushState({ a: 1 }, '', '/a');
+            memoryHistory.pushState({ b: 2 }, '', '/b');
+            expect(memoryHistory.length).toBe(2);
+
+            memoryHistory.back();
+            expect(memoryHistory.url).toBe('/a');
+            expect(memoryHistory.state).toEqual({ a: 1 });
+            expect(spy).toHaveBeenCalledTimes(1);
+
+            memoryHistory.go(-5);
+            expect(spy).toHaveBeenCalledTimes(1);
+
+            memoryHistory.pushState({}, '', '/c');
+            memoryHistory.forward();
+            expect(memoryHistory.length).toBe(2);
+            expect(memoryHistory.url).toBe('/c');
+
+            remove();
+            memoryHistory.back();
+            expect(spy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should route the Browser through the memory stack in memory mode', () => {
+            const href = window.location.href;
+            const baseUrl = config.baseUrl;
+
+            spyOn(<any>browser, '_urlChanged');
+            config.routingType = config.MEMORY;
+            memoryHistory.replaceState({}, '', baseUrl);
+
+            expect(browser.history()).toBe(memoryHistory);
+            expect(browser.url('/posts')).toBe(`${baseUrl}posts`);
+            expect(memoryHistory.length).toBe(2);
+            expect(window.location.href).toBe(href);
+
+            browser.back();
+            expect(browser.url()).toBe(baseUrl);
+            expect(window.location.href).toBe(href);
+        });
+    });
+}